@@ -0,0 +1,216 @@
+import { spawn } from "node:child_process";
+
+/**
+ * Runs the report CLIs against the small deck and price files in `data/fixtures/reports/` and
+ * checks their exit code and the lines they print. These cover behaviour that is easy to lose in a
+ * refactor without any scraper output changing, such as how a bad deck line is reported.
+ */
+type ReportCheck = {
+  name: string;
+  script: string;
+  args: string[];
+  /** Whether the CLI should exit with 0 (default) or fail. */
+  fails?: boolean;
+  /** Text the combined stdout/stderr must contain. */
+  expect?: string[];
+  /** Text it must not contain. */
+  reject?: string[];
+};
+
+const CHECK_TIMEOUT_MS = 120_000;
+
+const BAD_LINE_DECKS = "data/fixtures/reports/decks-bad-line.json";
+const BAD_LINE_ISSUE = "Line 6: Unable to parse export line: Cleave, three copies";
+/** The sample Kai'Sa deck with an inventory one Stupefy and one Mega-Mech short of it. */
+const KAISA_ARGS = ["--decks", "data/fixtures/reports/decks-kaisa.json", "--inventory", "data/fixtures/reports/inventory-kaisa.json"];
+/** The same deck with an inventory missing every Stupefy and Cleave: six copies, $1.35 at the sample prices. */
+const KAISA_SHORT_SIX_ARGS = [
+  "--decks",
+  "data/fixtures/reports/decks-kaisa.json",
+  "--inventory",
+  "data/fixtures/reports/inventory-kaisa-short-six.json",
+  "--prices",
+  "data/sample-prices.json"
+];
+
+const CHECKS: ReportCheck[] = [
+  {
+    name: "compare-bad-line",
+    script: "src/compare.ts",
+    args: ["--decks", BAD_LINE_DECKS, "--inventory", "data/sample-inventory.json"],
+    expect: [BAD_LINE_ISSUE, "=== Deck Comparison Report ===", "Kai'Sa (bad line) [UNBUILDABLE]", "• Kai'Sa, Daughter of the Void: need 1 more"]
+  },
+  {
+    name: "compare-bad-line-strict",
+    script: "src/compare.ts",
+    args: ["--decks", BAD_LINE_DECKS, "--inventory", "data/sample-inventory.json", "--strict"],
+    fails: true,
+    expect: [BAD_LINE_ISSUE],
+    reject: ["=== Deck Comparison Report ==="]
+  },
+  {
+    name: "validate-bad-line",
+    script: "src/validate.ts",
+    args: ["--decks", BAD_LINE_DECKS],
+    expect: [BAD_LINE_ISSUE, "Kai'Sa (bad line)"]
+  },
+  {
+    name: "compare-max-cost",
+    script: "src/compare.ts",
+    args: [...KAISA_ARGS, "--prices", "data/sample-prices.json", "--max-cost", "5"],
+    expect: ["Near-miss threshold: <= $5.00 to complete.", "Kai'Sa (sample) [CLOSE] — 2 missing · $1.75"]
+  },
+  {
+    name: "compare-max-cost-only",
+    script: "src/compare.ts",
+    // Six cheap copies short: a cost limit on its own replaces the default copy limit of 4.
+    args: [...KAISA_SHORT_SIX_ARGS, "--max-cost", "5"],
+    expect: ["Near-miss threshold: <= $5.00 to complete.", "Kai'Sa (sample) [CLOSE] — 6 missing · $1.35"],
+    reject: ["missing copy/copies"]
+  },
+  {
+    name: "compare-max-cost-and-copies",
+    script: "src/compare.ts",
+    args: [...KAISA_SHORT_SIX_ARGS, "--max-cost", "5", "--max-missing", "4"],
+    expect: ["<= 4 missing copy/copies and <= $5.00 to complete", "Kai'Sa (sample) [UNBUILDABLE] — 6 missing · $1.35"]
+  },
+  {
+    name: "compare-max-cost-unpriced",
+    script: "src/compare.ts",
+    // Mega-Mech has no price here, so the cost is unknown and the deck must not count as close.
+    args: [...KAISA_ARGS, "--prices", "data/fixtures/reports/prices-no-mega-mech.json", "--max-cost", "5"],
+    expect: ["Kai'Sa (sample) [UNBUILDABLE] — 2 missing · $0.25 + 1 unpriced"]
+  },
+  {
+    name: "shopping-list-shared-card",
+    script: "src/shoppingList.ts",
+    // Stupefy is one copy short in both the main deck and the sideboard; one more copy covers both.
+    args: ["--decks", "data/fixtures/reports/decks-shared-card.json", "--inventory", "data/fixtures/reports/inventory-kaisa.json", "--prices", "data/sample-prices.json"],
+    expect: ["1 Stupefy — $0.25 each, $0.25", "Total: 2 copies, $1.75"]
+  },
+  {
+    name: "plan-shared-card",
+    script: "src/compare.ts",
+    // The planner reads the deck like the report: the sideboard's Stupefy shares the main deck's copies.
+    args: ["--decks", "data/fixtures/reports/decks-shared-card.json", "--inventory", "data/fixtures/reports/inventory-kaisa.json", "--plan"],
+    expect: ["[SHORT 2]", "Combined shortfall to build all planned decks: 2 copy/copies", "• Stupefy: need 1 more (have 2/3"]
+  },
+  {
+    name: "trends-single-file",
+    script: "src/trends.ts",
+    args: ["--snapshots", "web/public/sample-snapshots.json"],
+    expect: ["Snapshots: 2026-09-28 (2) → 2026-10-05 (2) → 2026-10-12 (3)"]
+  },
+  {
+    name: "trends-mixed-sources",
+    script: "src/trends.ts",
+    // A tournament snapshot sits between the most-viewed ones; the newest source is used by default.
+    args: ["--snapshots", "data/fixtures/reports/snapshots-mixed-sources.json"],
+    expect: [
+      "Source: most-viewed (1 snapshot(s) from other sources skipped)",
+      "Snapshots: 2026-09-28 (2) → 2026-10-05 (2) → 2026-10-12 (3)"
+    ]
+  },
+  {
+    name: "trends-source",
+    script: "src/trends.ts",
+    args: ["--snapshots", "data/fixtures/reports/snapshots-mixed-sources.json", "--source", "tournament"],
+    expect: ["Source: tournament (3 snapshot(s) from other sources skipped)", "Snapshots: 2026-10-08 (1)"]
+  },
+  {
+    name: "meta-legend-names",
+    script: "src/meta.ts",
+    args: ["--decks", "web/public/sample-decks.json"],
+    expect: ["Jinx, Loose Cannon", "Kai'Sa, Daughter of the Void"]
+  }
+];
+
+async function main() {
+  const only = parseCheckArgs(process.argv.slice(2));
+  const checks = only.length ? CHECKS.filter((check) => only.includes(check.name)) : CHECKS;
+  const unknown = only.filter((name) => !CHECKS.some((check) => check.name === name));
+  if (unknown.length > 0) {
+    throw new Error(`Unknown check(s): ${unknown.join(", ")}. Available: ${CHECKS.map((check) => check.name).join(", ")}`);
+  }
+
+  let failures = 0;
+  for (const check of checks) {
+    const problems = await runCheck(check);
+    if (problems.length === 0) {
+      console.log(`✓ ${check.name}`);
+      continue;
+    }
+
+    failures += 1;
+    console.log(`✗ ${check.name}`);
+    problems.forEach((problem) => console.log(`  - ${problem}`));
+  }
+
+  console.log("");
+  console.log(`${checks.length - failures}/${checks.length} report check(s) passed.`);
+  if (failures > 0) {
+    process.exitCode = 1;
+  }
+}
+
+async function runCheck(check: ReportCheck): Promise<string[]> {
+  const run = await runCli(check.script, check.args);
+  const problems: string[] = [];
+
+  if (run.code == null) {
+    problems.push(`${check.script} timed out`);
+  } else if (check.fails ? run.code === 0 : run.code !== 0) {
+    problems.push(`${check.script} exited with ${run.code}, expected ${check.fails ? "a failure" : "0"}`);
+  }
+  (check.expect ?? [])
+    .filter((text) => !run.output.includes(text))
+    .forEach((text) => problems.push(`missing output: ${text}`));
+  (check.reject ?? [])
+    .filter((text) => run.output.includes(text))
+    .forEach((text) => problems.push(`unexpected output: ${text}`));
+
+  return problems.length ? [...problems, ...tail(run.output)] : [];
+}
+
+function runCli(script: string, args: string[]): Promise<{ code: number | null; output: string }> {
+  return new Promise((resolve, reject) => {
+    const child = spawn(process.execPath, ["--import", "tsx", script, ...args], { cwd: process.cwd() });
+    let output = "";
+    child.stdout.on("data", (chunk) => (output += chunk));
+    child.stderr.on("data", (chunk) => (output += chunk));
+
+    const timer = setTimeout(() => child.kill(), CHECK_TIMEOUT_MS);
+    child.on("error", (error) => {
+      clearTimeout(timer);
+      reject(error);
+    });
+    child.on("close", (code) => {
+      clearTimeout(timer);
+      resolve({ code, output });
+    });
+  });
+}
+
+function tail(output: string, lines = 8): string[] {
+  return output.trim().split("\n").slice(-lines).map((line) => `  ${line}`);
+}
+
+function parseCheckArgs(argv: string[]): string[] {
+  let only: string[] = [];
+
+  argv.forEach((arg, index) => {
+    if (arg === "--only" && argv[index + 1]) {
+      only = argv[index + 1]
+        .split(",")
+        .map((name) => name.trim())
+        .filter(Boolean);
+    }
+  });
+
+  return only;
+}
+
+main().catch((error) => {
+  console.error(error);
+  process.exit(1);
+});
@@ -0,0 +1,224 @@
+import { spawn } from "node:child_process";
+import fs from "node:fs/promises";
+import os from "node:os";
+import path from "node:path";
+import type { InventoryCard, PersistedDeck } from "./lib/types.js";
+
+/**
+ * Runs each scraper CLI against its saved HTML snapshots (see `data/fixtures/`) and compares the
+ * output with the fixture's `expected.json`. A failure here usually means the site markup the
+ * snapshots were taken from changed shape, or a selector was edited without updating them.
+ */
+type ScraperSuite = {
+  name: string;
+  script: string;
+  fixtureDir: string;
+  args?: string[];
+  /** File in `fixtureDir` holding the expected output (default: expected.json). */
+  expected?: string;
+  /** File in `fixtureDir` copied to the output path before the run, for CLIs that merge into it. */
+  seed?: string;
+  /** Maps the CLI's JSON output to the shape stored in `expected.json`, dropping run-specific fields. */
+  project: (output: unknown) => unknown;
+};
+
+const SUITE_TIMEOUT_MS = 120_000;
+
+const projectDecks = (output: unknown) =>
+  (output as PersistedDeck[]).map((deck) => ({
+    slug: deck.slug,
+    label: deck.label,
+    path: new URL(deck.url).pathname,
+    exportText: deck.exportText,
+    source: deck.source,
+    rank: deck.rank
+  }));
+
+const SUITES: ScraperSuite[] = [
+  {
+    name: "piltover-decks",
+    script: "src/scrape.ts",
+    fixtureDir: "data/fixtures/piltover",
+    project: projectDecks
+  },
+  {
+    name: "piltover-tournament",
+    script: "src/scrape.ts",
+    fixtureDir: "data/fixtures/piltover",
+    args: ["--source", "tournament", "--limit", "3"],
+    expected: "expected-tournament.json",
+    project: projectDecks
+  },
+  {
+    name: "piltover-user",
+    script: "src/scrape.ts",
+    fixtureDir: "data/fixtures/piltover",
+    args: ["--source", "user", "--user", "fixture"],
+    expected: "expected-user.json",
+    project: projectDecks
+  },
+  {
+    name: "piltover-urls",
+    script: "src/scrape.ts",
+    fixtureDir: "data/fixtures/piltover",
+    args: ["--source", "url", "--urls", "data/fixtures/piltover/deck-urls.txt"],
+    expected: "expected-urls.json",
+    project: projectDecks
+  },
+  {
+    name: "piltover-cache",
+    script: "src/scrape.ts",
+    fixtureDir: "data/fixtures/piltover",
+    // The seeded Kai'Sa export is old but inside this TTL, so it must be reused rather than refetched.
+    args: ["--ttl", "1000000"],
+    seed: "cache-seed.json",
+    expected: "expected-cache.json",
+    project: projectDecks
+  },
+  {
+    name: "cardnexus-inventory",
+    script: "src/scrapeInventory.ts",
+    fixtureDir: "data/fixtures/cardnexus",
+    args: ["--user", "fixture"],
+    project: (output) => {
+      const payload = output as {
+        user: string;
+        pagesVisited: number;
+        totalEntries: number;
+        totalCopies: number;
+        cards: InventoryCard[];
+        counts: Record<string, number>;
+      };
+      const { user, pagesVisited, totalEntries, totalCopies, cards, counts } = payload;
+      return { user, pagesVisited, totalEntries, totalCopies, cards, counts };
+    }
+  }
+];
+
+async function main() {
+  const only = parseCheckArgs(process.argv.slice(2));
+  const suites = only.length ? SUITES.filter((suite) => only.includes(suite.name)) : SUITES;
+  const unknown = only.filter((name) => !SUITES.some((suite) => suite.name === name));
+  if (unknown.length > 0) {
+    throw new Error(`Unknown suite(s): ${unknown.join(", ")}. Available: ${SUITES.map((suite) => suite.name).join(", ")}`);
+  }
+
+  const tmpDir = await fs.mkdtemp(path.join(os.tmpdir(), "riftbuilder-fixtures-"));
+  let failures = 0;
+
+  try {
+    for (const suite of suites) {
+      const problems = await runSuite(suite, tmpDir);
+      if (problems.length === 0) {
+        console.log(`✓ ${suite.name}`);
+        continue;
+      }
+
+      failures += 1;
+      console.log(`✗ ${suite.name}`);
+      problems.forEach((problem) => console.log(`  - ${problem}`));
+    }
+  } finally {
+    await fs.rm(tmpDir, { recursive: true, force: true });
+  }
+
+  console.log("");
+  console.log(`${suites.length - failures}/${suites.length} scraper suite(s) passed.`);
+  if (failures > 0) {
+    process.exitCode = 1;
+  }
+}
+
+async function runSuite(suite: ScraperSuite, tmpDir: string): Promise<string[]> {
+  const fixtureDir = path.resolve(process.cwd(), suite.fixtureDir);
+  const outputPath = path.join(tmpDir, `${suite.name}.json`);
+  const expected = JSON.parse(await fs.readFile(path.join(fixtureDir, suite.expected ?? "expected.json"), "utf8")) as unknown;
+
+  if (suite.seed) {
+    await fs.copyFile(path.join(fixtureDir, suite.seed), outputPath);
+  }
+
+  const run = await runCli(suite.script, ["--fixture", fixtureDir, "--out", outputPath, "--delay", "0", ...(suite.args ?? [])]);
+  if (run.code !== 0) {
+    return [`${suite.script} exited with ${run.code ?? "a timeout"}`, ...tail(run.output)];
+  }
+
+  const raw = await fs.readFile(outputPath, "utf8").catch(() => null);
+  if (raw == null) {
+    return [`${suite.script} did not write ${outputPath}`, ...tail(run.output)];
+  }
+
+  return diffValues(expected, suite.project(JSON.parse(raw)), "output");
+}
+
+/** Lists every path where `actual` differs from `expected`, including keys only one side has. */
+function diffValues(expected: unknown, actual: unknown, at: string): string[] {
+  if (Array.isArray(expected) && Array.isArray(actual)) {
+    const problems = expected.length === actual.length ? [] : [`${at}: expected ${expected.length} item(s), got ${actual.length}`];
+    return expected.reduce<string[]>(
+      (acc, item, index) => (index < actual.length ? [...acc, ...diffValues(item, actual[index], `${at}[${index}]`)] : acc),
+      problems
+    );
+  }
+
+  if (isRecord(expected) && isRecord(actual)) {
+    const keys = [...new Set([...Object.keys(expected), ...Object.keys(actual)])];
+    return keys.flatMap((key) => diffValues(expected[key], actual[key], `${at}.${key}`));
+  }
+
+  return JSON.stringify(expected) === JSON.stringify(actual)
+    ? []
+    : [`${at}: expected ${preview(expected)}, got ${preview(actual)}`];
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function runCli(script: string, args: string[]): Promise<{ code: number | null; output: string }> {
+  return new Promise((resolve, reject) => {
+    const child = spawn(process.execPath, ["--import", "tsx", script, ...args], { cwd: process.cwd() });
+    let output = "";
+    child.stdout.on("data", (chunk) => (output += chunk));
+    child.stderr.on("data", (chunk) => (output += chunk));
+
+    const timer = setTimeout(() => child.kill(), SUITE_TIMEOUT_MS);
+    child.on("error", (error) => {
+      clearTimeout(timer);
+      reject(error);
+    });
+    child.on("close", (code) => {
+      clearTimeout(timer);
+      resolve({ code, output });
+    });
+  });
+}
+
+function tail(output: string, lines = 8): string[] {
+  return output.trim().split("\n").slice(-lines).map((line) => `  ${line}`);
+}
+
+function preview(value: unknown): string {
+  const text = JSON.stringify(value) ?? "undefined";
+  return text.length > 80 ? `${text.slice(0, 77)}...` : text;
+}
+
+function parseCheckArgs(argv: string[]): string[] {
+  let only: string[] = [];
+
+  argv.forEach((arg, index) => {
+    if (arg === "--only" && argv[index + 1]) {
+      only = argv[index + 1]
+        .split(",")
+        .map((name) => name.trim())
+        .filter(Boolean);
+    }
+  });
+
+  return only;
+}
+
+main().catch((error) => {
+  console.error(error);
+  process.exit(1);
+});
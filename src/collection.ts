@@ -0,0 +1,311 @@
+import fs from "node:fs/promises";
+import path from "node:path";
+import {
+  addTransaction,
+  cardHistory,
+  deriveInventory,
+  findOverdrawnCards,
+  importTransaction,
+  parseCardCounts,
+  removeTransaction,
+  tradeTransaction,
+  undoneTransactionIds,
+  undoTransaction,
+  type CollectionTransaction
+} from "./lib/collection.js";
+import { appendTransactions, DEFAULT_COLLECTION_PATH, loadCollection } from "./lib/collectionStore.js";
+import { computeCollectionStats, type CollectionStats, type SetCompletion } from "./lib/collectionStats.js";
+import { reconcileInventory, type Inventory } from "./lib/comparison.js";
+import { loadPrices, loadReconciledInventory } from "./lib/dataFiles.js";
+import { formatUsd } from "./lib/prices.js";
+
+type CollectionCommand = "show" | "add" | "remove" | "trade" | "import" | "undo" | "log" | "report";
+
+type CollectionOptions = {
+  command: CollectionCommand;
+  /** Positional arguments after the command: card lines, an import path or a transaction id. */
+  args: string[];
+  filePath: string;
+  note?: string;
+  at: Date;
+  give: string[];
+  get: string[];
+  card?: string;
+  limit: number;
+  /** `report` only: an inventory file to report on instead of the collection log. */
+  inventoryPath?: string;
+  pricesPath?: string;
+  sets: string[];
+  jsonOutputPath?: string;
+};
+
+const COMMANDS: CollectionCommand[] = ["show", "add", "remove", "trade", "import", "undo", "log", "report"];
+const VALUE_FLAGS = ["--file", "--note", "--date", "--give", "--get", "--card", "--limit", "--inventory", "--prices", "--set", "--json"];
+
+async function main() {
+  const options = parseCollectionArgs(process.argv.slice(2));
+  if (options.command === "report") {
+    await report(options);
+    return;
+  }
+
+  const log = await loadCollection(options.filePath);
+  const inventory = deriveInventory(log.transactions);
+
+  if (options.command === "show" || options.command === "log") {
+    printLog(log.transactions, inventory, options);
+    return;
+  }
+
+  const transaction = await buildTransaction(options, log.transactions, inventory);
+  const next = await appendTransactions(options.filePath, [transaction]);
+  const after = deriveInventory(next.transactions);
+
+  console.log(`Recorded ${describeTransaction(transaction)}`);
+  console.log(`Collection: ${Object.keys(after).length} unique cards, ${countCopies(after)} copies (${options.filePath})`);
+}
+
+async function buildTransaction(
+  options: CollectionOptions,
+  transactions: CollectionTransaction[],
+  inventory: Inventory
+): Promise<CollectionTransaction> {
+  if (options.command === "undo") {
+    return undoTransaction(transactions, options.args[0], options.at);
+  }
+
+  if (options.command === "import") {
+    const [sourcePath] = options.args;
+    if (!sourcePath) {
+      throw new Error("Usage: npm run collection -- import <inventory.json> [--note <text>]");
+    }
+    const resolved = path.resolve(process.cwd(), sourcePath);
+    const { inventory: next, unmatched, printings } = reconcileInventory(JSON.parse(await fs.readFile(resolved, "utf8")));
+    if (unmatched.length) {
+      console.warn(`Not matched to a known card (kept as-is): ${unmatched.join(", ")}`);
+    }
+    return importTransaction(inventory, next, options.note ?? `Import ${path.basename(resolved)}`, options.at, printings);
+  }
+
+  if (options.command === "trade") {
+    const given = parseCardCounts(options.give);
+    const received = parseCardCounts(options.get);
+    if (Object.keys(given).length === 0 && Object.keys(received).length === 0) {
+      throw new Error('Usage: npm run collection -- trade --give "2 Card" --get "1 Other Card" [--note <text>]');
+    }
+    assertOwned(inventory, given);
+    return tradeTransaction(given, received, options.note, options.at);
+  }
+
+  const cards = parseCardCounts(options.args);
+  if (Object.keys(cards).length === 0) {
+    throw new Error(`Usage: npm run collection -- ${options.command} "3 Card Name" ["1 Other Card" ...] [--note <text>]`);
+  }
+  if (options.command === "remove") {
+    assertOwned(inventory, cards);
+    return removeTransaction(cards, options.note, options.at);
+  }
+  return addTransaction(cards, options.note, options.at);
+}
+
+function assertOwned(inventory: Inventory, cards: Inventory) {
+  const overdrawn = Object.entries(findOverdrawnCards(inventory, cards));
+  if (overdrawn.length > 0) {
+    const details = overdrawn.map(([name, extra]) => `${name} (${extra} more than owned)`).join(", ");
+    throw new Error(`Cannot remove cards the collection does not hold: ${details}`);
+  }
+}
+
+function printLog(transactions: CollectionTransaction[], inventory: Inventory, options: CollectionOptions) {
+  console.log("=== Collection ===");
+  console.log(`File: ${options.filePath}`);
+  console.log(`Cards: ${Object.keys(inventory).length} unique, ${countCopies(inventory)} copies from ${transactions.length} transaction(s)`);
+
+  if (options.card) {
+    const history = cardHistory(transactions, options.card);
+    console.log("");
+    console.log(`History of ${options.card}`);
+    if (history.length === 0) {
+      console.log("  (no transactions)");
+    }
+    history.forEach((entry) => {
+      const change = `${entry.count > 0 ? "+" : ""}${entry.count}`;
+      console.log(`  ${formatDate(entry.at)}  ${change.padStart(3)}  ${entry.kind}${entry.note ? ` · ${entry.note}` : ""}${entry.undone ? " (undone)" : ""}`);
+    });
+    return;
+  }
+
+  const undone = undoneTransactionIds(transactions);
+  const recent = transactions.slice(-options.limit).reverse();
+  console.log("");
+  console.log(`Latest transactions (${recent.length} of ${transactions.length})`);
+  if (recent.length === 0) {
+    console.log('  (empty) Record one with: npm run collection -- add "3 Card Name"');
+  }
+  recent.forEach((transaction) => {
+    console.log(`  ${formatDate(transaction.at)}  ${describeTransaction(transaction)}${undone.has(transaction.id) ? " (undone)" : ""}`);
+    console.log(`    id ${transaction.id}`);
+  });
+}
+
+async function report(options: CollectionOptions) {
+  const inventory = options.inventoryPath
+    ? (await loadReconciledInventory(options.inventoryPath)).inventory
+    : deriveInventory((await loadCollection(options.filePath)).transactions);
+  const prices = await loadPrices(options.inventoryPath, options.pricesPath);
+  const stats = computeCollectionStats(inventory, prices);
+  const sets = options.sets.length ? stats.sets.filter((entry) => options.sets.includes(entry.set)) : stats.sets;
+
+  console.log("=== Collection Report ===");
+  console.log(`Source: ${options.inventoryPath ?? options.filePath}`);
+  console.log(`Cards: ${stats.uniqueCards} unique, ${stats.copies} copies`);
+  console.log(
+    `Value: ${formatUsd(stats.valueUsd)} (${stats.pricedCopies} priced copies${stats.unpricedCopies ? `, ${stats.unpricedCopies} without a price` : ""})`
+  );
+  if (stats.pricedCopies === 0) {
+    console.log("  (no prices: pass --prices with a price file or an npm run inventory result)");
+  }
+  stats.mostValuable.slice(0, 5).forEach((entry) => {
+    console.log(`  ${entry.count}× ${entry.name} @ ${formatUsd(entry.priceUsd)} = ${formatUsd(entry.valueUsd)}`);
+  });
+
+  sets.forEach((entry) => printSetCompletion(entry));
+
+  if (options.jsonOutputPath) {
+    const payload: CollectionStats = { ...stats, sets };
+    await fs.mkdir(path.dirname(options.jsonOutputPath), { recursive: true });
+    await fs.writeFile(options.jsonOutputPath, JSON.stringify(payload, null, 2), "utf8");
+    console.log("");
+    console.log(`Saved collection report JSON to ${options.jsonOutputPath}`);
+  }
+}
+
+function printSetCompletion(entry: SetCompletion) {
+  console.log("");
+  console.log(entry.setName === entry.set ? entry.set : `${entry.setName} (${entry.set})`);
+  console.log(`  Owned:    ${entry.owned}/${entry.total} cards (${entry.ownedPercent}%)`);
+  console.log(`  Playsets: ${entry.playsets}/${entry.total} cards (${entry.playsetPercent}%)`);
+  entry.byRarity.forEach((rarity) => {
+    console.log(`    ${rarity.rarity.padEnd(9)} ${rarity.owned}/${rarity.total} owned, ${rarity.playsets}/${rarity.total} playsets`);
+  });
+
+  if (entry.needed.length === 0) {
+    console.log("  Every playset is complete.");
+    return;
+  }
+  const unpriced = entry.unpricedMissingCopies ? `, ${entry.unpricedMissingCopies} unpriced` : "";
+  console.log(`  Needed for playsets: ${entry.missingCopies} copies, ${formatUsd(entry.completionCostUsd)}${unpriced}`);
+  const width = Math.max(...entry.needed.map((card) => card.name.length));
+  entry.needed.forEach((card) => {
+    const cost = card.costUsd == null ? "no price" : formatUsd(card.costUsd);
+    console.log(`    ${card.publicCode.split("/")[0].padEnd(9)} ${card.name.padEnd(width)}  ${card.owned}/${card.playset}  need ${card.missing}  ${cost}`);
+  });
+}
+
+function describeTransaction(transaction: CollectionTransaction): string {
+  if (transaction.kind === "undo") {
+    return `${transaction.note ?? "undo"} (${transaction.undoes})`;
+  }
+  const preview = transaction.cards
+    .slice(0, 6)
+    .map((card) => `${card.count > 0 ? "+" : ""}${card.count} ${card.name}`)
+    .join(", ");
+  const more = transaction.cards.length > 6 ? ` and ${transaction.cards.length - 6} more` : "";
+  return `${transaction.kind}: ${preview || "no changes"}${more}${transaction.note ? ` · ${transaction.note}` : ""}`;
+}
+
+function countCopies(inventory: Inventory): number {
+  return Object.values(inventory).reduce((sum, count) => sum + count, 0);
+}
+
+function formatDate(value: string): string {
+  return value.slice(0, 16).replace("T", " ");
+}
+
+function parseCollectionArgs(argv: string[]): CollectionOptions {
+  let command: CollectionCommand = "show";
+  const args: string[] = [];
+  let filePath = path.resolve(process.cwd(), DEFAULT_COLLECTION_PATH);
+  let note: string | undefined;
+  let at = new Date();
+  const give: string[] = [];
+  const get: string[] = [];
+  let card: string | undefined;
+  let limit = 10;
+  let inventoryPath: string | undefined;
+  let pricesPath: string | undefined;
+  const sets: string[] = [];
+  let jsonOutputPath: string | undefined;
+
+  argv.forEach((arg, index) => {
+    if (!arg.startsWith("--") && !VALUE_FLAGS.includes(argv[index - 1])) {
+      if (index === 0 && COMMANDS.includes(arg as CollectionCommand)) {
+        command = arg as CollectionCommand;
+      } else {
+        args.push(arg);
+      }
+    }
+
+    if (arg === "--file" && argv[index + 1]) {
+      filePath = path.resolve(process.cwd(), argv[index + 1]);
+    }
+
+    if (arg === "--note" && argv[index + 1]) {
+      note = argv[index + 1];
+    }
+
+    if (arg === "--date" && argv[index + 1]) {
+      const parsed = new Date(argv[index + 1]);
+      if (Number.isNaN(parsed.getTime())) {
+        throw new Error(`Invalid --date ${argv[index + 1]}. Use YYYY-MM-DD or an ISO timestamp.`);
+      }
+      at = parsed;
+    }
+
+    if (arg === "--give" && argv[index + 1]) {
+      give.push(argv[index + 1]);
+    }
+
+    if (arg === "--get" && argv[index + 1]) {
+      get.push(argv[index + 1]);
+    }
+
+    if (arg === "--card" && argv[index + 1]) {
+      card = argv[index + 1];
+    }
+
+    if (arg === "--limit" && argv[index + 1]) {
+      const parsed = Number(argv[index + 1]);
+      if (!Number.isNaN(parsed)) {
+        limit = Math.max(1, Math.floor(parsed));
+      }
+    }
+
+    if (arg === "--inventory" && argv[index + 1]) {
+      inventoryPath = path.resolve(process.cwd(), argv[index + 1]);
+    }
+
+    if (arg === "--prices" && argv[index + 1]) {
+      pricesPath = path.resolve(process.cwd(), argv[index + 1]);
+    }
+
+    if (arg === "--set" && argv[index + 1]) {
+      sets.push(...argv[index + 1].split(",").map((code) => code.trim().toUpperCase()).filter(Boolean));
+    }
+
+    if (arg === "--json" && argv[index + 1]) {
+      jsonOutputPath = path.resolve(process.cwd(), argv[index + 1]);
+    }
+  });
+
+  if (argv[0] && !argv[0].startsWith("--") && !COMMANDS.includes(argv[0] as CollectionCommand)) {
+    throw new Error(`Unknown command ${argv[0]}. Use one of: ${COMMANDS.join(", ")}.`);
+  }
+
+  return { command, args, filePath, note, at, give, get, card, limit, inventoryPath, pricesPath, sets, jsonOutputPath };
+}
+
+main().catch((error) => {
+  console.error(error);
+  process.exit(1);
+});
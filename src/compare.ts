@@ -1,28 +1,45 @@
 import fs from "node:fs/promises";
 import path from "node:path";
-import { parseExportedDeck, type DeckExport } from "./lib/deckParser.js";
+import { planBuilds, type BuildPlan } from "./lib/buildPlanner.js";
+import { findCard } from "./lib/cardDb.js";
+import { loadDeckFile, loadPrices, loadReconciledInventory } from "./lib/dataFiles.js";
+import { formatParseIssue, type DeckExport } from "./lib/deckParser.js";
+import { computeDeckStats } from "./lib/deckStats.js";
 import {
+  collectDeckRequirements,
   compareDecks,
-  normalizeInventory,
+  DECK_BUCKET_LABELS,
+  DECK_BUCKET_ORDER,
   type ComparisonStatus,
+  type DeckBucket,
   type DeckComparison,
   type Inventory
 } from "./lib/comparison.js";
+import { formatUsd } from "./lib/prices.js";
+import { formatPrintingRequirement, hasPrintingDetails } from "./lib/printings.js";
 import type { PersistedDeck } from "./lib/types.js";
+import { validateDeck } from "./lib/validateDeck.js";
 
 type CompareOptions = {
   decksPath: string;
   inventoryPath: string;
-  maxMissing: number;
+  maxMissing?: number;
+  maxCostUsd?: number;
+  pricesPath?: string;
   jsonOutputPath?: string;
+  /** Build planner mode; an empty list plans across every loaded deck. */
+  planSlugs?: string[];
+  /** Fail on any deck parse error or warning instead of reporting it. */
+  strict: boolean;
 };
 
 async function main() {
   const options = parseCompareArgs(process.argv.slice(2));
 
-  const [inventory, decks] = await Promise.all([
-    loadInventory(options.inventoryPath),
-    loadDecks(options.decksPath)
+  const [{ inventory, printings, unmatched }, { decks, issues }, prices] = await Promise.all([
+    loadReconciledInventory(options.inventoryPath),
+    loadDeckFile(options.decksPath, { strict: options.strict }),
+    loadPrices(options.inventoryPath, options.pricesPath)
   ]);
 
   if (decks.length === 0) {
@@ -30,44 +47,65 @@ async function main() {
     return;
   }
 
-  const results = compareDecks(decks, inventory, options.maxMissing);
-
-  if (options.jsonOutputPath) {
-    await fs.mkdir(path.dirname(options.jsonOutputPath), { recursive: true });
-    await fs.writeFile(options.jsonOutputPath, JSON.stringify(results, null, 2), "utf8");
-    console.log(`Comparison breakdown saved to ${options.jsonOutputPath}`);
+  if (unmatched.length > 0) {
+    console.warn(
+      `${unmatched.length} inventory entr${unmatched.length === 1 ? "y does" : "ies do"} not match any known card: ${unmatched.join(", ")}`
+    );
   }
 
-  printReport(results, options, inventory);
-}
+  if (issues.length > 0) {
+    console.warn(`Deck parse issues (${issues.length}; pass --strict to fail on them):`);
+    issues.forEach((issue) => console.warn(`  ${issue.severity === "error" ? "✖" : "⚠"} ${issue.deck}: ${formatParseIssue(issue)}`));
+  }
 
-async function loadDecks(filePath: string): Promise<Array<PersistedDeck & { parsed: DeckExport }>> {
-  const raw = await fs.readFile(filePath, "utf8");
-  const data = JSON.parse(raw);
-  if (!Array.isArray(data)) {
-    throw new Error(`Deck file ${filePath} must contain an array.`);
+  const unknownCards = collectUnknownCards(decks);
+  if (unknownCards.length > 0) {
+    console.warn(`Card database has no entry for ${unknownCards.length} card(s): ${unknownCards.join(", ")}`);
   }
 
-  return data.map((entry) => {
-    if (!entry || typeof entry !== "object") {
-      throw new Error("Encountered malformed deck entry.");
+  if (options.planSlugs) {
+    const selected = selectPlanDecks(decks, options.planSlugs);
+    const plan = planBuilds(selected, inventory, hasPrintingDetails(printings) ? printings : undefined);
+
+    if (options.jsonOutputPath) {
+      await fs.mkdir(path.dirname(options.jsonOutputPath), { recursive: true });
+      await fs.writeFile(options.jsonOutputPath, JSON.stringify(plan, null, 2), "utf8");
+      console.log(`Build plan saved to ${options.jsonOutputPath}`);
     }
 
-    const parsed = entry.parsed ?? parseExportedDeck(entry.exportText);
-    return { ...(entry as PersistedDeck), parsed };
-  });
-}
+    printPlan(plan, options);
+    return;
+  }
 
-async function loadInventory(filePath: string): Promise<Inventory> {
-  const raw = await fs.readFile(filePath, "utf8");
-  const data = JSON.parse(raw);
-  const inventory = normalizeInventory(data);
+  const hasPrices = Object.keys(prices).length > 0 || options.maxCostUsd != null;
+  const results = compareDecks(
+    decks,
+    inventory,
+    { maxMissing: options.maxMissing, maxCostUsd: options.maxCostUsd },
+    hasPrices ? prices : undefined,
+    hasPrintingDetails(printings) ? printings : undefined
+  );
 
-  if (Object.keys(inventory).length === 0) {
-    throw new Error(`Inventory file ${filePath} does not contain any card counts.`);
+  if (options.jsonOutputPath) {
+    await fs.mkdir(path.dirname(options.jsonOutputPath), { recursive: true });
+    const withStats = results.map((result) => ({ ...result, stats: computeDeckStats(result.deck.parsed) }));
+    await fs.writeFile(options.jsonOutputPath, JSON.stringify(withStats, null, 2), "utf8");
+    console.log(`Comparison breakdown saved to ${options.jsonOutputPath}`);
   }
 
-  return inventory;
+  printReport(results, options, inventory);
+}
+
+function collectUnknownCards(decks: Array<PersistedDeck & { parsed: DeckExport }>): string[] {
+  const unknown = new Set<string>();
+  decks.forEach((deck) => {
+    collectDeckRequirements(deck.parsed).forEach((card) => {
+      if (!findCard(card.name)) {
+        unknown.add(card.name);
+      }
+    });
+  });
+  return [...unknown].sort((a, b) => a.localeCompare(b));
 }
 
 function printReport(results: DeckComparison[], options: CompareOptions, inventory: Inventory) {
@@ -80,19 +118,39 @@ function printReport(results: DeckComparison[], options: CompareOptions, invento
   console.log("=== Deck Comparison Report ===");
   console.log(`Deck source: ${options.decksPath} (${results.length} deck(s))`);
   console.log(`Inventory: ${options.inventoryPath} (${Object.keys(inventory).length} tracked card(s))`);
-  console.log(`Near-miss threshold: <= ${options.maxMissing} missing copy/copies total.`);
+  console.log(`Near-miss threshold: ${describeThreshold(options)}.`);
   console.log("");
 
   results.forEach((result) => {
     summary[result.status] += 1;
     const statusLabel = result.status.toUpperCase();
-    const missingLabel = result.totalMissing === 0 ? "complete" : `${result.totalMissing} missing`;
+    const costLabel =
+      result.missingCostUsd == null || result.totalMissing === 0
+        ? ""
+        : ` · ${formatUsd(result.missingCostUsd)}${result.unpricedMissing ? ` + ${result.unpricedMissing} unpriced` : ""}`;
+    const missingLabel = result.totalMissing === 0 ? "complete" : `${result.totalMissing} missing${costLabel}`;
     console.log(`- ${result.deck.label} [${statusLabel}] — ${missingLabel}`);
+    console.log(`    ${describeLeaders(result.deck.parsed)}`);
+    const legality = validateDeck(result.deck.parsed);
+    if (!legality.legal) {
+      console.log(`    ⚠ Not tournament legal: ${legality.violations.map((violation) => violation.message).join(" ")}`);
+    }
 
     if (result.missingCards.length > 0) {
       const preview = result.missingCards.slice(0, 8);
-      preview.forEach((card) => {
-        console.log(`    • ${card.name}: need ${card.missing} more (have ${card.owned}/${card.required})`);
+      DECK_BUCKET_ORDER.forEach((bucket) => {
+        const cards = preview.filter((card) => card.bucket === bucket);
+        if (cards.length === 0) {
+          return;
+        }
+        console.log(`    ${DECK_BUCKET_LABELS[bucket]}:`);
+        cards.forEach((card) => {
+          const printing = card.printing ? ` ${formatPrintingRequirement(card.printing)}` : "";
+          console.log(`      • ${card.displayName}${printing}: need ${card.missing} more (have ${card.owned}/${card.required})`);
+          if (card.printing && card.ownedPrintings?.length) {
+            console.log(`        you own: ${card.ownedPrintings.map((owned) => `${owned.count}× ${owned.label}`).join("; ")}`);
+          }
+        });
       });
       if (result.missingCards.length > preview.length) {
         console.log(`    • …and ${result.missingCards.length - preview.length} more card(s)`);
@@ -106,17 +164,87 @@ function printReport(results: DeckComparison[], options: CompareOptions, invento
 
   console.log("Summary:");
   console.log(`  Buildable: ${summary.buildable}`);
-  console.log(`  Close (<=${options.maxMissing} missing): ${summary.close}`);
+  console.log(`  Close (${describeThreshold(options)}): ${summary.close}`);
   console.log(`  Unbuildable: ${summary.unbuildable}`);
 }
 
+function selectPlanDecks<TDeck extends PersistedDeck>(decks: TDeck[], slugs: string[]): TDeck[] {
+  if (slugs.length === 0) {
+    return decks;
+  }
+
+  return slugs.map((slug) => {
+    const deck = decks.find((entry) => entry.slug === slug);
+    if (!deck) {
+      throw new Error(`Deck ${slug} is not in the deck file.`);
+    }
+    return deck;
+  });
+}
+
+function printPlan(plan: BuildPlan, options: CompareOptions) {
+  console.log("=== Build Plan ===");
+  console.log(`Deck source: ${options.decksPath} (${plan.decks.length} deck(s) planned)`);
+  console.log(`Inventory: ${options.inventoryPath}`);
+  console.log("");
+
+  console.log("Allocation in priority order:");
+  plan.decks.forEach((deck) => {
+    const label = deck.allocated ? "BUILT" : `SHORT ${deck.missing}`;
+    console.log(`  - ${deck.label} [${label}]`);
+  });
+  console.log("");
+
+  const labels = new Map(plan.decks.map((deck) => [deck.slug, deck.label]));
+  if (plan.largestSet.length > 0) {
+    console.log(`Largest set buildable together (${plan.largestSet.length} deck(s)):`);
+    plan.largestSet.forEach((slug) => console.log(`  - ${labels.get(slug) ?? slug}`));
+  } else {
+    console.log("No deck can be built from the inventory on its own.");
+  }
+  console.log("");
+
+  if (plan.shortfall.length === 0) {
+    console.log("Combined shortfall: none — every planned deck can be built at the same time.");
+    return;
+  }
+
+  console.log(`Combined shortfall to build all planned decks: ${plan.totalShortfall} copy/copies`);
+  plan.shortfall.forEach((card) => {
+    const name = card.printing ? `${card.name} ${formatPrintingRequirement(card.printing)}` : card.name;
+    console.log(`  • ${name}: need ${card.missing} more (have ${card.owned}/${card.required}, used by ${card.decks.length} deck(s))`);
+  });
+}
+
+function describeThreshold(options: CompareOptions): string {
+  const limits = [
+    options.maxMissing != null ? `<= ${options.maxMissing} missing copy/copies` : null,
+    options.maxCostUsd != null ? `<= ${formatUsd(options.maxCostUsd)} to complete` : null
+  ].filter(Boolean);
+  return limits.join(" and ");
+}
+
+function describeLeaders(deck: DeckExport): string {
+  const legend = deck.legend.map((card) => card.name).join(", ") || "none detected";
+  const champion = deck.champion.map((card) => card.name).join(", ") || "none detected";
+  return `Legend: ${legend} · Chosen champion: ${champion}`;
+}
+
 function parseCompareArgs(argv: string[]): CompareOptions {
   let decksPath = path.resolve(process.cwd(), "data/most-viewed.json");
   let inventoryPath = path.resolve(process.cwd(), "data/sample-inventory.json");
-  let maxMissing = 4;
+  let maxMissing: number | undefined;
+  let maxCostUsd: number | undefined;
+  let pricesPath: string | undefined;
   let jsonOutputPath: string | undefined;
+  let planSlugs: string[] | undefined;
+  let strict = false;
 
   argv.forEach((arg, index) => {
+    if (arg === "--strict") {
+      strict = true;
+    }
+
     if (arg === "--decks" && argv[index + 1]) {
       decksPath = path.resolve(process.cwd(), argv[index + 1]);
     }
@@ -132,12 +260,39 @@ function parseCompareArgs(argv: string[]): CompareOptions {
       }
     }
 
+    if (arg === "--max-cost" && argv[index + 1]) {
+      const parsed = Number(argv[index + 1]);
+      if (!Number.isNaN(parsed)) {
+        maxCostUsd = Math.max(0, parsed);
+      }
+    }
+
+    if (arg === "--prices" && argv[index + 1]) {
+      pricesPath = path.resolve(process.cwd(), argv[index + 1]);
+    }
+
     if (arg === "--json" && argv[index + 1]) {
       jsonOutputPath = path.resolve(process.cwd(), argv[index + 1]);
     }
+
+    if (arg === "--plan") {
+      const next = argv[index + 1];
+      planSlugs =
+        next && !next.startsWith("--")
+          ? next
+              .split(",")
+              .map((slug) => slug.trim())
+              .filter(Boolean)
+          : [];
+    }
   });
 
-  return { decksPath, inventoryPath, maxMissing, jsonOutputPath };
+  // Copies stay the default threshold; a cost limit alone switches to dollars only.
+  if (maxMissing == null && maxCostUsd == null) {
+    maxMissing = 4;
+  }
+
+  return { decksPath, inventoryPath, maxMissing, maxCostUsd, pricesPath, jsonOutputPath, planSlugs, strict };
 }
 
 main().catch((error) => {
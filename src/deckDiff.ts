@@ -0,0 +1,161 @@
+import fs from "node:fs/promises";
+import path from "node:path";
+import { DECK_BUCKET_LABELS } from "./lib/comparison.js";
+import { loadDecks, loadInventory, loadPrices } from "./lib/dataFiles.js";
+import { diffDeckHistory, type CardChange, type DeckVersionDiff, type DeckVersionRef } from "./lib/deckDiff.js";
+
+type DeckDiffOptions = {
+  slug?: string;
+  decksPath: string;
+  inventoryPath?: string;
+  pricesPath?: string;
+  maxMissing?: number;
+  maxCostUsd?: number;
+  jsonOutputPath?: string;
+};
+
+const VALUE_FLAGS = ["--decks", "--inventory", "--prices", "--max-missing", "--max-cost", "--json"];
+
+async function main() {
+  const options = parseDeckDiffArgs(process.argv.slice(2));
+  const decks = await loadDecks(options.decksPath);
+
+  if (!options.slug) {
+    const tracked = decks.filter((deck) => deck.versions?.length);
+    console.log("Usage: npm run deck-diff -- <slug> [--inventory <path>] [--json <path>]");
+    console.log(
+      tracked.length
+        ? `Decks with recorded changes: ${tracked.map((deck) => `${deck.slug} (${deck.versions?.length})`).join(", ")}`
+        : `No deck in ${options.decksPath} has changed between scrapes yet.`
+    );
+    process.exitCode = 1;
+    return;
+  }
+
+  const deck = decks.find((entry) => entry.slug === options.slug);
+  if (!deck) {
+    throw new Error(`Unknown deck slug ${options.slug}.`);
+  }
+
+  const [inventory, prices] = options.inventoryPath
+    ? await Promise.all([loadInventory(options.inventoryPath), loadPrices(options.inventoryPath, options.pricesPath)])
+    : [undefined, undefined];
+  const thresholds = {
+    maxMissing: options.maxMissing ?? (options.maxCostUsd == null ? 4 : undefined),
+    maxCostUsd: options.maxCostUsd
+  };
+  const history = diffDeckHistory(deck, { inventory, thresholds, prices });
+
+  console.log(`=== Deck Diff: ${deck.label} (${deck.slug}) ===`);
+  console.log(`Versions: ${history.length + 1}${deck.changedAt ? ` · current since ${formatDate(deck.changedAt)}` : ""}`);
+  if (!inventory) {
+    console.log("Pass --inventory to see how each change moved the deck's status.");
+  }
+
+  if (history.length === 0) {
+    console.log("");
+    console.log("No earlier versions recorded. The scraper keeps one each time the deck's export changes.");
+  }
+
+  history.forEach((entry) => {
+    console.log("");
+    printVersionDiff(entry);
+  });
+
+  if (options.jsonOutputPath) {
+    await fs.mkdir(path.dirname(options.jsonOutputPath), { recursive: true });
+    await fs.writeFile(
+      options.jsonOutputPath,
+      JSON.stringify({ slug: deck.slug, label: deck.label, changes: history }, null, 2),
+      "utf8"
+    );
+    console.log("");
+    console.log(`Saved diff JSON to ${options.jsonOutputPath}`);
+  }
+}
+
+function printVersionDiff(entry: DeckVersionDiff) {
+  console.log(`Version ${entry.from.number} → ${entry.to.number} (${describeRange(entry.from, entry.to)})`);
+
+  if (entry.diff.buckets.length === 0) {
+    console.log("  Same cards; only the export formatting changed.");
+  }
+
+  entry.diff.buckets.forEach((bucket) => {
+    const changes = [...bucket.added.map((change) => formatChange(change, "+")), ...bucket.removed.map((change) => formatChange(change, "-"))];
+    console.log(`  ${DECK_BUCKET_LABELS[bucket.bucket]}: ${changes.join(", ")}`);
+  });
+
+  if (entry.statusBefore && entry.statusAfter) {
+    console.log(
+      entry.statusBefore === entry.statusAfter
+        ? `  Status: ${entry.statusAfter} (unchanged)`
+        : `  Status: ${entry.statusBefore} → ${entry.statusAfter}`
+    );
+  }
+}
+
+function formatChange(change: CardChange, sign: "+" | "-"): string {
+  return `${sign}${Math.abs(change.after - change.before)} ${change.name} (${change.before} → ${change.after})`;
+}
+
+function describeRange(from: DeckVersionRef, to: DeckVersionRef): string {
+  return `${from.since ? formatDate(from.since) : "unknown"} → ${to.since ? formatDate(to.since) : "unknown"}`;
+}
+
+function formatDate(value: string): string {
+  return value.slice(0, 10);
+}
+
+function parseDeckDiffArgs(argv: string[]): DeckDiffOptions {
+  let slug: string | undefined;
+  let decksPath = path.resolve(process.cwd(), "data/most-viewed.json");
+  let inventoryPath: string | undefined;
+  let pricesPath: string | undefined;
+  let maxMissing: number | undefined;
+  let maxCostUsd: number | undefined;
+  let jsonOutputPath: string | undefined;
+
+  argv.forEach((arg, index) => {
+    if (!arg.startsWith("--") && !VALUE_FLAGS.includes(argv[index - 1])) {
+      slug = arg;
+    }
+
+    if (arg === "--decks" && argv[index + 1]) {
+      decksPath = path.resolve(process.cwd(), argv[index + 1]);
+    }
+
+    if (arg === "--inventory" && argv[index + 1]) {
+      inventoryPath = path.resolve(process.cwd(), argv[index + 1]);
+    }
+
+    if (arg === "--prices" && argv[index + 1]) {
+      pricesPath = path.resolve(process.cwd(), argv[index + 1]);
+    }
+
+    if (arg === "--max-missing" && argv[index + 1]) {
+      const parsed = Number(argv[index + 1]);
+      if (!Number.isNaN(parsed)) {
+        maxMissing = Math.max(0, Math.floor(parsed));
+      }
+    }
+
+    if (arg === "--max-cost" && argv[index + 1]) {
+      const parsed = Number(argv[index + 1]);
+      if (!Number.isNaN(parsed)) {
+        maxCostUsd = Math.max(0, parsed);
+      }
+    }
+
+    if (arg === "--json" && argv[index + 1]) {
+      jsonOutputPath = path.resolve(process.cwd(), argv[index + 1]);
+    }
+  });
+
+  return { slug, decksPath, inventoryPath, pricesPath, maxMissing, maxCostUsd, jsonOutputPath };
+}
+
+main().catch((error) => {
+  console.error(error);
+  process.exit(1);
+});
@@ -0,0 +1,153 @@
+import fs from "node:fs/promises";
+import path from "node:path";
+import { loadDecks } from "./lib/dataFiles.js";
+import { buildLibrary, drawOdds, parseDrawQuery, sampleHand, seededRandom, type DrawOdds, type SampleHand } from "./lib/drawOdds.js";
+
+type DrawOddsOptions = {
+  slug?: string;
+  decksPath: string;
+  queries: string[];
+  atLeast: number;
+  turns: number;
+  trials: number;
+  hands: number;
+  seed?: number;
+  jsonOutputPath?: string;
+};
+
+const VALUE_FLAGS = ["--deck", "--decks", "--at-least", "--turns", "--trials", "--hands", "--seed", "--json"];
+
+async function main() {
+  const options = parseDrawOddsArgs(process.argv.slice(2));
+  const decks = await loadDecks(options.decksPath);
+
+  const deck = options.slug ? decks.find((entry) => entry.slug === options.slug) : decks.length === 1 ? decks[0] : undefined;
+  if (!deck) {
+    console.log(
+      options.slug
+        ? `Unknown deck slug ${options.slug}.`
+        : 'Usage: npm run draw-odds -- --deck <slug> ["type:unit energy:2" ...] [--at-least 1] [--turns 5] [--hands 3]'
+    );
+    console.log(`Decks in ${options.decksPath}: ${decks.map((entry) => entry.slug).join(", ") || "(none)"}`);
+    process.exitCode = 1;
+    return;
+  }
+
+  const random = options.seed == null ? Math.random : seededRandom(options.seed);
+  const odds = options.queries.map((query) =>
+    drawOdds(deck.parsed, parseDrawQuery(query, deck.parsed), { atLeast: options.atLeast, turns: options.turns, trials: options.trials, random })
+  );
+  // Sample hands mulligan towards the first target, if any.
+  const handQuery = options.queries[0] ? parseDrawQuery(options.queries[0], deck.parsed) : undefined;
+  const hands = Array.from({ length: options.hands }, () => sampleHand(deck.parsed, { turns: options.turns, query: handQuery, random }));
+
+  if (options.jsonOutputPath) {
+    await fs.mkdir(path.dirname(options.jsonOutputPath), { recursive: true });
+    await fs.writeFile(options.jsonOutputPath, JSON.stringify({ slug: deck.slug, label: deck.label, odds, hands }, null, 2), "utf8");
+    console.log(`Draw odds saved to ${options.jsonOutputPath}`);
+  }
+
+  console.log("=== Draw Odds ===");
+  console.log(`Deck: ${deck.label} (${buildLibrary(deck.parsed).length} cards in the main deck)`);
+  if (options.queries.length === 0) {
+    console.log('Pass one or more targets, e.g. "champion" or "type:unit energy:2", to see the odds of drawing them.');
+  }
+  odds.forEach(printOdds);
+
+  hands.forEach((hand, index) => printHand(hand, index + 1));
+}
+
+function printOdds(odds: DrawOdds) {
+  console.log("");
+  console.log(`${odds.query}: at least ${odds.atLeast} of ${odds.hits} matching card(s) in ${odds.librarySize}`);
+  if (odds.note) {
+    console.log(`  ${odds.note}`);
+  }
+  console.log("  Turn   Seen   No mulligan   With mulligan");
+  odds.rows.forEach((row) => {
+    const label = row.turn === 0 ? "Hand" : String(row.turn);
+    console.log(
+      `  ${label.padEnd(5)}  ${String(row.cardsSeen).padStart(4)}   ${formatPercent(row.probability).padStart(11)}   ${formatPercent(row.withMulligan).padStart(13)}`
+    );
+  });
+}
+
+function printHand(hand: SampleHand, index: number) {
+  console.log("");
+  console.log(`Sample hand ${index}`);
+  console.log(`  Opening: ${hand.opening.join(", ")}`);
+  if (hand.setAside.length) {
+    console.log(`  Set aside: ${hand.setAside.join(", ")}`);
+    console.log(`  Kept: ${hand.hand.join(", ")}`);
+  }
+  hand.draws.forEach((card, turn) => console.log(`  Turn ${turn + 1}: ${card}`));
+}
+
+function formatPercent(value: number): string {
+  return `${(value * 100).toFixed(1)}%`;
+}
+
+function parseDrawOddsArgs(argv: string[]): DrawOddsOptions {
+  let slug: string | undefined;
+  let decksPath = path.resolve(process.cwd(), "data/most-viewed.json");
+  const queries: string[] = [];
+  let atLeast = 1;
+  let turns = 5;
+  let trials = 10000;
+  let hands = 3;
+  let seed: number | undefined;
+  let jsonOutputPath: string | undefined;
+
+  const readCount = (value: string, flag: string, min: number) => {
+    const parsed = Number(value);
+    if (!Number.isInteger(parsed) || parsed < min) {
+      throw new Error(`${flag} needs a whole number of at least ${min}.`);
+    }
+    return parsed;
+  };
+
+  argv.forEach((arg, index) => {
+    if (!arg.startsWith("--") && !VALUE_FLAGS.includes(argv[index - 1])) {
+      queries.push(arg);
+    }
+
+    if (arg === "--deck" && argv[index + 1]) {
+      slug = argv[index + 1];
+    }
+
+    if (arg === "--decks" && argv[index + 1]) {
+      decksPath = path.resolve(process.cwd(), argv[index + 1]);
+    }
+
+    if (arg === "--at-least" && argv[index + 1]) {
+      atLeast = readCount(argv[index + 1], arg, 1);
+    }
+
+    if (arg === "--turns" && argv[index + 1]) {
+      turns = readCount(argv[index + 1], arg, 0);
+    }
+
+    if (arg === "--trials" && argv[index + 1]) {
+      trials = readCount(argv[index + 1], arg, 1);
+    }
+
+    if (arg === "--hands" && argv[index + 1]) {
+      hands = readCount(argv[index + 1], arg, 0);
+    }
+
+    if (arg === "--seed" && argv[index + 1]) {
+      seed = readCount(argv[index + 1], arg, 0);
+    }
+
+    if (arg === "--json" && argv[index + 1]) {
+      jsonOutputPath = path.resolve(process.cwd(), argv[index + 1]);
+    }
+  });
+
+  return { slug, decksPath, queries, atLeast, turns, trials, hands, seed, jsonOutputPath };
+}
+
+main().catch((error) => {
+  console.error(error);
+  process.exit(1);
+});
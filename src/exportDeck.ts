@@ -0,0 +1,95 @@
+import fs from "node:fs/promises";
+import path from "node:path";
+import { loadDecks } from "./lib/dataFiles.js";
+import { DECK_EXPORT_FORMATS, exportDeck, type DeckExportFormat } from "./lib/deckExport.js";
+
+type ExportDeckOptions = {
+  slug?: string;
+  decksPath: string;
+  format: DeckExportFormat;
+  outputPath?: string;
+  player?: string;
+  event?: string;
+  date?: string;
+};
+
+const VALUE_FLAGS = ["--decks", "--format", "--out", "--player", "--event", "--date"];
+
+async function main() {
+  const options = parseExportDeckArgs(process.argv.slice(2));
+  const decks = await loadDecks(options.decksPath);
+
+  const deck = options.slug ? decks.find((entry) => entry.slug === options.slug) : decks.length === 1 ? decks[0] : undefined;
+  if (!deck) {
+    console.log(
+      options.slug
+        ? `Unknown deck slug ${options.slug}.`
+        : "Usage: npm run export-deck -- <slug> [--decks <path>] [--format text|csv|json|html] [--out <path>]"
+    );
+    console.log(`Decks in ${options.decksPath}: ${decks.map((entry) => entry.slug).join(", ") || "(none)"}`);
+    process.exitCode = 1;
+    return;
+  }
+
+  const output = exportDeck(deck, options.format, { player: options.player, event: options.event, date: options.date });
+
+  if (options.outputPath) {
+    await fs.mkdir(path.dirname(options.outputPath), { recursive: true });
+    await fs.writeFile(options.outputPath, `${output}\n`, "utf8");
+    console.log(`Saved ${deck.label} as ${options.format} to ${options.outputPath}`);
+    return;
+  }
+
+  console.log(output);
+}
+
+function parseExportDeckArgs(argv: string[]): ExportDeckOptions {
+  let slug: string | undefined;
+  let decksPath = path.resolve(process.cwd(), "data/most-viewed.json");
+  let format: DeckExportFormat = "text";
+  let outputPath: string | undefined;
+  let player: string | undefined;
+  let event: string | undefined;
+  let date: string | undefined;
+
+  argv.forEach((arg, index) => {
+    if (!arg.startsWith("--") && !VALUE_FLAGS.includes(argv[index - 1])) {
+      slug = arg;
+    }
+
+    if (arg === "--decks" && argv[index + 1]) {
+      decksPath = path.resolve(process.cwd(), argv[index + 1]);
+    }
+
+    if (arg === "--format" && argv[index + 1]) {
+      const value = argv[index + 1] as DeckExportFormat;
+      if (!DECK_EXPORT_FORMATS.includes(value)) {
+        throw new Error(`Unknown format ${value}. Use one of: ${DECK_EXPORT_FORMATS.join(", ")}.`);
+      }
+      format = value;
+    }
+
+    if (arg === "--out" && argv[index + 1]) {
+      outputPath = path.resolve(process.cwd(), argv[index + 1]);
+    }
+
+    if (arg === "--player" && argv[index + 1]) {
+      player = argv[index + 1];
+    }
+
+    if (arg === "--event" && argv[index + 1]) {
+      event = argv[index + 1];
+    }
+
+    if (arg === "--date" && argv[index + 1]) {
+      date = argv[index + 1];
+    }
+  });
+
+  return { slug, decksPath, format, outputPath, player, event, date };
+}
+
+main().catch((error) => {
+  console.error(error);
+  process.exit(1);
+});
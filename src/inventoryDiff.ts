@@ -0,0 +1,162 @@
+import fs from "node:fs/promises";
+import path from "node:path";
+import { loadDecks, loadPrices } from "./lib/dataFiles.js";
+import { diffInventories, type InventoryCountChange } from "./lib/inventoryDiff.js";
+import { formatUsd } from "./lib/prices.js";
+
+type InventoryDiffOptions = {
+  oldPath?: string;
+  newPath?: string;
+  decksPath: string;
+  /** Whether `--decks` was passed; a missing default deck file is skipped quietly. */
+  decksExplicit: boolean;
+  pricesPath?: string;
+  maxMissing?: number;
+  maxCostUsd?: number;
+  jsonOutputPath?: string;
+};
+
+const VALUE_FLAGS = ["--decks", "--prices", "--max-missing", "--max-cost", "--json"];
+
+async function main() {
+  const options = parseInventoryDiffArgs(process.argv.slice(2));
+  if (!options.oldPath || !options.newPath) {
+    console.log("Usage: npm run inventory:diff -- <old.json> <new.json> [--decks <path>] [--json <path>]");
+    process.exitCode = 1;
+    return;
+  }
+
+  const [before, after] = await Promise.all([readJson(options.oldPath), readJson(options.newPath)]);
+  const decks = await loadDecks(options.decksPath).catch((error: NodeJS.ErrnoException) => {
+    if (error.code === "ENOENT" && !options.decksExplicit) {
+      return undefined;
+    }
+    throw error;
+  });
+  const prices = options.pricesPath ? await loadPrices(undefined, options.pricesPath) : undefined;
+
+  const diff = diffInventories(before, after, {
+    decks,
+    thresholds: { maxMissing: options.maxMissing, maxCostUsd: options.maxCostUsd },
+    prices
+  });
+
+  console.log("=== Inventory Diff ===");
+  console.log(`Old: ${options.oldPath}${describeScrape(before)}`);
+  console.log(`New: ${options.newPath}${describeScrape(after)}`);
+  console.log(`Copies: ${diff.copiesBefore} → ${diff.copiesAfter} (${formatSigned(diff.copiesAfter - diff.copiesBefore)})`);
+  console.log(
+    `Value: ${formatUsd(diff.valueBeforeUsd)} → ${formatUsd(diff.valueAfterUsd)} (${formatSignedUsd(diff.valueChangeUsd)})`
+  );
+
+  printChanges("Gained", diff.gained);
+  printChanges("Lost", diff.lost);
+  printChanges("Count changes", diff.changed);
+
+  console.log("");
+  console.log("Deck status changes");
+  if (!decks) {
+    console.log(`  (skipped: ${options.decksPath} not found; pass --decks to check deck statuses)`);
+  } else if (diff.deckChanges.length === 0) {
+    console.log(`  (none across ${decks.length} deck(s))`);
+  } else {
+    diff.deckChanges.forEach((change) => {
+      console.log(
+        `  ${change.label}: ${change.before} → ${change.after} (missing ${change.missingBefore} → ${change.missingAfter})`
+      );
+    });
+  }
+
+  if (options.jsonOutputPath) {
+    await fs.mkdir(path.dirname(options.jsonOutputPath), { recursive: true });
+    await fs.writeFile(options.jsonOutputPath, JSON.stringify(diff, null, 2), "utf8");
+    console.log("");
+    console.log(`Saved inventory diff JSON to ${options.jsonOutputPath}`);
+  }
+}
+
+function printChanges(title: string, changes: InventoryCountChange[]) {
+  console.log("");
+  console.log(`${title} (${changes.length})`);
+  if (changes.length === 0) {
+    console.log("  (none)");
+    return;
+  }
+
+  const width = Math.max(...changes.map((entry) => entry.name.length));
+  changes.forEach((entry) => {
+    const value = entry.valueChangeUsd == null ? "no price" : formatSignedUsd(entry.valueChangeUsd);
+    console.log(`  ${entry.name.padEnd(width)}  ${entry.before} → ${entry.after} (${formatSigned(entry.change)})  ${value}`);
+  });
+}
+
+function describeScrape(source: unknown): string {
+  const scrapedAt = source && typeof source === "object" ? (source as { scrapedAt?: unknown }).scrapedAt : undefined;
+  return typeof scrapedAt === "string" ? ` (scraped ${scrapedAt.slice(0, 16).replace("T", " ")})` : "";
+}
+
+function formatSigned(value: number): string {
+  return `${value > 0 ? "+" : ""}${value}`;
+}
+
+function formatSignedUsd(value: number): string {
+  return `${value < 0 ? "-" : "+"}${formatUsd(Math.abs(value))}`;
+}
+
+async function readJson(filePath: string): Promise<unknown> {
+  return JSON.parse(await fs.readFile(filePath, "utf8"));
+}
+
+function parseInventoryDiffArgs(argv: string[]): InventoryDiffOptions {
+  const positional: string[] = [];
+  let decksPath = path.resolve(process.cwd(), "data/most-viewed.json");
+  let decksExplicit = false;
+  let pricesPath: string | undefined;
+  let maxMissing: number | undefined;
+  let maxCostUsd: number | undefined;
+  let jsonOutputPath: string | undefined;
+
+  argv.forEach((arg, index) => {
+    if (!arg.startsWith("--") && !VALUE_FLAGS.includes(argv[index - 1])) {
+      positional.push(path.resolve(process.cwd(), arg));
+    }
+
+    if (arg === "--decks" && argv[index + 1]) {
+      decksPath = path.resolve(process.cwd(), argv[index + 1]);
+      decksExplicit = true;
+    }
+
+    if (arg === "--prices" && argv[index + 1]) {
+      pricesPath = path.resolve(process.cwd(), argv[index + 1]);
+    }
+
+    if (arg === "--max-missing" && argv[index + 1]) {
+      const parsed = Number(argv[index + 1]);
+      if (!Number.isNaN(parsed)) {
+        maxMissing = Math.max(0, Math.floor(parsed));
+      }
+    }
+
+    if (arg === "--max-cost" && argv[index + 1]) {
+      const parsed = Number(argv[index + 1]);
+      if (!Number.isNaN(parsed)) {
+        maxCostUsd = Math.max(0, parsed);
+      }
+    }
+
+    if (arg === "--json" && argv[index + 1]) {
+      jsonOutputPath = path.resolve(process.cwd(), argv[index + 1]);
+    }
+  });
+
+  if (maxMissing == null && maxCostUsd == null) {
+    maxMissing = 4;
+  }
+
+  return { oldPath: positional[0], newPath: positional[1], decksPath, decksExplicit, pricesPath, maxMissing, maxCostUsd, jsonOutputPath };
+}
+
+main().catch((error) => {
+  console.error(error);
+  process.exit(1);
+});
@@ -0,0 +1,257 @@
+import { collectDeckRequirements, ensureParsed, type Inventory } from "./comparison.js";
+import type { DeckExport } from "./deckParser.js";
+import { countMatchingPrintings, formatPrintingRequirement, type InventoryPrinting, type PrintingRequirement } from "./printings.js";
+import type { PersistedDeck } from "./types.js";
+
+export type PlannedDeck = {
+  slug: string;
+  label: string;
+  /** Whether the deck fit into what was left of the inventory when decks were allocated in order. */
+  allocated: boolean;
+  /** Copies still missing for this deck after the decks before it took their share. */
+  missing: number;
+};
+
+export type ShortfallCard = {
+  name: string;
+  /** Set when only copies in this printing count, as in `MissingCard`. */
+  printing?: PrintingRequirement;
+  required: number;
+  owned: number;
+  missing: number;
+  /** Slugs of the selected decks that use this card. */
+  decks: string[];
+};
+
+export type BuildPlan = {
+  decks: PlannedDeck[];
+  /** Cards the selected decks need in total beyond what the inventory holds. */
+  shortfall: ShortfallCard[];
+  totalShortfall: number;
+  /** Largest group of selected decks that can be assembled at the same time. */
+  largestSet: string[];
+  /** Inventory left over after building `largestSet`. */
+  remaining: Inventory;
+};
+
+// The exact search is exponential in the worst case; past this many buildable decks the
+// smallest-first greedy pick is used instead.
+const MAX_EXACT_SEARCH = 12;
+
+/** One card a deck needs, in a particular printing when the deck line asks for one. */
+type CardNeed = {
+  name: string;
+  printing?: PrintingRequirement;
+  count: number;
+};
+
+type PlanEntry = {
+  slug: string;
+  label: string;
+  needs: CardNeed[];
+  /** Copies of each card the deck ties up: its largest need for that card, since buckets share copies. */
+  cards: Inventory;
+};
+
+/** Copies left per card name, and per printing requirement for the ones decks ask for. */
+type Pool = {
+  cards: Inventory;
+  printings: Inventory;
+};
+
+/**
+ * Allocates one shared inventory across several decks. Decks are first allocated greedily in the
+ * given order (so the caller's priority wins), then a branch-and-bound search finds the largest
+ * set of decks whose combined requirements fit into the inventory. With more than
+ * `MAX_EXACT_SEARCH` individually buildable decks, that set is approximated greedily.
+ *
+ * A deck's requirements are read like `compareDeck` reads them: a card listed in several buckets
+ * needs the largest of those counts, and `[...]` printing requirements only count matching copies
+ * when `printings` is given.
+ */
+export function planBuilds(decks: PersistedDeck[], inventory: Inventory, printings?: InventoryPrinting[]): BuildPlan {
+  const entries = decks.map((deck): PlanEntry => {
+    const hydrated = ensureParsed(deck);
+    const needs = collectNeeds(hydrated.parsed, Boolean(printings));
+    return { slug: hydrated.slug, label: hydrated.label, needs, cards: tiedUpCopies(needs) };
+  });
+  const start = startingPool(entries, inventory, printings ?? []);
+
+  const pool = clonePool(start);
+  const planned: PlannedDeck[] = entries.map((entry) => {
+    const missing = countMissing(entry, pool);
+    if (missing === 0) {
+      take(entry, pool);
+    }
+    return { slug: entry.slug, label: entry.label, allocated: missing === 0, missing };
+  });
+
+  const { shortfall, totalShortfall } = combinedShortfall(entries, start);
+
+  const largest = findLargestSet(entries, start);
+  const remaining = clonePool(start);
+  entries.filter((entry) => largest.includes(entry.slug)).forEach((entry) => take(entry, remaining));
+
+  return {
+    decks: planned,
+    shortfall,
+    totalShortfall,
+    largestSet: largest,
+    remaining: remaining.cards
+  };
+}
+
+/** The deck's needs per card and printing, keeping the largest count when a card is listed in several buckets. */
+function collectNeeds(deck: DeckExport, withPrintings: boolean): CardNeed[] {
+  const needs = new Map<string, CardNeed>();
+  collectDeckRequirements(deck).forEach((card) => {
+    const printing = withPrintings ? card.printing : undefined;
+    const key = needKey(card.name, printing);
+    const current = needs.get(key);
+    needs.set(key, { name: card.name, ...(printing ? { printing } : {}), count: Math.max(current?.count ?? 0, card.count) });
+  });
+  return [...needs.values()];
+}
+
+function tiedUpCopies(needs: CardNeed[]): Inventory {
+  return needs.reduce<Inventory>((acc, need) => {
+    acc[need.name] = Math.max(acc[need.name] ?? 0, need.count);
+    return acc;
+  }, {});
+}
+
+function needKey(name: string, printing?: PrintingRequirement): string {
+  return printing ? `${name} ${formatPrintingRequirement(printing)}` : name;
+}
+
+function startingPool(entries: PlanEntry[], inventory: Inventory, printings: InventoryPrinting[]): Pool {
+  const pool: Pool = { cards: { ...inventory }, printings: {} };
+  entries.forEach((entry) =>
+    entry.needs.forEach((need) => {
+      if (need.printing) {
+        pool.printings[needKey(need.name, need.printing)] = countMatchingPrintings(printings, need.name, need.printing);
+      }
+    })
+  );
+  return pool;
+}
+
+function clonePool(pool: Pool): Pool {
+  return { cards: { ...pool.cards }, printings: { ...pool.printings } };
+}
+
+/** Matching copies left for a need; copies taken by other decks may have been in any printing. */
+function available(need: CardNeed, pool: Pool): number {
+  const copies = pool.cards[need.name] ?? 0;
+  return need.printing ? Math.min(copies, pool.printings[needKey(need.name, need.printing)] ?? 0) : copies;
+}
+
+/** Copies the deck is short, counted per card as in `missingCopiesByCard`. */
+function countMissing(entry: PlanEntry, pool: Pool): number {
+  const byCard = entry.needs.reduce<Inventory>((acc, need) => {
+    acc[need.name] = Math.max(acc[need.name] ?? 0, need.count - available(need, pool));
+    return acc;
+  }, {});
+  return Object.values(byCard).reduce((sum, count) => sum + Math.max(0, count), 0);
+}
+
+/** Removes the deck's copies from the pool, or puts them back with `direction` -1. */
+function take(entry: PlanEntry, pool: Pool, direction = 1) {
+  Object.entries(entry.cards).forEach(([name, count]) => {
+    pool.cards[name] = (pool.cards[name] ?? 0) - direction * count;
+  });
+  entry.needs.forEach((need) => {
+    if (need.printing) {
+      const key = needKey(need.name, need.printing);
+      pool.printings[key] = (pool.printings[key] ?? 0) - direction * need.count;
+    }
+  });
+}
+
+/**
+ * What building every deck at once is short of: per card, and per printing requirement. A card's
+ * line is left out when one of its printing lines already covers the whole shortfall, and the total
+ * counts each card's largest shortfall once.
+ */
+function combinedShortfall(entries: PlanEntry[], pool: Pool): { shortfall: ShortfallCard[]; totalShortfall: number } {
+  const combined = new Map<string, ShortfallCard>();
+  const add = (name: string, printing: PrintingRequirement | undefined, count: number, slug: string) => {
+    const key = needKey(name, printing);
+    const current = combined.get(key) ?? {
+      name,
+      ...(printing ? { printing } : {}),
+      required: 0,
+      owned: printing ? (pool.printings[key] ?? 0) : (pool.cards[name] ?? 0),
+      missing: 0,
+      decks: []
+    };
+    current.required += count;
+    current.missing = Math.max(0, current.required - current.owned);
+    current.decks.push(slug);
+    combined.set(key, current);
+  };
+  entries.forEach((entry) => {
+    Object.entries(entry.cards).forEach(([name, count]) => add(name, undefined, count, entry.slug));
+    entry.needs.filter((need) => need.printing).forEach((need) => add(need.name, need.printing, need.count, entry.slug));
+  });
+
+  const cards = [...combined.values()].filter((card) => card.missing > 0);
+  const largestByCard = cards.reduce<Inventory>((acc, card) => {
+    acc[card.name] = Math.max(acc[card.name] ?? 0, card.missing);
+    return acc;
+  }, {});
+  const shortfall = cards
+    .filter((card) => card.printing || !cards.some((other) => other.printing && other.name === card.name && other.missing >= card.missing))
+    .sort((a, b) => b.missing - a.missing || a.name.localeCompare(b.name));
+
+  return { shortfall, totalShortfall: Object.values(largestByCard).reduce((sum, count) => sum + count, 0) };
+}
+
+function findLargestSet(entries: PlanEntry[], start: Pool): string[] {
+  // Decks that cannot be built on their own can never be part of a combined build.
+  const candidates = entries.filter((entry) => countMissing(entry, start) === 0);
+
+  if (candidates.length > MAX_EXACT_SEARCH) {
+    const pool = clonePool(start);
+    return [...candidates]
+      .sort((a, b) => copies(a.cards) - copies(b.cards))
+      .filter((entry) => {
+        if (countMissing(entry, pool) > 0) {
+          return false;
+        }
+        take(entry, pool);
+        return true;
+      })
+      .map((entry) => entry.slug);
+  }
+
+  let best: number[] = [];
+  const chosen: number[] = [];
+  const pool = clonePool(start);
+
+  const search = (index: number) => {
+    if (chosen.length > best.length) {
+      best = [...chosen];
+    }
+    if (index >= candidates.length || chosen.length + (candidates.length - index) <= best.length) {
+      return;
+    }
+
+    const entry = candidates[index];
+    if (countMissing(entry, pool) === 0) {
+      take(entry, pool);
+      chosen.push(index);
+      search(index + 1);
+      chosen.pop();
+      take(entry, pool, -1);
+    }
+    search(index + 1);
+  };
+
+  search(0);
+  return best.map((index) => candidates[index].slug);
+}
+
+function copies(needs: Inventory): number {
+  return Object.values(needs).reduce((sum, count) => sum + count, 0);
+}
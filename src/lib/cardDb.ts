@@ -0,0 +1,231 @@
+import rawCards from "./cards.json";
+
+export type CardType = "Unit" | "Spell" | "Gear" | "Legend" | "Battlefield" | "Rune";
+
+export type Card = {
+  id: string;
+  name: string;
+  publicCode: string;
+  set: string;
+  setName: string;
+  collectorNumber: number;
+  cardType: CardType;
+  domains: string[];
+  rarity: string;
+  energy: number | null;
+  power: number | null;
+  imageUrl: string | null;
+  orientation: "portrait" | "landscape";
+};
+
+type RawCard = {
+  id?: string;
+  name?: string;
+  publicCode?: string;
+  set?: string;
+  setName?: string;
+  collectorNumber?: number;
+  orientation?: string;
+  cardType?: Array<{ label?: string | null }> | null;
+  domains?: Array<{ label?: string | null }> | null;
+  rarity?: { label?: string } | null;
+  cardImage?: { url?: string | null } | null;
+  energy?: number | null;
+  power?: number | null;
+};
+
+/**
+ * Every printing from the bundled card data, in source order. Alternate arts and showcase
+ * versions share a name with their base printing, so name lookups resolve to the base one.
+ */
+export const cards: Card[] = (rawCards as RawCard[])
+  .filter((entry) => entry.id && entry.name)
+  .map((entry) => ({
+    id: entry.id as string,
+    name: entry.name as string,
+    publicCode: entry.publicCode ?? "",
+    set: entry.set ?? "",
+    setName: entry.setName ?? "",
+    collectorNumber: entry.collectorNumber ?? 0,
+    cardType: (entry.cardType?.[0]?.label ?? "Unit") as CardType,
+    domains: (entry.domains ?? []).map((domain) => domain.label).filter(Boolean) as string[],
+    rarity: entry.rarity?.label ?? "",
+    energy: entry.energy ?? null,
+    power: entry.power ?? null,
+    imageUrl: entry.cardImage?.url ?? null,
+    orientation: entry.orientation === "landscape" ? "landscape" : "portrait"
+  }));
+
+/**
+ * Folds the cosmetic differences we see between sources: case, accents, curly vs straight
+ * apostrophes and punctuation/whitespace runs.
+ */
+export function normalizeCardName(value: string): string {
+  return value
+    .normalize("NFKD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .toLowerCase()
+    .replace(/[’'`]/g, "")
+    .replace(/[^a-z0-9]+/g, " ")
+    .trim();
+}
+
+const byId = new Map<string, Card>();
+const byPublicCode = new Map<string, Card>();
+const byShortCode = new Map<string, Card>();
+const printingsByName = new Map<string, Card[]>();
+const byNormalizedName = new Map<string, string>();
+
+for (const card of cards) {
+  byId.set(card.id, card);
+  byPublicCode.set(card.publicCode.toUpperCase(), card);
+  const shortCode = card.publicCode.split("/")[0].toUpperCase();
+  if (shortCode && !byShortCode.has(shortCode)) {
+    byShortCode.set(shortCode, card);
+  }
+
+  const printings = printingsByName.get(card.name) ?? [];
+  printings.push(card);
+  printingsByName.set(card.name, printings);
+
+  // Starter legends are printed as "Dark Child - Starter" but decks list them by title only.
+  for (const alias of [card.name, card.name.replace(/\s+-\s+Starter$/i, "")]) {
+    const key = normalizeCardName(alias);
+    if (key && !byNormalizedName.has(key)) {
+      byNormalizedName.set(key, card.name);
+    }
+  }
+}
+
+function preferBasePrinting(printings: Card[] | undefined): Card | null {
+  if (!printings?.length) {
+    return null;
+  }
+  return printings.find((card) => card.rarity !== "Showcase" && /^\w+-\d+\//.test(card.publicCode)) ?? printings[0];
+}
+
+export function getCardById(id: string): Card | null {
+  return byId.get(id.trim().toLowerCase()) ?? null;
+}
+
+/** Accepts full codes ("OGN-001/298") as well as the short form without the set size ("OGN-001"). */
+export function getCardByPublicCode(publicCode: string): Card | null {
+  const code = publicCode.trim().toUpperCase();
+  return byPublicCode.get(code) ?? byShortCode.get(code.split("/")[0]) ?? null;
+}
+
+export function getCardByName(name: string): Card | null {
+  return preferBasePrinting(printingsByName.get(name));
+}
+
+export function getCardByNormalizedName(name: string): Card | null {
+  const canonical = byNormalizedName.get(normalizeCardName(name));
+  return canonical ? getCardByName(canonical) : null;
+}
+
+export function getPrintings(name: string): Card[] {
+  const canonical = printingsByName.has(name) ? name : byNormalizedName.get(normalizeCardName(name));
+  return canonical ? [...(printingsByName.get(canonical) ?? [])] : [];
+}
+
+/**
+ * Resolves a deck-list name to a card: exact name first, then the normalized name. Legends are
+ * exported as "Champion, Title" while the card data only knows the title, so the segment after
+ * the first comma is tried last.
+ */
+export function findCard(name: string): Card | null {
+  const trimmed = name.trim();
+  const direct = getCardByName(trimmed) ?? getCardByNormalizedName(trimmed);
+  if (direct) {
+    return direct;
+  }
+
+  const commaIndex = trimmed.indexOf(",");
+  if (commaIndex < 0) {
+    return null;
+  }
+
+  const title = getCardByNormalizedName(trimmed.slice(commaIndex + 1));
+  return title?.cardType === "Legend" ? title : null;
+}
+
+const VARIANT_WORDS = /\b(?:starter|showcase|alt(?:ernate)? art|promo|signature|foil|overnumbered)\b/gi;
+const SET_CODE_PATTERN = /\b[A-Z]{2,4}-\d{1,3}[a-z*]?(?:\/\d+)?\b/i;
+
+const collapseKey = (value: string) => normalizeCardName(value).replace(/\s+/g, "");
+
+const byCollapsedName = new Map<string, string>();
+for (const [key, name] of byNormalizedName) {
+  const collapsed = key.replace(/\s+/g, "");
+  if (!byCollapsedName.has(collapsed)) {
+    byCollapsedName.set(collapsed, name);
+  }
+}
+
+/**
+ * Fuzzy variant of `findCard` for names coming from storefronts and inventory exports. On top of
+ * the exact/normalized lookups it strips variant labels such as "Showcase" or "Alt Art", bracketed
+ * suffixes and set codes, and tries each " - " segment on its own. A set code ("OGN-001/298") is
+ * only trusted when the name itself does not resolve, then a whitespace-insensitive match is tried.
+ */
+export function resolveCard(name: string): Card | null {
+  const direct = findCard(name);
+  if (direct) {
+    return direct;
+  }
+
+  const stripped = name
+    .replace(SET_CODE_PATTERN, " ")
+    .replace(/[([][^)\]]*[)\]]/g, " ")
+    .replace(VARIANT_WORDS, " ")
+    .replace(/\s+/g, " ")
+    .replace(/^[\s\-–#]+|[\s\-–#]+$/g, "");
+
+  const candidates = [
+    stripped,
+    ...stripped
+      .split(/\s+[-–]\s+/)
+      .map((segment) => segment.trim())
+      .filter(Boolean)
+      .sort((a, b) => b.length - a.length)
+  ];
+
+  for (const candidate of candidates) {
+    const match = findCard(candidate);
+    if (match) {
+      return match;
+    }
+  }
+
+  const codeMatch = name.match(SET_CODE_PATTERN);
+  const byCode = codeMatch ? getCardByPublicCode(codeMatch[0]) : null;
+  if (byCode) {
+    return byCode;
+  }
+
+  const collapsed = byCollapsedName.get(collapseKey(stripped));
+  return collapsed ? getCardByName(collapsed) : null;
+}
+
+/** The card database name for `name`, or null when it cannot be mapped to a known card. */
+export function canonicalCardName(name: string): string | null {
+  return resolveCard(name)?.name ?? null;
+}
+
+/**
+ * The name to show for a deck-list entry: the card database name, except that a legend listed as
+ * "Champion, Title" keeps its champion, which the card data does not record. Unknown names are
+ * returned as written.
+ */
+export function deckCardName(name: string): string {
+  const card = resolveCard(name);
+  if (!card) {
+    return name;
+  }
+
+  const commaIndex = name.indexOf(",");
+  if (card.cardType !== "Legend" || commaIndex < 0 || getCardByNormalizedName(name.slice(commaIndex + 1))?.name !== card.name) {
+    return card.name;
+  }
+  return `${name.slice(0, commaIndex).trim()}, ${card.name.replace(/\s+-\s+Starter$/i, "")}`;
+}
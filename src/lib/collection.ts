@@ -0,0 +1,274 @@
+import { canonicalCardName } from "./cardDb.js";
+import type { Inventory } from "./comparison.js";
+import type { ParseIssue } from "./deckParser.js";
+import { hasPrintingDetails, type InventoryPrinting } from "./printings.js";
+
+export type TransactionKind = "import" | "add" | "remove" | "trade" | "undo";
+
+/** Signed change to one card: positive when copies come in, negative when they leave. */
+export type CardDelta = {
+  name: string;
+  count: number;
+};
+
+export type CollectionTransaction = {
+  id: string;
+  /** ISO timestamp of when the change happened. */
+  at: string;
+  kind: TransactionKind;
+  cards: CardDelta[];
+  note?: string;
+  /** Set on `undo` entries: the transaction they cancel. */
+  undoes?: string;
+  /** Set on `import` entries whose source listed printings: every printing-level line of that inventory. */
+  printings?: InventoryPrinting[];
+};
+
+export type CollectionLog = {
+  version: 1;
+  transactions: CollectionTransaction[];
+};
+
+export type CardHistoryEntry = {
+  at: string;
+  kind: TransactionKind;
+  count: number;
+  note?: string;
+  undone: boolean;
+};
+
+const TRANSACTION_KINDS: TransactionKind[] = ["import", "add", "remove", "trade", "undo"];
+
+export function emptyCollectionLog(): CollectionLog {
+  return { version: 1, transactions: [] };
+}
+
+/**
+ * Validates a stored log. Accepts the `{ version, transactions }` wrapper or a bare transaction
+ * array, so hand-edited files and IndexedDB dumps load the same way.
+ */
+export function readCollectionLog(source: unknown): CollectionLog {
+  const entries = Array.isArray(source)
+    ? source
+    : source && typeof source === "object" && Array.isArray((source as { transactions?: unknown }).transactions)
+      ? (source as { transactions: unknown[] }).transactions
+      : null;
+  if (!entries) {
+    throw new Error("Collection log must be an array of transactions or an object with a transactions array.");
+  }
+
+  const transactions = entries.map((entry, index) => {
+    const transaction = entry as Partial<CollectionTransaction> | null;
+    if (
+      !transaction ||
+      typeof transaction.id !== "string" ||
+      typeof transaction.at !== "string" ||
+      !TRANSACTION_KINDS.includes(transaction.kind as TransactionKind) ||
+      !Array.isArray(transaction.cards)
+    ) {
+      throw new Error(`Collection log entry ${index + 1} is malformed.`);
+    }
+    return transaction as CollectionTransaction;
+  });
+
+  return { version: 1, transactions };
+}
+
+export function isCollectionLog(source: unknown): boolean {
+  return Boolean(source && typeof source === "object" && Array.isArray((source as { transactions?: unknown }).transactions));
+}
+
+/** Folds every transaction that has not been undone into name-level counts. */
+export function deriveInventory(transactions: CollectionTransaction[]): Inventory {
+  const undone = undoneTransactionIds(transactions);
+  const totals = transactions
+    .filter((transaction) => !undone.has(transaction.id))
+    .reduce<Inventory>((acc, transaction) => {
+      transaction.cards.forEach((card) => {
+        acc[card.name] = (acc[card.name] ?? 0) + card.count;
+      });
+      return acc;
+    }, {});
+
+  return Object.fromEntries(Object.entries(totals).filter(([, count]) => count > 0));
+}
+
+/**
+ * Printing-level lines for the counts `deriveInventory` returns. Starts from the printings of the
+ * latest import still in effect; copies added since then have no printing details, and removed copies
+ * come off those without details first, then off the last printings listed.
+ */
+export function derivePrintings(transactions: CollectionTransaction[]): InventoryPrinting[] {
+  const undone = undoneTransactionIds(transactions);
+  const lastImport = [...transactions].reverse().find((transaction) => transaction.kind === "import" && !undone.has(transaction.id));
+  const recorded = lastImport?.printings ?? [];
+  const inventory = deriveInventory(transactions);
+
+  return [...new Set([...recorded.map((printing) => printing.name), ...Object.keys(inventory)])].flatMap((name) => {
+    const lines = recorded.filter((printing) => printing.name === name && printing.count > 0).map((printing) => ({ ...printing }));
+    let surplus = lines.reduce((sum, printing) => sum + printing.count, 0) - (inventory[name] ?? 0);
+    if (surplus < 0) {
+      return [...lines, { name, count: -surplus }];
+    }
+
+    const detailed = lines.filter((printing) => hasPrintingDetails([printing]));
+    const removalOrder = [...lines.filter((printing) => !detailed.includes(printing)), ...detailed.reverse()];
+    removalOrder.forEach((printing) => {
+      const taken = Math.min(printing.count, surplus);
+      printing.count -= taken;
+      surplus -= taken;
+    });
+    return lines.filter((printing) => printing.count > 0);
+  });
+}
+
+export function undoneTransactionIds(transactions: CollectionTransaction[]): Set<string> {
+  return new Set(transactions.flatMap((transaction) => (transaction.undoes ? [transaction.undoes] : [])));
+}
+
+export function addTransaction(cards: Inventory, note?: string, at = new Date()): CollectionTransaction {
+  return createTransaction("add", toDeltas(cards, 1), note, at);
+}
+
+export function removeTransaction(cards: Inventory, note?: string, at = new Date()): CollectionTransaction {
+  return createTransaction("remove", toDeltas(cards, -1), note, at);
+}
+
+export function tradeTransaction(given: Inventory, received: Inventory, note?: string, at = new Date()): CollectionTransaction {
+  return createTransaction("trade", [...toDeltas(given, -1), ...toDeltas(received, 1)], note, at);
+}
+
+/**
+ * Records a full inventory snapshot (a CardNexus scrape or an uploaded file) as the difference to
+ * the current counts, so the log still explains every copy. Printing-level lines are kept on the
+ * entry when they carry details, for `derivePrintings`.
+ */
+export function importTransaction(
+  current: Inventory,
+  next: Inventory,
+  note?: string,
+  at = new Date(),
+  printings: InventoryPrinting[] = []
+): CollectionTransaction {
+  const names = new Set([...Object.keys(current), ...Object.keys(next)]);
+  const cards = [...names]
+    .map((name) => ({ name, count: (next[name] ?? 0) - (current[name] ?? 0) }))
+    .filter((card) => card.count !== 0)
+    .sort((a, b) => a.name.localeCompare(b.name));
+  const transaction = createTransaction("import", cards, note, at);
+  return hasPrintingDetails(printings) ? { ...transaction, printings } : transaction;
+}
+
+/** Cancels `id`, or the latest transaction that is still in effect when no id is given. */
+export function undoTransaction(transactions: CollectionTransaction[], id?: string, at = new Date()): CollectionTransaction {
+  const undone = undoneTransactionIds(transactions);
+  const target = id
+    ? transactions.find((transaction) => transaction.id === id)
+    : [...transactions].reverse().find((transaction) => transaction.kind !== "undo" && !undone.has(transaction.id));
+
+  if (!target) {
+    throw new Error(id ? `No transaction with id ${id}.` : "Nothing left to undo.");
+  }
+  if (target.kind === "undo") {
+    throw new Error("Undo entries cannot be undone; record the change again instead.");
+  }
+  if (undone.has(target.id)) {
+    throw new Error(`Transaction ${target.id} was already undone.`);
+  }
+
+  return { ...createTransaction("undo", [], `Undo ${target.kind}${target.note ? `: ${target.note}` : ""}`, at), undoes: target.id };
+}
+
+/** Copies that `cards` would remove beyond what the inventory holds, keyed by card name. */
+export function findOverdrawnCards(inventory: Inventory, cards: Inventory): Inventory {
+  return Object.fromEntries(
+    Object.entries(cards)
+      .map(([name, count]) => [canonicalCardName(name) ?? name, count] as const)
+      .filter(([name, count]) => count > (inventory[name] ?? 0))
+      .map(([name, count]) => [name, count - (inventory[name] ?? 0)])
+  );
+}
+
+/** Every change to one card, oldest first, so the UI can show when copies were acquired. */
+export function cardHistory(transactions: CollectionTransaction[], name: string): CardHistoryEntry[] {
+  const canonical = canonicalCardName(name) ?? name;
+  const undone = undoneTransactionIds(transactions);
+  return transactions.flatMap((transaction) =>
+    transaction.cards
+      .filter((card) => card.name === canonical)
+      .map((card) => ({ at: transaction.at, kind: transaction.kind, count: card.count, note: transaction.note, undone: undone.has(transaction.id) }))
+  );
+}
+
+/** Reads "3 Card Name" / "3x Card Name" lines into counts, ignoring anything else. */
+export function parseCardCounts(lines: string[]): Inventory {
+  return lines.reduce<Inventory>((acc, line) => {
+    const match = line.match(/^\s*(\d+)x?\s+(.+)$/);
+    if (match) {
+      const name = match[2].trim();
+      acc[name] = (acc[name] ?? 0) + parseInt(match[1], 10);
+    }
+    return acc;
+  }, {});
+}
+
+/**
+ * `parseCardCounts` for pasted inventories: also reports lines that are not card counts, zero
+ * counts, names missing from the card database and cards listed on more than one line.
+ */
+export function parseCardCountsWithIssues(lines: string[]): { counts: Inventory; issues: ParseIssue[] } {
+  const counts: Inventory = {};
+  const issues: ParseIssue[] = [];
+  const firstLine = new Map<string, number>();
+
+  lines.forEach((rawLine, index) => {
+    const line = index + 1;
+    if (!rawLine.trim()) {
+      return;
+    }
+    const match = rawLine.match(/^\s*(\d+)x?\s+(.+)$/);
+    if (!match) {
+      issues.push({ line, severity: "error", message: `Could not read "${rawLine.trim()}"; expected "3x Card Name".` });
+      return;
+    }
+
+    const name = match[2].trim();
+    const count = parseInt(match[1], 10);
+    if (count <= 0) {
+      issues.push({ line, severity: "warning", message: `${name} has a count of 0 and was skipped.` });
+      return;
+    }
+
+    const canonical = canonicalCardName(name);
+    if (!canonical) {
+      issues.push({ line, severity: "warning", message: `Unknown card "${name}".` });
+    }
+    const key = canonical ?? name;
+    const previous = firstLine.get(key);
+    if (previous === undefined) {
+      firstLine.set(key, line);
+    } else {
+      issues.push({ line, severity: "warning", message: `${key} is also listed on line ${previous}; the counts were added together.` });
+    }
+    counts[name] = (counts[name] ?? 0) + count;
+  });
+
+  return { counts, issues };
+}
+
+function createTransaction(kind: TransactionKind, cards: CardDelta[], note: string | undefined, at: Date): CollectionTransaction {
+  const trimmed = note?.trim();
+  return { id: crypto.randomUUID(), at: at.toISOString(), kind, cards, ...(trimmed ? { note: trimmed } : {}) };
+}
+
+function toDeltas(cards: Inventory, sign: 1 | -1): CardDelta[] {
+  // Names are stored canonically so the derived inventory lines up with deck requirements.
+  const merged = Object.entries(cards).reduce<Inventory>((acc, [name, count]) => {
+    const key = canonicalCardName(name) ?? name;
+    acc[key] = (acc[key] ?? 0) + count;
+    return acc;
+  }, {});
+  return Object.entries(merged)
+    .filter(([, count]) => count > 0)
+    .map(([name, count]) => ({ name, count: sign * count }));
+}
@@ -0,0 +1,173 @@
+import { cards, type Card } from "./cardDb.js";
+import type { Inventory } from "./comparison.js";
+import { roundCents, type PriceMap } from "./prices.js";
+import { sum } from "./util.js";
+import { COPY_LIMIT, RUNE_DECK_SIZE } from "./validateDeck.js";
+
+export type RarityCompletion = {
+  rarity: string;
+  total: number;
+  /** Cards with at least one copy. */
+  owned: number;
+  /** Cards with a full playset (see `playsetSize`). */
+  playsets: number;
+};
+
+export type PlaysetNeed = {
+  name: string;
+  publicCode: string;
+  rarity: string;
+  owned: number;
+  playset: number;
+  missing: number;
+  /** Cost of the missing copies; null when the card has no price. */
+  costUsd: number | null;
+};
+
+export type SetCompletion = {
+  set: string;
+  setName: string;
+  total: number;
+  owned: number;
+  playsets: number;
+  /** Share of the set's cards owned at least once / as a full playset, 0-100. */
+  ownedPercent: number;
+  playsetPercent: number;
+  byRarity: RarityCompletion[];
+  /** Cards short of a playset, in collector-number order. */
+  needed: PlaysetNeed[];
+  missingCopies: number;
+  /** Priced part of completing every playset, and how many missing copies have no price. */
+  completionCostUsd: number;
+  unpricedMissingCopies: number;
+};
+
+export type CollectionValueEntry = {
+  name: string;
+  count: number;
+  priceUsd: number;
+  valueUsd: number;
+};
+
+export type CollectionStats = {
+  uniqueCards: number;
+  copies: number;
+  valueUsd: number;
+  pricedCopies: number;
+  unpricedCopies: number;
+  /** Highest total value first. */
+  mostValuable: CollectionValueEntry[];
+  sets: SetCompletion[];
+};
+
+const RARITY_ORDER = ["Common", "Uncommon", "Rare", "Epic"];
+const TOP_VALUE_COUNT = 10;
+
+/** Copies a collector needs of a card to play it freely: one legend or battlefield per deck, a full rune deck, otherwise the copy limit. */
+export function playsetSize(card: Card): number {
+  if (card.cardType === "Legend" || card.cardType === "Battlefield") {
+    return 1;
+  }
+  return card.cardType === "Rune" ? RUNE_DECK_SIZE : COPY_LIMIT;
+}
+
+/**
+ * Collection-level stats for a name-level inventory. Value is `count * price` with the same price
+ * map the comparison uses (the scrape's `priceUsd`, overridden by a price file). Set completion
+ * counts each card once by name against the card database; Showcase printings share their base
+ * card's name and are not counted separately.
+ */
+export function computeCollectionStats(inventory: Inventory, prices: PriceMap = {}): CollectionStats {
+  const owned = Object.entries(inventory).filter(([, count]) => count > 0);
+  const priced = owned.filter(([name]) => prices[name] != null);
+  const mostValuable = priced
+    .map(([name, count]) => ({ name, count, priceUsd: prices[name], valueUsd: roundCents(count * prices[name]) }))
+    .sort((a, b) => b.valueUsd - a.valueUsd || a.name.localeCompare(b.name));
+
+  return {
+    uniqueCards: owned.length,
+    copies: sum(owned.map(([, count]) => count)),
+    valueUsd: roundCents(sum(mostValuable.map((entry) => entry.valueUsd))),
+    pricedCopies: sum(priced.map(([, count]) => count)),
+    unpricedCopies: sum(owned.filter(([name]) => prices[name] == null).map(([, count]) => count)),
+    mostValuable: mostValuable.slice(0, TOP_VALUE_COUNT),
+    sets: setCards().map(([set, setCards]) => computeSetCompletion(set, setCards, inventory, prices))
+  };
+}
+
+function computeSetCompletion(set: string, setCards: Card[], inventory: Inventory, prices: PriceMap): SetCompletion {
+  const rows = setCards.map((card) => {
+    const count = inventory[card.name] ?? 0;
+    const playset = playsetSize(card);
+    return { card, count, playset, missing: Math.max(0, playset - count) };
+  });
+
+  const rarities = [...new Set(rows.map((row) => row.card.rarity))].sort(
+    (a, b) => rarityRank(a) - rarityRank(b) || a.localeCompare(b)
+  );
+  const needed = rows
+    .filter((row) => row.missing > 0)
+    .map((row) => {
+      const price = prices[row.card.name];
+      return {
+        name: row.card.name,
+        publicCode: row.card.publicCode,
+        rarity: row.card.rarity,
+        owned: row.count,
+        playset: row.playset,
+        missing: row.missing,
+        costUsd: price == null ? null : roundCents(row.missing * price)
+      };
+    });
+
+  const ownedCount = rows.filter((row) => row.count > 0).length;
+  const playsets = rows.filter((row) => row.missing === 0).length;
+  return {
+    set,
+    setName: setCards[0]?.setName ?? set,
+    total: rows.length,
+    owned: ownedCount,
+    playsets,
+    ownedPercent: percent(ownedCount, rows.length),
+    playsetPercent: percent(playsets, rows.length),
+    byRarity: rarities.map((rarity) => {
+      const inRarity = rows.filter((row) => row.card.rarity === rarity);
+      return {
+        rarity,
+        total: inRarity.length,
+        owned: inRarity.filter((row) => row.count > 0).length,
+        playsets: inRarity.filter((row) => row.missing === 0).length
+      };
+    }),
+    needed,
+    missingCopies: sum(needed.map((entry) => entry.missing)),
+    completionCostUsd: roundCents(sum(needed.map((entry) => entry.costUsd ?? 0))),
+    unpricedMissingCopies: sum(needed.filter((entry) => entry.costUsd == null).map((entry) => entry.missing))
+  };
+}
+
+/** Base printings grouped by set code, one per card name, in collector-number order. */
+function setCards(): Array<[string, Card[]]> {
+  const bySet = cards
+    .filter((card) => card.rarity !== "Showcase" && card.set)
+    .reduce<Map<string, Map<string, Card>>>((acc, card) => {
+      const names = acc.get(card.set) ?? new Map<string, Card>();
+      if (!names.has(card.name)) {
+        names.set(card.name, card);
+      }
+      return acc.set(card.set, names);
+    }, new Map());
+
+  return [...bySet]
+    .map(([set, names]): [string, Card[]] => [set, [...names.values()].sort((a, b) => a.collectorNumber - b.collectorNumber)])
+    .sort(([a], [b]) => a.localeCompare(b));
+}
+
+function rarityRank(rarity: string): number {
+  const index = RARITY_ORDER.indexOf(rarity);
+  return index < 0 ? RARITY_ORDER.length : index;
+}
+
+function percent(part: number, total: number): number {
+  return total === 0 ? 0 : Math.round((part / total) * 1000) / 10;
+}
@@ -0,0 +1,28 @@
+import fs from "node:fs/promises";
+import path from "node:path";
+import { emptyCollectionLog, readCollectionLog, type CollectionLog, type CollectionTransaction } from "./collection.js";
+
+export const DEFAULT_COLLECTION_PATH = "data/collection.json";
+
+/** Reads the collection log, starting an empty one when the file does not exist yet. */
+export async function loadCollection(filePath: string): Promise<CollectionLog> {
+  const raw = await fs.readFile(filePath, "utf8").catch((error: NodeJS.ErrnoException) => {
+    if (error.code === "ENOENT") {
+      return null;
+    }
+    throw error;
+  });
+  return raw == null ? emptyCollectionLog() : readCollectionLog(JSON.parse(raw));
+}
+
+/** Appends transactions and rewrites the file through a temp file, so a crash never truncates the log. */
+export async function appendTransactions(filePath: string, transactions: CollectionTransaction[]): Promise<CollectionLog> {
+  const log = await loadCollection(filePath);
+  const next: CollectionLog = { ...log, transactions: [...log.transactions, ...transactions] };
+
+  await fs.mkdir(path.dirname(filePath), { recursive: true });
+  const tempPath = `${filePath}.tmp`;
+  await fs.writeFile(tempPath, JSON.stringify(next, null, 2), "utf8");
+  await fs.rename(tempPath, filePath);
+  return next;
+}
@@ -1,19 +1,37 @@
-import { parseExportedDeck, type CardEntry, type DeckExport } from "./deckParser.js";
+import { canonicalCardName, deckCardName } from "./cardDb.js";
+import { derivePrintings, isCollectionLog, readCollectionLog } from "./collection.js";
+import { parseDeckText, type CardEntry, type DeckExport } from "./deckParser.js";
+import { roundCents, type PriceMap } from "./prices.js";
+import {
+  countMatchingPrintings,
+  rollupPrintings,
+  summarizeOwnedPrintings,
+  type InventoryPrinting,
+  type OwnedPrinting,
+  type PrintingRequirement
+} from "./printings.js";
 import type { PersistedDeck } from "./types.js";
 
 export type Inventory = Record<string, number>;
 
 export type MissingCard = {
+  /** Card database name, as used by inventories and price maps. */
   name: string;
+  /** Name for reports; see `deckCardName`. */
+  displayName: string;
   required: number;
   owned: number;
   missing: number;
   bucket: DeckBucket;
+  /** The printing the deck asks for; `owned` then only counts matching printings. */
+  printing?: PrintingRequirement;
+  /** What the inventory holds of this card, by printing; only set when printing data is available. */
+  ownedPrintings?: OwnedPrinting[];
 };
 
 export type DeckBucket = keyof DeckExport;
 
-type RequirementEntry = CardEntry & { bucket: DeckBucket };
+type RequirementEntry = CardEntry & { bucket: DeckBucket; displayName: string };
 
 export type ComparisonStatus = "buildable" | "close" | "unbuildable";
 
@@ -21,28 +39,87 @@ export type DeckComparison<TDeck extends PersistedDeck = PersistedDeck> = {
   deck: TDeck & { parsed: DeckExport };
   missingCards: MissingCard[];
   totalMissing: number;
+  /** Cost of the priced missing copies; only set when prices were supplied. See `unpricedMissing`. */
+  missingCostUsd?: number;
+  /** Missing copies without a known price, so `missingCostUsd` is a lower bound when this is non-zero. */
+  unpricedMissing?: number;
   status: ComparisonStatus;
 };
 
+/**
+ * When a deck still counts as "close". Copies and dollars can be combined, in which case both
+ * limits must hold; a bare number is shorthand for `{ maxMissing }`. Under a cost limit, a deck
+ * with unpriced missing copies is never close.
+ */
+export type StatusThresholds = {
+  maxMissing?: number;
+  maxCostUsd?: number;
+};
+
+export type InventoryReconciliation = {
+  /** Name-level rollup of `printings`. */
+  inventory: Inventory;
+  /** One entry per inventory line, keeping set, collector number, finish and condition when the source has them. */
+  printings: InventoryPrinting[];
+  /** Source entries that could not be mapped to a known card; they are kept under their original name. */
+  unmatched: string[];
+};
+
 export function normalizeInventory(source: unknown): Inventory {
-  if (Array.isArray(source)) {
-    return source.reduce<Inventory>((acc, item) => {
-      if (item && typeof item === "object" && "name" in item && "count" in item) {
-        const name = String((item as { name: unknown }).name).trim();
-        const count = Number((item as { count: unknown }).count);
-        if (name && Number.isFinite(count)) {
-          acc[name] = (acc[name] ?? 0) + Math.max(0, Math.floor(count));
-        }
-      }
-      return acc;
-    }, {});
+  return reconcileInventory(source).inventory;
+}
+
+/**
+ * Normalizes an inventory payload and folds every entry onto its card database name, so
+ * "Kai’Sa" vs "Kai'Sa", set suffixes and "Showcase" variants count towards the same card.
+ */
+export function reconcileInventory(source: unknown): InventoryReconciliation {
+  const unmatched = new Set<string>();
+  const printings = readInventoryPrintings(source).map((printing) => {
+    const canonical = canonicalCardName(printing.name);
+    if (!canonical) {
+      unmatched.add(printing.name);
+    }
+    return { ...printing, name: canonical ?? printing.name };
+  });
+
+  return { inventory: rollupPrintings(printings), printings, unmatched: [...unmatched].sort((a, b) => a.localeCompare(b)) };
+}
+
+function readInventoryPrintings(source: unknown): InventoryPrinting[] {
+  if (isCollectionLog(source)) {
+    return derivePrintings(readCollectionLog(source).transactions);
   }
 
-  if (source && typeof source === "object") {
-    if ("cards" in source && Array.isArray((source as { cards: unknown }).cards)) {
-      return normalizeInventory((source as { cards: unknown }).cards);
+  const entries = Array.isArray(source)
+    ? source
+    : source && typeof source === "object" && Array.isArray((source as { cards?: unknown }).cards)
+      ? (source as { cards: unknown[] }).cards
+      : null;
+
+  if (!entries) {
+    return Object.entries(readInventoryCounts(source)).map(([name, count]) => ({ name, count }));
+  }
+
+  return entries.flatMap((item) => {
+    if (!item || typeof item !== "object" || !("name" in item) || !("count" in item)) {
+      return [];
     }
+    const { name: rawName, count: rawCount, setName, collectorNumber, finish, condition } = item as Record<string, unknown>;
+    const name = String(rawName).trim();
+    const count = Number(rawCount);
+    if (!name || !Number.isFinite(count)) {
+      return [];
+    }
+    const details = Object.entries({ setName, collectorNumber, finish, condition }).filter(
+      (entry): entry is [string, string] => typeof entry[1] === "string" && entry[1].trim() !== ""
+    );
+    return [{ name, count: Math.max(0, Math.floor(count)), ...Object.fromEntries(details) }];
+  });
+}
 
+function readInventoryCounts(source: unknown): Inventory {
+  if (source && typeof source === "object") {
     return Object.entries(source as Record<string, unknown>).reduce<Inventory>((acc, [name, value]) => {
       if (!name) {
         return acc;
@@ -55,13 +132,20 @@ export function normalizeInventory(source: unknown): Inventory {
     }, {});
   }
 
-  throw new Error("Unsupported inventory format. Use an object map or an array of { name, count } entries.");
+  throw new Error("Unsupported inventory format. Use an object map, an array of { name, count } entries or a collection log.");
 }
 
+/**
+ * `printings` enables printing-level checks: requirements with a `[...]` printing suffix only count
+ * matching copies, and missing cards list the printings that are owned. Without it, requirements
+ * are checked by name alone.
+ */
 export function compareDeck(
   deck: PersistedDeck,
   inventory: Inventory,
-  maxMissing: number
+  thresholds: number | StatusThresholds,
+  prices?: PriceMap,
+  printings?: InventoryPrinting[]
 ): DeckComparison {
   const hydrated = ensureParsed(deck);
   const requirements = collectDeckRequirements(hydrated.parsed);
@@ -69,41 +153,99 @@ export function compareDeck(
   let totalMissing = 0;
 
   for (const card of requirements) {
-    const owned = inventory[card.name] ?? 0;
+    const owned =
+      card.printing && printings ? countMatchingPrintings(printings, card.name, card.printing) : (inventory[card.name] ?? 0);
     if (owned < card.count) {
       const deficit = card.count - owned;
       totalMissing += deficit;
       missingCards.push({
         name: card.name,
+        displayName: card.displayName,
         required: card.count,
         owned,
         missing: deficit,
-        bucket: card.bucket
+        bucket: card.bucket,
+        ...(card.printing ? { printing: card.printing } : {}),
+        ...(printings ? { ownedPrintings: summarizeOwnedPrintings(printings, card.name) } : {})
       });
     }
   }
 
+  const { maxMissing, maxCostUsd } = typeof thresholds === "number" ? { maxMissing: thresholds } : thresholds;
+  const cost = prices || maxCostUsd != null ? priceMissingCards(missingCards, prices ?? {}) : null;
+  const withinCopies = maxMissing == null || totalMissing <= maxMissing;
+  // With unpriced copies the cost is only a lower bound, so it cannot prove the deck fits the budget.
+  const withinCost = maxCostUsd == null || (!cost?.unpricedMissing && (cost?.missingCostUsd ?? 0) <= maxCostUsd);
+
   const status: ComparisonStatus =
-    totalMissing === 0 ? "buildable" : totalMissing <= maxMissing ? "close" : "unbuildable";
+    totalMissing === 0 ? "buildable" : withinCopies && withinCost ? "close" : "unbuildable";
 
-  return { deck: hydrated, missingCards, totalMissing, status };
+  return { deck: hydrated, missingCards, totalMissing, ...cost, status };
 }
 
 export function compareDecks(
   decks: PersistedDeck[],
   inventory: Inventory,
-  maxMissing: number
+  thresholds: number | StatusThresholds,
+  prices?: PriceMap,
+  printings?: InventoryPrinting[]
 ): DeckComparison[] {
-  return decks.map((deck) => compareDeck(deck, inventory, maxMissing));
+  return decks.map((deck) => compareDeck(deck, inventory, thresholds, prices, printings));
 }
 
+function priceMissingCards(missingCards: MissingCard[], prices: PriceMap) {
+  return missingCards.reduce(
+    (acc, card) => {
+      const price = prices[card.name];
+      if (price == null) {
+        acc.unpricedMissing += card.missing;
+      } else {
+        acc.missingCostUsd = roundCents(acc.missingCostUsd + price * card.missing);
+      }
+      return acc;
+    },
+    { missingCostUsd: 0, unpricedMissing: 0 }
+  );
+}
+
+/**
+ * Copies of each card to buy before the deck compares as complete. `compareDeck` checks every
+ * section against the whole inventory on its own, so a card short in both the main deck and the
+ * sideboard needs the larger of the two shortfalls, not their sum.
+ */
+export function missingCopiesByCard(comparison: DeckComparison): Inventory {
+  return comparison.missingCards.reduce<Inventory>((acc, card) => {
+    acc[card.name] = Math.max(acc[card.name] ?? 0, card.missing);
+    return acc;
+  }, {});
+}
+
+export const DECK_BUCKET_ORDER: DeckBucket[] = ["legend", "champion", "main", "battlefields", "runes", "sideboard"];
+
+export const DECK_BUCKET_LABELS: Record<DeckBucket, string> = {
+  legend: "Legend",
+  champion: "Chosen champion",
+  main: "Main deck",
+  battlefields: "Battlefields",
+  runes: "Runes",
+  sideboard: "Sideboard"
+};
+
 export function collectDeckRequirements(deck: DeckExport): RequirementEntry[] {
-  const order: DeckBucket[] = ["main", "battlefields", "runes", "sideboard"];
-  return order.flatMap((bucket) => deck[bucket].map((card) => ({ ...card, bucket })));
+  // Decks persisted before legend/champion were split out lack those buckets entirely.
+  return DECK_BUCKET_ORDER.flatMap((bucket) =>
+    (deck[bucket] ?? []).map((card) => ({
+      ...card,
+      name: canonicalCardName(card.name) ?? card.name,
+      displayName: deckCardName(card.name),
+      bucket
+    }))
+  );
 }
 
-function ensureParsed(deck: PersistedDeck): PersistedDeck & { parsed: DeckExport } {
-  if (deck.parsed) {
+export function ensureParsed(deck: PersistedDeck): PersistedDeck & { parsed: DeckExport } {
+  // Payloads saved before legend/champion were split out are re-parsed when the export text is available.
+  if (deck.parsed && (deck.parsed.legend || !deck.exportText)) {
     return deck as PersistedDeck & { parsed: DeckExport };
   }
 
@@ -113,6 +255,7 @@ function ensureParsed(deck: PersistedDeck): PersistedDeck & { parsed: DeckExport
 
   return {
     ...deck,
-    parsed: parseExportedDeck(deck.exportText)
+    // Lenient, so one unreadable line does not take the deck (or a whole comparison) down with it.
+    parsed: parseDeckText(deck.exportText).deck
   };
 }
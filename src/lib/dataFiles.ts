@@ -0,0 +1,149 @@
+import fs from "node:fs/promises";
+import path from "node:path";
+import { DECK_BUCKET_ORDER, reconcileInventory, type Inventory, type InventoryReconciliation } from "./comparison.js";
+import { importDeck } from "./deckImporters.js";
+import { formatParseIssue, parseDeckText, type DeckExport, type ParseIssue } from "./deckParser.js";
+import { extractPrices, mergePrices, normalizePrices, type PriceMap } from "./prices.js";
+import { DECK_SOURCES, type DeckSource, type DeckVersion, type PersistedDeck } from "./types.js";
+
+type LoadedDeck = PersistedDeck & { parsed: DeckExport };
+
+/** A parser diagnostic together with the label of the deck it belongs to. */
+export type DeckFileIssue = ParseIssue & { deck: string };
+
+/**
+ * Reads a scraper payload and makes sure every deck carries a current `parsed` breakdown.
+ * Payloads saved before legend/champion were split out are re-parsed from their export text.
+ * Any other file is read as a single deck list in one of the formats `importDeck` detects.
+ */
+export async function loadDecks(filePath: string): Promise<LoadedDeck[]> {
+  return (await loadDeckFile(filePath)).decks;
+}
+
+/**
+ * Like `loadDecks`, but also returns the parser diagnostics for every deck's export text. With
+ * `strict`, any error or warning fails the load instead.
+ */
+export async function loadDeckFile(filePath: string, options: { strict?: boolean } = {}): Promise<{ decks: LoadedDeck[]; issues: DeckFileIssue[] }> {
+  const raw = await fs.readFile(filePath, "utf8");
+  const data = parseJson(raw);
+  const isSnapshot = Array.isArray(data) && (data.length === 0 || data.some((entry) => entry && typeof entry === "object" && "exportText" in entry));
+  const loaded = isSnapshot ? data.map(loadSnapshotDeck) : [loadDeckList(filePath, raw)];
+
+  const issues = loaded.flatMap(({ deck, issues: deckIssues }) => deckIssues.map((issue) => ({ ...issue, deck: deck.label })));
+  if (options.strict && issues.length > 0) {
+    const details = issues.map((issue) => `  ${issue.deck}: ${formatParseIssue(issue)}`).join("\n");
+    throw new Error(`Deck file ${filePath} has ${issues.length} parse issue(s) (strict mode):\n${details}`);
+  }
+  return { decks: loaded.map(({ deck }) => deck), issues };
+}
+
+function loadSnapshotDeck(entry: unknown): { deck: LoadedDeck; issues: ParseIssue[] } {
+  if (!isRecord(entry) || typeof entry.slug !== "string" || typeof entry.exportText !== "string") {
+    throw new Error("Encountered malformed deck entry.");
+  }
+
+  // Unreadable lines are skipped and reported rather than failing the whole file; `strict` turns them into an error.
+  const { deck: reparsed, issues } = parseDeckText(entry.exportText);
+  const deck: LoadedDeck = {
+    slug: entry.slug,
+    label: typeof entry.label === "string" ? entry.label : entry.slug,
+    url: typeof entry.url === "string" ? entry.url : "",
+    exportText: entry.exportText,
+    parsed: isDeckExport(entry.parsed) ? entry.parsed : reparsed
+  };
+
+  if (isDeckSource(entry.source)) {
+    deck.source = entry.source;
+  }
+  if (typeof entry.rank === "number") {
+    deck.rank = entry.rank;
+  }
+  for (const key of ["hash", "firstSeen", "lastSeen", "fetchedAt", "changedAt"] as const) {
+    const value = entry[key];
+    if (typeof value === "string") {
+      deck[key] = value;
+    }
+  }
+  if (Array.isArray(entry.versions)) {
+    deck.versions = entry.versions.filter(isDeckVersion);
+  }
+  return { deck, issues };
+}
+
+/** A stored breakdown is only reused when it has every section, so payloads from before the legend/champion split are re-parsed. */
+function isDeckExport(value: unknown): value is DeckExport {
+  return (
+    isRecord(value) &&
+    DECK_BUCKET_ORDER.every((bucket) => {
+      const entries = value[bucket];
+      return Array.isArray(entries) && entries.every((entry) => isRecord(entry) && typeof entry.name === "string" && typeof entry.count === "number");
+    })
+  );
+}
+
+function isDeckSource(value: unknown): value is DeckSource {
+  return DECK_SOURCES.some((source) => source === value);
+}
+
+function isDeckVersion(value: unknown): value is DeckVersion {
+  return (
+    isRecord(value) &&
+    typeof value.hash === "string" &&
+    typeof value.exportText === "string" &&
+    typeof value.since === "string" &&
+    typeof value.until === "string"
+  );
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function loadDeckList(filePath: string, text: string): { deck: LoadedDeck; issues: ParseIssue[] } {
+  const name = path.basename(filePath, path.extname(filePath));
+  try {
+    const imported = importDeck(text);
+    return {
+      deck: { slug: `file-${name}`, label: name, url: "", exportText: imported.exportText, source: "user", parsed: imported.parsed },
+      issues: imported.issues
+    };
+  } catch (error) {
+    throw new Error(`Deck file ${filePath} is neither a deck snapshot nor a deck list: ${error instanceof Error ? error.message : String(error)}`);
+  }
+}
+
+function parseJson(raw: string): unknown {
+  try {
+    return JSON.parse(raw);
+  } catch {
+    return undefined;
+  }
+}
+
+export async function loadInventory(filePath: string): Promise<Inventory> {
+  return (await loadReconciledInventory(filePath)).inventory;
+}
+
+/** Like `loadInventory`, but also returns the entries that could not be mapped to a known card. */
+export async function loadReconciledInventory(filePath: string): Promise<InventoryReconciliation> {
+  const raw = await fs.readFile(filePath, "utf8");
+  const data = JSON.parse(raw);
+  const reconciled = reconcileInventory(data);
+
+  if (Object.keys(reconciled.inventory).length === 0) {
+    throw new Error(`Inventory file ${filePath} does not contain any card counts.`);
+  }
+
+  return reconciled;
+}
+
+/**
+ * Builds a price map from the `priceUsd` values of an inventory scrape and, optionally, a local
+ * price file. Prices from the price file win over the scrape.
+ */
+export async function loadPrices(inventoryPath?: string, pricesPath?: string): Promise<PriceMap> {
+  const fromInventory = inventoryPath ? extractPrices(JSON.parse(await fs.readFile(inventoryPath, "utf8"))) : {};
+  const fromFile = pricesPath ? normalizePrices(JSON.parse(await fs.readFile(pricesPath, "utf8"))) : {};
+  return mergePrices(fromInventory, fromFile);
+}
@@ -0,0 +1,86 @@
+import { cards, getCardByName, type Card, type CardType } from "./cardDb.js";
+import type { DeckBucket } from "./comparison.js";
+import type { DeckExport } from "./deckParser.js";
+
+export type CardSearch = {
+  /** Matched against the card name and public code, case-insensitively. */
+  text?: string;
+  cardType?: CardType;
+  domain?: string;
+  energy?: number;
+  rarity?: string;
+};
+
+export type CardSearchOptions = {
+  cardTypes: CardType[];
+  domains: string[];
+  rarities: string[];
+  energies: number[];
+};
+
+/** One base printing per card name, in card data order; Showcase printings share their base card's name. */
+const searchableCards: Card[] = [...new Set(cards.map((card) => card.name))].map((name) => getCardByName(name) as Card);
+
+/** Cards from the card database matching every given filter, sorted by name. */
+export function searchCards(search: CardSearch, limit = 60): Card[] {
+  const text = search.text?.trim().toLowerCase();
+  return searchableCards
+    .filter(
+      (card) =>
+        (!text || card.name.toLowerCase().includes(text) || card.publicCode.toLowerCase().includes(text)) &&
+        (!search.cardType || card.cardType === search.cardType) &&
+        (!search.domain || card.domains.includes(search.domain)) &&
+        (search.energy == null || card.energy === search.energy) &&
+        (!search.rarity || card.rarity === search.rarity)
+    )
+    .sort((a, b) => a.name.localeCompare(b.name))
+    .slice(0, limit);
+}
+
+/** The values each `searchCards` filter can take, for building the filter controls. */
+export function cardSearchOptions(): CardSearchOptions {
+  const distinct = <T>(values: T[]) => [...new Set(values)];
+  return {
+    cardTypes: distinct(searchableCards.map((card) => card.cardType)).sort(),
+    domains: distinct(searchableCards.flatMap((card) => card.domains)).sort(),
+    rarities: distinct(searchableCards.map((card) => card.rarity).filter(Boolean)).sort(),
+    energies: distinct(searchableCards.map((card) => card.energy).filter((energy): energy is number => energy != null)).sort((a, b) => a - b)
+  };
+}
+
+/** Sections a card may go into, the usual one first. Units can also be the chosen champion. */
+export function bucketsForCard(card: Card): DeckBucket[] {
+  switch (card.cardType) {
+    case "Legend":
+      return ["legend"];
+    case "Battlefield":
+      return ["battlefields"];
+    case "Rune":
+      return ["runes"];
+    case "Unit":
+      return ["main", "champion", "sideboard"];
+    default:
+      return ["main", "sideboard"];
+  }
+}
+
+export function emptyDeckExport(): DeckExport {
+  return { legend: [], champion: [], main: [], battlefields: [], runes: [], sideboard: [] };
+}
+
+/**
+ * Adds `delta` copies of a card to one section (or removes them when negative). Entries that
+ * drop to zero are removed; new cards are appended to the end of the section.
+ */
+export function adjustDeckCard(deck: DeckExport, bucket: DeckBucket, name: string, delta: number): DeckExport {
+  const entries = deck[bucket] ?? [];
+  const existing = entries.find((entry) => entry.name === name && !entry.printing);
+  const count = Math.max(0, (existing?.count ?? 0) + delta);
+
+  const next = existing
+    ? entries.map((entry) => (entry === existing ? { ...entry, count } : entry)).filter((entry) => entry.count > 0)
+    : count > 0
+      ? [...entries, { count, name }]
+      : entries;
+  return { ...deck, [bucket]: next };
+}
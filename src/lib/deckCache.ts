@@ -0,0 +1,83 @@
+import { createHash } from "node:crypto";
+import fs from "node:fs/promises";
+import type { DeckVersion, PersistedDeck, ScrapedDeck } from "./types.js";
+
+export const DEFAULT_DECK_TTL_HOURS = 24;
+
+/** Line endings and surrounding whitespace are normalised so a re-export of the same list hashes the same. */
+export function hashExportText(exportText: string): string {
+  const normalized = exportText.replace(/\r\n?/g, "\n").trim();
+  return createHash("sha256").update(normalized).digest("hex").slice(0, 16);
+}
+
+/**
+ * Reads a previous scraper payload to use as the deck cache. A missing file is an empty cache;
+ * anything else that cannot be read is an error, so a typo in `--out` never silently discards data.
+ */
+export async function loadDeckCache(filePath: string): Promise<Map<string, PersistedDeck>> {
+  const raw = await fs.readFile(filePath, "utf8").catch((error: NodeJS.ErrnoException) => {
+    if (error.code === "ENOENT") {
+      return null;
+    }
+    throw error;
+  });
+  if (raw == null) {
+    return new Map();
+  }
+
+  const data = JSON.parse(raw);
+  if (!Array.isArray(data)) {
+    throw new Error(`Deck file ${filePath} must contain an array.`);
+  }
+
+  return new Map((data as PersistedDeck[]).map((deck) => [deck.slug, deck]));
+}
+
+/** True when the cached export was downloaded less than `ttlMs` ago. */
+export function isFresh(deck: PersistedDeck | undefined, now: Date, ttlMs: number): deck is PersistedDeck {
+  if (!deck?.fetchedAt || !deck.exportText || ttlMs <= 0) {
+    return false;
+  }
+
+  const fetchedAt = Date.parse(deck.fetchedAt);
+  return Number.isFinite(fetchedAt) && now.getTime() - fetchedAt < ttlMs;
+}
+
+/**
+ * Adds the cache fields to a deck seen in this run. `fetched` says whether its export was
+ * downloaded now or reused from `previous`, which decides whether `fetchedAt` moves. When the
+ * export hash differs from `previous`, the old export is appended to `versions`.
+ */
+export function stampDeck(deck: ScrapedDeck, previous: PersistedDeck | undefined, now: Date, fetched: boolean): PersistedDeck {
+  const timestamp = now.toISOString();
+  const hash = hashExportText(deck.exportText);
+  const previousHash = previous?.exportText ? hashExportText(previous.exportText) : undefined;
+  const changed = previousHash != null && previousHash !== hash;
+
+  const versions: DeckVersion[] = [...(previous?.versions ?? [])];
+  if (changed && previous) {
+    versions.push({
+      hash: previousHash,
+      exportText: previous.exportText,
+      since: previous.changedAt ?? previous.firstSeen ?? previous.fetchedAt ?? timestamp,
+      until: timestamp
+    });
+  }
+
+  return {
+    ...previous,
+    ...deck,
+    hash,
+    firstSeen: previous?.firstSeen ?? timestamp,
+    lastSeen: timestamp,
+    fetchedAt: fetched ? timestamp : previous?.fetchedAt ?? timestamp,
+    changedAt: changed || !previous ? timestamp : previous.changedAt ?? previous.firstSeen ?? timestamp,
+    ...(versions.length ? { versions } : {})
+  };
+}
+
+/** Decks from this run come first in scrape order, followed by cached decks this run did not list. */
+export function mergeDeckCache(cache: Map<string, PersistedDeck>, updates: PersistedDeck[]): PersistedDeck[] {
+  const updated = new Set(updates.map((deck) => deck.slug));
+  return [...updates, ...[...cache.values()].filter((deck) => !updated.has(deck.slug))];
+}
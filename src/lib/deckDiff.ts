@@ -0,0 +1,139 @@
+import {
+  collectDeckRequirements,
+  compareDeck,
+  DECK_BUCKET_ORDER,
+  type ComparisonStatus,
+  type DeckBucket,
+  type Inventory,
+  type StatusThresholds
+} from "./comparison.js";
+import { parseDeckText, type DeckExport } from "./deckParser.js";
+import type { PriceMap } from "./prices.js";
+import type { PersistedDeck } from "./types.js";
+
+export type CardChange = {
+  name: string;
+  before: number;
+  after: number;
+};
+
+export type BucketDiff = {
+  bucket: DeckBucket;
+  /** Cards whose count went up, including new cards (`before: 0`). */
+  added: CardChange[];
+  /** Cards whose count went down, including dropped cards (`after: 0`). */
+  removed: CardChange[];
+};
+
+export type DeckDiff = {
+  /** Only buckets with at least one change, in `DECK_BUCKET_ORDER`. */
+  buckets: BucketDiff[];
+  copiesAdded: number;
+  copiesRemoved: number;
+};
+
+export type DeckVersionRef = {
+  /** 1-based, oldest first; the current export has the highest number. */
+  number: number;
+  hash?: string;
+  exportText: string;
+  since?: string;
+  /** Unset for the current export. */
+  until?: string;
+};
+
+export type DeckVersionDiff = {
+  from: DeckVersionRef;
+  to: DeckVersionRef;
+  diff: DeckDiff;
+  /** Only set when an inventory was supplied. */
+  statusBefore?: ComparisonStatus;
+  statusAfter?: ComparisonStatus;
+};
+
+export type DeckHistoryOptions = {
+  inventory?: Inventory;
+  /** Defaults to 4 missing copies, like the CLIs. */
+  thresholds?: number | StatusThresholds;
+  prices?: PriceMap;
+};
+
+/** Card-level adds and removes per bucket. Names are canonicalized first, so spelling drift is not a change. */
+export function diffDeckExports(before: DeckExport, after: DeckExport): DeckDiff {
+  const countsBefore = countByBucket(before);
+  const countsAfter = countByBucket(after);
+
+  const buckets = DECK_BUCKET_ORDER.map((bucket) => {
+    const previous = countsBefore.get(bucket) ?? new Map<string, number>();
+    const next = countsAfter.get(bucket) ?? new Map<string, number>();
+    const names = [...new Set([...previous.keys(), ...next.keys()])].sort((a, b) => a.localeCompare(b));
+
+    const changes = names
+      .map((name) => ({ name, before: previous.get(name) ?? 0, after: next.get(name) ?? 0 }))
+      .filter((change) => change.before !== change.after);
+
+    return {
+      bucket,
+      added: changes.filter((change) => change.after > change.before),
+      removed: changes.filter((change) => change.after < change.before)
+    };
+  }).filter((entry) => entry.added.length > 0 || entry.removed.length > 0);
+
+  return {
+    buckets,
+    copiesAdded: sumChanges(buckets.flatMap((entry) => entry.added)),
+    copiesRemoved: sumChanges(buckets.flatMap((entry) => entry.removed))
+  };
+}
+
+/** Every known export of a deck, oldest first, ending with the current one. */
+export function listDeckVersions(deck: PersistedDeck): DeckVersionRef[] {
+  const previous = (deck.versions ?? []).map((version, index) => ({ number: index + 1, ...version }));
+  return [
+    ...previous,
+    {
+      number: previous.length + 1,
+      hash: deck.hash,
+      exportText: deck.exportText,
+      since: deck.changedAt ?? deck.firstSeen
+    }
+  ];
+}
+
+/**
+ * Diffs each consecutive pair of versions, newest change first. With an inventory, both sides are
+ * also compared against it so callers can flag edits that moved the deck's status.
+ */
+export function diffDeckHistory(deck: PersistedDeck, options: DeckHistoryOptions = {}): DeckVersionDiff[] {
+  const versions = listDeckVersions(deck);
+  const parsed = versions.map((version) => parseDeckText(version.exportText).deck);
+  const { inventory, thresholds = { maxMissing: 4 }, prices } = options;
+  const statuses = inventory
+    ? versions.map(
+        (version, index) =>
+          compareDeck({ ...deck, exportText: version.exportText, parsed: parsed[index] }, inventory, thresholds, prices).status
+      )
+    : [];
+
+  return versions
+    .slice(1)
+    .map((to, index) => ({
+      from: versions[index],
+      to,
+      diff: diffDeckExports(parsed[index], parsed[index + 1]),
+      ...(inventory ? { statusBefore: statuses[index], statusAfter: statuses[index + 1] } : {})
+    }))
+    .reverse();
+}
+
+function countByBucket(deck: DeckExport): Map<DeckBucket, Map<string, number>> {
+  return collectDeckRequirements(deck).reduce((acc, card) => {
+    const bucket = acc.get(card.bucket) ?? new Map<string, number>();
+    bucket.set(card.name, (bucket.get(card.name) ?? 0) + card.count);
+    return acc.set(card.bucket, bucket);
+  }, new Map<DeckBucket, Map<string, number>>());
+}
+
+function sumChanges(changes: CardChange[]): number {
+  return changes.reduce((sum, change) => sum + Math.abs(change.after - change.before), 0);
+}
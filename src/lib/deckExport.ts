@@ -0,0 +1,212 @@
+import { findCard } from "./cardDb.js";
+import { DECK_BUCKET_LABELS, DECK_BUCKET_ORDER, type DeckBucket } from "./comparison.js";
+import { formatExportedDeck, type DeckExport } from "./deckParser.js";
+import { formatPrintingRequirement } from "./printings.js";
+import { csvCell } from "./util.js";
+
+export type DeckExportFormat = "text" | "csv" | "json" | "html";
+
+export const DECK_EXPORT_FORMATS: DeckExportFormat[] = ["text", "csv", "json", "html"];
+
+export const DECK_EXPORT_MIME_TYPES: Record<DeckExportFormat, string> = {
+  text: "text/plain",
+  csv: "text/csv",
+  json: "application/json",
+  html: "text/html"
+};
+
+export type ExportableDeck = {
+  label: string;
+  url?: string;
+  parsed: DeckExport;
+};
+
+/** One deck line with the card data the CSV, JSON and HTML formats carry. */
+export type DeckExportRow = {
+  section: DeckBucket;
+  count: number;
+  name: string;
+  /** `[...]` printing requirement, as written in the deck list. */
+  printing: string | null;
+  publicCode: string | null;
+  setName: string | null;
+  cardType: string | null;
+  rarity: string | null;
+  domains: string[];
+  energy: number | null;
+  power: number | null;
+};
+
+export type DeckExportSection = {
+  section: DeckBucket;
+  label: string;
+  copies: number;
+  /** Copies per card type; cards missing from the card database count as "Unknown". */
+  typeCounts: Record<string, number>;
+  rows: DeckExportRow[];
+};
+
+export type DeckExportOptions = {
+  /** Registration sheet fields; left blank to fill in by hand when missing. */
+  player?: string;
+  event?: string;
+  date?: string;
+};
+
+export function exportDeck(deck: ExportableDeck, format: DeckExportFormat, options: DeckExportOptions = {}): string {
+  if (format === "text") {
+    return formatExportedDeck(deck.parsed);
+  }
+
+  const sections = buildDeckExportSections(deck.parsed);
+  if (format === "json") {
+    return JSON.stringify(
+      {
+        label: deck.label,
+        url: deck.url || undefined,
+        exportText: formatExportedDeck(deck.parsed),
+        sections: sections.map(({ rows, ...section }) => ({ ...section, cards: rows.map(({ section: _section, ...row }) => row) }))
+      },
+      null,
+      2
+    );
+  }
+
+  if (format === "csv") {
+    const rows = sections.flatMap((section) =>
+      section.rows.map((row) =>
+        [
+          row.section,
+          row.count,
+          csvCell(row.name),
+          csvCell(row.printing ?? ""),
+          row.publicCode ?? "",
+          csvCell(row.setName ?? ""),
+          row.cardType ?? "",
+          row.rarity ?? "",
+          csvCell(row.domains.join(" ")),
+          row.energy ?? "",
+          row.power ?? ""
+        ].join(",")
+      )
+    );
+    return ["section,count,name,printing,public_code,set,card_type,rarity,domains,energy,power", ...rows].join("\n");
+  }
+
+  return formatRegistrationSheet(deck, sections, options);
+}
+
+/** Every non-empty section of the deck in registration order, with card data looked up per line. */
+export function buildDeckExportSections(deck: DeckExport): DeckExportSection[] {
+  return DECK_BUCKET_ORDER.filter((bucket) => deck[bucket]?.length).map((bucket) => {
+    const rows = deck[bucket].map((entry): DeckExportRow => {
+      const card = findCard(entry.name);
+      return {
+        section: bucket,
+        count: entry.count,
+        name: entry.name,
+        printing: entry.printing ? formatPrintingRequirement(entry.printing) : null,
+        publicCode: card?.publicCode || null,
+        setName: card?.setName || null,
+        cardType: card?.cardType ?? null,
+        rarity: card?.rarity || null,
+        domains: card?.domains ?? [],
+        energy: card?.energy ?? null,
+        power: card?.power ?? null
+      };
+    });
+
+    return {
+      section: bucket,
+      label: DECK_BUCKET_LABELS[bucket],
+      copies: rows.reduce((sum, row) => sum + row.count, 0),
+      typeCounts: rows.reduce<Record<string, number>>((acc, row) => {
+        const type = row.cardType ?? "Unknown";
+        acc[type] = (acc[type] ?? 0) + row.count;
+        return acc;
+      }, {}),
+      rows
+    };
+  });
+}
+
+/**
+ * A printable, self-contained HTML deck registration sheet: player and event fields, then one
+ * table per section with card type subtotals. The chosen champion counts towards the main deck
+ * total, as in the construction rules.
+ */
+function formatRegistrationSheet(deck: ExportableDeck, sections: DeckExportSection[], options: DeckExportOptions): string {
+  const mainTotal = sections
+    .filter((section) => section.section === "main" || section.section === "champion")
+    .reduce((sum, section) => sum + section.copies, 0);
+
+  const fields = [
+    ["Player", options.player],
+    ["Event", options.event],
+    ["Date", options.date],
+    ["Deck", deck.label]
+  ]
+    .map(([label, value]) => `<div class="field"><span>${label}</span><strong>${escapeHtml(value ?? "")}</strong></div>`)
+    .join("\n      ");
+
+  const tables = sections
+    .map((section) => {
+      const rows = section.rows
+        .map(
+          (row) =>
+            `<tr><td class="count">${row.count}</td><td>${escapeHtml(row.name)}${row.printing ? ` <em>${escapeHtml(row.printing)}</em>` : ""}</td><td>${escapeHtml(row.publicCode?.split("/")[0] ?? "")}</td><td>${escapeHtml(row.cardType ?? "")}</td></tr>`
+        )
+        .join("\n          ");
+      const subtotals = Object.entries(section.typeCounts)
+        .sort(([a], [b]) => a.localeCompare(b))
+        .map(([type, count]) => `${escapeHtml(type)}: ${count}`)
+        .join(" · ");
+      return `<section>
+      <h2>${escapeHtml(section.label)} <small>${section.copies}</small></h2>
+      <table>
+        <thead><tr><th>Qty</th><th>Card</th><th>Code</th><th>Type</th></tr></thead>
+        <tbody>
+          ${rows}
+        </tbody>
+      </table>
+      <p class="subtotal">${subtotals}</p>
+    </section>`;
+    })
+    .join("\n    ");
+
+  return `<!doctype html>
+<html lang="en">
+  <head>
+    <meta charset="utf-8" />
+    <title>${escapeHtml(deck.label)} · Deck registration</title>
+    <style>
+      body { font-family: system-ui, sans-serif; color: #111; margin: 2rem; }
+      h1 { font-size: 1.4rem; margin: 0 0 1rem; }
+      h2 { font-size: 1rem; margin: 1.2rem 0 0.4rem; border-bottom: 2px solid #111; }
+      h2 small { float: right; font-weight: normal; }
+      .fields { display: grid; grid-template-columns: repeat(2, 1fr); gap: 0.5rem 2rem; }
+      .field { display: flex; gap: 0.5rem; border-bottom: 1px solid #999; padding: 0.3rem 0; }
+      .field span { width: 4rem; color: #555; }
+      table { width: 100%; border-collapse: collapse; font-size: 0.9rem; }
+      th, td { text-align: left; padding: 0.2rem 0.4rem; border-bottom: 1px solid #ddd; }
+      td.count { width: 2.5rem; text-align: right; }
+      em { color: #555; font-style: normal; font-size: 0.8rem; }
+      .subtotal, .total { font-size: 0.8rem; color: #333; margin: 0.3rem 0 0; }
+      .total { font-weight: bold; margin-top: 1rem; }
+      @media print { body { margin: 0.5in; } section { break-inside: avoid; } }
+    </style>
+  </head>
+  <body>
+    <h1>Deck registration sheet</h1>
+    <div class="fields">
+      ${fields}
+    </div>
+    ${tables}
+    <p class="total">Main deck including chosen champion: ${mainTotal}</p>
+  </body>
+</html>`;
+}
+
+function escapeHtml(value: string): string {
+  return value.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;").replace(/"/g, "&quot;");
+}
@@ -0,0 +1,399 @@
+import { findCard, getCardByPublicCode, resolveCard } from "./cardDb.js";
+import {
+  checkDeckEntries,
+  formatCardLine,
+  formatExportedDeck,
+  parseDeckText,
+  type CardEntry,
+  type DeckExport,
+  type DeckParseResult,
+  type ParseIssue,
+  type PlacedEntry
+} from "./deckParser.js";
+import { splitPrintingRequirement } from "./printings.js";
+
+export type DeckBucketName = keyof DeckExport;
+
+/**
+ * A deck list format. `detect` should only accept text it is sure about; the registry tries the
+ * importers in order and the generic text importer catches everything else.
+ */
+export type DeckImporter = {
+  id: string;
+  label: string;
+  detect: (text: string) => boolean;
+  parse: (text: string) => DeckParseResult;
+};
+
+export type ImportedDeck = {
+  /** Id of the importer that read the text. */
+  format: string;
+  formatLabel: string;
+  parsed: DeckExport;
+  /** The deck in the Piltover Archive layout, so it can be stored and re-parsed like a scraped deck. */
+  exportText: string;
+  issues: ParseIssue[];
+};
+
+const CODE_TOKEN = /^([A-Z]{2,4}-\d{1,3}[a-z*]?)(?:\/\d+)?$/i;
+const CODE_WITH_COUNT = /^([A-Z]{2,4}-\d{1,3}[a-z*]?(?:\/\d+)?)(?:[x×*:](\d+))?$/i;
+const PILTOVER_LINE = /^\d+\s+\S/;
+const CODE_IN_NAME = /\b[A-Z]{2,4}-\d{1,3}[a-z*]?\b/i;
+
+const SECTION_ALIASES: Array<[RegExp, DeckBucketName | null]> = [
+  [/^legends?$/, "legend"],
+  [/^(?:chosen )?champions?$/, "champion"],
+  [/^(?:main(?: ?deck)?|deck|units?|spells?|gears?|cards?)$/, "main"],
+  [/^battlefields?$/, "battlefields"],
+  [/^runes?(?: deck)?$/, "runes"],
+  [/^(?:sideboard|side ?deck|side)$/, "sideboard"]
+];
+
+/** Piltover Archive "Export as Text": `N Card Name` lines in blank-line separated groups. */
+const piltoverImporter: DeckImporter = {
+  id: "piltover",
+  label: "Piltover Archive text",
+  detect: (text) => {
+    const lines = contentLines(text);
+    return (
+      lines.some((line) => PILTOVER_LINE.test(line)) &&
+      lines.every((line) => (PILTOVER_LINE.test(line) && !CODE_IN_NAME.test(line)) || /^Sideboard:?$/i.test(line))
+    );
+  },
+  parse: (text) => parseDeckText(text)
+};
+
+/** Whitespace- or comma-separated card codes (`OGN-001 OGN-001 OGS-012x2`), as used by Tabletop Simulator deck loaders. */
+const codeListImporter: DeckImporter = {
+  id: "codes",
+  label: "Card code list",
+  detect: (text) => {
+    const tokens = codeTokens(text);
+    return tokens.length > 0 && tokens.every((token) => CODE_WITH_COUNT.test(token));
+  },
+  parse: (text) => {
+    const placed: PlacedEntry[] = [];
+    const issues: ParseIssue[] = [];
+    text.split(/\r?\n/).forEach((line, index) => {
+      codeTokens(line).forEach((token) => {
+        const [, code, count] = token.match(CODE_WITH_COUNT) ?? [];
+        const card = code ? getCardByPublicCode(code) : null;
+        if (!card) {
+          issues.push({ line: index + 1, severity: "error", message: `Unknown card code ${code ?? token}.` });
+          return;
+        }
+        const entry = { count: count ? Number(count) : 1, name: card.name };
+        placed.push({ bucket: entryBucket(null, entry), entry, line: index + 1 });
+      });
+    });
+    return finishDeck(placed, issues);
+  }
+};
+
+/**
+ * JSON exports from other deckbuilders: either an array of card entries or an object whose keys are
+ * sections (`legend`, `mainDeck`, `runes`, ...). Entries may be strings (`"3x Cleave"`) or objects
+ * with a name or code and a count.
+ */
+const jsonImporter: DeckImporter = {
+  id: "json",
+  label: "JSON deck export",
+  detect: (text) => /^[[{]/.test(text.trim()) && tryParseJson(text) !== undefined,
+  parse: (text) => {
+    const data = tryParseJson(text);
+    if (data && typeof data === "object" && !Array.isArray(data) && typeof (data as { exportText?: unknown }).exportText === "string") {
+      const { parsed, issues } = importDeck((data as { exportText: string }).exportText);
+      return { deck: parsed, issues };
+    }
+
+    const placed: PlacedEntry[] = [];
+    const issues: ParseIssue[] = [];
+    const sections: Array<[string, unknown]> = Array.isArray(data) ? [["", data]] : Object.entries(data as Record<string, unknown>);
+    sections.forEach(([key, value]) => {
+      const section = sectionBucket(key);
+      // Unknown keys ("name", "author", ...) are metadata unless they hold a list of cards.
+      if (key && section === undefined && !Array.isArray(value)) {
+        return;
+      }
+      (Array.isArray(value) ? value : [value]).forEach((item) => {
+        const entry = readJsonEntry(item);
+        if (!entry) {
+          issues.push({ line: null, severity: "error", message: `Could not read ${key ? `"${key}" ` : ""}entry ${JSON.stringify(item)}.` });
+        } else if (entry.count <= 0) {
+          issues.push({ line: null, severity: "warning", message: `${entry.name} has a count of 0 and was skipped.` });
+        } else {
+          placed.push({ bucket: entryBucket(section ?? null, entry), entry, line: null });
+        }
+      });
+    });
+    return finishDeck(placed, issues);
+  }
+};
+
+/**
+ * Any other text list: `3 Card`, `3x Card`, `x3 Card` or `Card x3` lines, card codes in place of
+ * or next to names (`2 OGN-004`, `2 Cleave (OGN-004)`), and optional section headers such as
+ * "Legend:" or "# Runes". Without headers the blank-line grouping of the Piltover export is used.
+ */
+const textImporter: DeckImporter = {
+  id: "text",
+  label: "Deck list text",
+  detect: () => true,
+  parse: (text) => {
+    const lines = text.split(/\r?\n/).map(readTextLine);
+    // A lone "Sideboard:" header is part of the Piltover layout, so it does not switch to section mode.
+    if (!lines.some((line) => line.kind === "section" && line.bucket !== "sideboard")) {
+      const { deck, issues } = parseDeckText(text, (line) => {
+        const read = readTextLine(line);
+        return read.kind === "card" ? read.entry : read.kind === "invalid" ? null : "ignore";
+      });
+      return { deck: inferChampion(mergeDeck(deck)), issues };
+    }
+
+    const placed: PlacedEntry[] = [];
+    const issues: ParseIssue[] = [];
+    let section: DeckBucketName | null = null;
+    let sideboardSeen = false;
+    lines.forEach((line, index) => {
+      const lineNumber = index + 1;
+      if (line.kind === "section") {
+        if (line.bucket === "sideboard" && sideboardSeen) {
+          issues.push({ line: lineNumber, severity: "warning", message: "Sideboard header appears more than once." });
+        }
+        sideboardSeen ||= line.bucket === "sideboard";
+        section = line.bucket;
+      } else if (line.kind === "invalid") {
+        issues.push({ line: lineNumber, severity: "error", message: line.message });
+      } else if (line.kind === "card" && line.entry.count <= 0) {
+        issues.push({ line: lineNumber, severity: "warning", message: `${line.entry.name} has a count of 0 and was skipped.` });
+      } else if (line.kind === "card") {
+        placed.push({ bucket: entryBucket(section, line.entry), entry: line.entry, line: lineNumber });
+      }
+    });
+    return finishDeck(placed, issues);
+  }
+};
+
+const importers: DeckImporter[] = [jsonImporter, codeListImporter, piltoverImporter, textImporter];
+
+/** Adds an importer ahead of the built-in ones, so it gets the first chance to claim a text. */
+export function registerDeckImporter(importer: DeckImporter) {
+  const existing = importers.findIndex((entry) => entry.id === importer.id);
+  if (existing >= 0) {
+    importers.splice(existing, 1);
+  }
+  importers.unshift(importer);
+}
+
+export function listDeckImporters(): Array<Pick<DeckImporter, "id" | "label">> {
+  return importers.map(({ id, label }) => ({ id, label }));
+}
+
+export function detectDeckFormat(text: string): DeckImporter {
+  return importers.find((importer) => importer.detect(text)) ?? textImporter;
+}
+
+/**
+ * Reads a deck list in any registered format; `format` skips detection. Lines that cannot be read
+ * are skipped and reported in `issues` rather than failing the import.
+ */
+export function importDeck(text: string, format?: string): ImportedDeck {
+  if (!text.trim()) {
+    throw new Error("The deck list is empty.");
+  }
+
+  const importer = format ? importers.find((entry) => entry.id === format) : detectDeckFormat(text);
+  if (!importer) {
+    throw new Error(`Unknown deck format ${format}. Use one of: ${importers.map((entry) => entry.id).join(", ")}.`);
+  }
+
+  const { deck: parsed, issues } = importer.parse(text);
+  if (Object.values(parsed).every((entries) => entries.length === 0)) {
+    const reasons = issues.filter((issue) => issue.severity === "error").map((issue) => issue.message);
+    throw new Error(["No cards found in the deck list.", ...reasons.slice(0, 3)].join(" "));
+  }
+
+  const exportText = importer.id === piltoverImporter.id ? text.trim() : formatExportedDeck(parsed);
+  return { format: importer.id, formatLabel: importer.label, parsed, exportText, issues };
+}
+
+type TextLine =
+  | { kind: "blank" }
+  | { kind: "skip" }
+  | { kind: "section"; bucket: DeckBucketName | null }
+  | { kind: "card"; entry: CardEntry }
+  | { kind: "invalid"; message: string };
+
+function readTextLine(rawLine: string): TextLine {
+  const line = rawLine.trim().replace(/^(?:[-*•]\s+)/, "");
+  if (!line || /^(?:\/\/|--)\s*$/.test(line)) {
+    return { kind: "blank" };
+  }
+
+  const header = line.match(/^(?:#+|\/\/)?\s*([A-Za-z][A-Za-z ]*?)\s*(?:\(\d+\))?\s*(:)?$/);
+  if (header) {
+    const bucket = sectionBucket(header[1]);
+    if (bucket !== undefined || header[2]) {
+      return { kind: "section", bucket: bucket ?? null };
+    }
+  }
+
+  // Metadata such as "Deck name: Void Kai'Sa" or "Author: ..." carries no cards.
+  if (/^[A-Za-z][A-Za-z ]*:\s+\S/.test(line)) {
+    return { kind: "skip" };
+  }
+
+  const entry = parseFlexibleLine(line);
+  if (entry) {
+    return { kind: "card", entry };
+  }
+  const hasCode = line.split(/[\s()]+/).some((part) => CODE_TOKEN.test(part));
+  return { kind: "invalid", message: hasCode ? `Unknown card code in line: ${line}` : `Unable to read line without a count: ${line}` };
+}
+
+/**
+ * `3 Card`, `3x Card`, `x3 Card`, `Card x3` or a bare `Card` (one copy); the name may be or carry a
+ * card code. Returns null when the line is only an unknown code, or has no count and names no known
+ * card, so prose and typos are reported instead of imported as one-ofs.
+ */
+function parseFlexibleLine(line: string): CardEntry | null {
+  const prefixed = line.match(/^(\d+)\s*[x×]?\s+(.+)$/i) ?? line.match(/^[x×](\d+)\s+(.+)$/i);
+  const suffixed = prefixed ? null : line.match(/^(.+?)\s+[x×]\s*(\d+)$/i);
+  const count = prefixed ? Number(prefixed[1]) : suffixed ? Number(suffixed[2]) : 1;
+  const rawName = prefixed ? prefixed[2] : suffixed ? suffixed[1] : line;
+
+  const { name, printing } = splitPrintingRequirement(rawName);
+  const resolved = resolveNamedCode(name);
+  if (!resolved || (!prefixed && !suffixed && !resolveCard(resolved))) {
+    return null;
+  }
+  return { count, name: resolved, ...(printing ? { printing } : {}) };
+}
+
+/**
+ * Maps `OGN-004`, `OGN-004 Cleave` and `Cleave (OGN-004)` to the card name. A name next to the code
+ * wins when it is a known card; other names are kept as written.
+ */
+function resolveNamedCode(value: string): string | null {
+  const parts = value.replace(/[()]/g, " ").split(/\s+/).filter(Boolean);
+  const codeIndex = parts.findIndex((part) => CODE_TOKEN.test(part));
+  if (codeIndex < 0) {
+    return value.trim();
+  }
+
+  const rest = parts.filter((_, index) => index !== codeIndex).join(" ");
+  if (rest && findCard(rest)) {
+    return rest;
+  }
+  return getCardByPublicCode(parts[codeIndex])?.name ?? (rest || null);
+}
+
+function readJsonEntry(value: unknown): CardEntry | null {
+  if (typeof value === "string") {
+    return value.trim() ? parseFlexibleLine(value.trim()) : null;
+  }
+  if (!value || typeof value !== "object") {
+    return null;
+  }
+
+  const record = value as Record<string, unknown>;
+  const code = [record.code, record.publicCode, record.cardCode, record.id].find(
+    (field): field is string => typeof field === "string" && CODE_TOKEN.test(field)
+  );
+  const name = [record.name, record.cardName, record.card].find((field): field is string => typeof field === "string" && field.trim() !== "");
+  const count = Number(record.count ?? record.quantity ?? record.qty ?? record.amount ?? 1);
+  const resolved = code ? getCardByPublicCode(code)?.name : name?.trim();
+  return resolved && Number.isFinite(count) ? { count: Math.floor(count), name: resolved } : null;
+}
+
+function sectionBucket(label: string): DeckBucketName | null | undefined {
+  const key = label
+    .replace(/([a-z])([A-Z])/g, "$1 $2")
+    .toLowerCase()
+    .replace(/[^a-z]+/g, " ")
+    .trim();
+  return SECTION_ALIASES.find(([pattern]) => pattern.test(key))?.[1];
+}
+
+/** Explicit legend, champion, battlefield, rune and sideboard sections are trusted; anything else is sorted by card type. */
+function entryBucket(section: DeckBucketName | null, entry: CardEntry): DeckBucketName {
+  if (section && section !== "main") {
+    return section;
+  }
+
+  const type = findCard(entry.name)?.cardType;
+  return type === "Legend" ? "legend" : type === "Rune" ? "runes" : type === "Battlefield" ? "battlefields" : "main";
+}
+
+/** Builds the deck from placed entries, adding the unknown-card and duplicate checks before duplicates are merged. */
+function finishDeck(placed: PlacedEntry[], issues: ParseIssue[]): DeckParseResult {
+  const deck = emptyDeck();
+  placed.forEach(({ bucket, entry }) => deck[bucket].push(entry));
+  return {
+    deck: inferChampion(mergeDeck(deck)),
+    issues: [...issues, ...checkDeckEntries(placed)].sort((a, b) => (a.line ?? 0) - (b.line ?? 0))
+  };
+}
+
+/**
+ * Formats without a champion section list the chosen champion with the main deck. When the legend
+ * names its champion ("Kai'Sa, Daughter of the Void"), the matching main-deck card is moved over.
+ */
+function inferChampion(deck: DeckExport): DeckExport {
+  if (deck.champion.length > 0 || deck.legend.length !== 1 || !deck.legend[0].name.includes(",")) {
+    return deck;
+  }
+
+  const tag = deck.legend[0].name.split(",")[0].trim();
+  const index = deck.main.findIndex((entry) => entry.name.split(",")[0].trim() === tag && entry.name.includes(","));
+  if (index < 0) {
+    return deck;
+  }
+  return { ...deck, champion: [deck.main[index]], main: deck.main.filter((_, position) => position !== index) };
+}
+
+/** Folds repeated lines for the same card (and printing) within each section into one entry. */
+function mergeDeck(deck: DeckExport): DeckExport {
+  const merge = (entries: CardEntry[]) =>
+    [
+      ...entries
+        .reduce<Map<string, CardEntry>>((acc, entry) => {
+          const key = formatCardLine({ ...entry, count: 0 });
+          const existing = acc.get(key);
+          return acc.set(key, existing ? { ...existing, count: existing.count + entry.count } : entry);
+        }, new Map())
+        .values()
+    ];
+
+  return {
+    legend: merge(deck.legend),
+    champion: merge(deck.champion),
+    main: merge(deck.main),
+    battlefields: merge(deck.battlefields),
+    runes: merge(deck.runes),
+    sideboard: merge(deck.sideboard)
+  };
+}
+
+function emptyDeck(): DeckExport {
+  return { legend: [], champion: [], main: [], battlefields: [], runes: [], sideboard: [] };
+}
+
+function contentLines(text: string): string[] {
+  return text
+    .split(/\r?\n/)
+    .map((line) => line.trim())
+    .filter(Boolean);
+}
+
+function codeTokens(text: string): string[] {
+  return text.split(/[\s,;]+/).filter(Boolean);
+}
+
+function tryParseJson(text: string): unknown {
+  try {
+    return JSON.parse(text);
+  } catch {
+    return undefined;
+  }
+}
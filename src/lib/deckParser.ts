@@ -1,89 +1,237 @@
+import { findCard, type CardType } from "./cardDb.js";
+import { formatPrintingRequirement, splitPrintingRequirement, type PrintingRequirement } from "./printings.js";
+
 export type CardEntry = {
   count: number;
   name: string;
+  /** Set when the line ends in a `[...]` suffix asking for a specific printing. */
+  printing?: PrintingRequirement;
 };
 
 export type DeckExport = {
+  legend: CardEntry[];
+  champion: CardEntry[];
   main: CardEntry[];
   battlefields: CardEntry[];
   runes: CardEntry[];
   sideboard: CardEntry[];
 };
 
-const BATTLEFIELD_NAMES = new Set([
-  "Grove of the God-Willow",
-  "Hallowed Tomb",
-  "Monastery of Hirana",
-  "Navori Fighting Pit",
-  "Obelisk of Power",
-  "Reaver's Row",
-  "Reckoner's Arena",
-  "Sigil of the Storm",
-  "Startipped Peak",
-  "Targon's Peak",
-  "The Arena's Greatest",
-  "The Candlelit Sanctum",
-  "The Dreaming Tree",
-  "The Grand Plaza",
-  "Trifarian War Camp",
-  "Vilemaw's Lair",
-  "Void Gate",
-  "Windswept Hillock",
-  "Zaun Warrens"
-]);
+function lookupCardType(name: string): CardType | undefined {
+  return findCard(name)?.cardType;
+}
+
+export type ParseIssue = {
+  /** 1-based line in the source text; null when the format has no lines (JSON). */
+  line: number | null;
+  severity: "error" | "warning";
+  message: string;
+};
+
+/** Errors mark lines that could not be read; warnings mark entries that look wrong but do not stop the import. */
+export type DeckParseResult = {
+  deck: DeckExport;
+  issues: ParseIssue[];
+};
+
+/** A parsed entry together with the section it ended up in and the line it came from. */
+export type PlacedEntry = {
+  bucket: keyof DeckExport;
+  entry: CardEntry;
+  line: number | null;
+};
+
+/**
+ * Reads one non-blank line of a deck list: a card entry, `null` for a line that cannot be read, or
+ * "ignore" for a line that carries no cards.
+ */
+export type DeckLineReader = (line: string) => CardEntry | null | "ignore";
 
 /**
  * Parses the "Export as Text" payload from a Piltover Archive deck page.
- * The exporter uses blank lines liberally, so we classify cards by name-based heuristics
- * instead of relying on section headers.
+ * The exporter separates the legend, chosen champion, main deck, battlefields, runes and sideboard
+ * with blank lines but omits headers, so we combine the grouping with the card types from the
+ * card data: legends, runes and battlefields are recognised by type, the single card grouped right
+ * after the legend is the chosen champion, and anything listed after the rune/battlefield blocks is
+ * the sideboard. Throws when a line cannot be read; see `parseDeckText` for the lenient variant.
  */
 export function parseExportedDeck(exportText: string): DeckExport {
+  const { deck, issues } = parseDeckText(exportText);
+  const errors = issues.filter((issue) => issue.severity === "error");
+  if (errors.length > 0) {
+    throw new Error(errors.map(formatParseIssue).join("\n"));
+  }
+  return deck;
+}
+
+/**
+ * Like `parseExportedDeck`, but skips unreadable and zero-count lines instead of throwing, and
+ * reports them along with unknown card names, duplicate entries and a repeated sideboard header.
+ * `readLine` lets other text formats reuse the blank-line grouping.
+ */
+export function parseDeckText(exportText: string, readLine: DeckLineReader = parseCardLine): DeckParseResult {
   const deck: DeckExport = {
+    legend: [],
+    champion: [],
     main: [],
     battlefields: [],
     runes: [],
     sideboard: []
   };
+  const { groups, issues } = splitIntoGroups(exportText, readLine);
+  const placed: PlacedEntry[] = [];
+
+  for (const group of groups) {
+    const afterLegend = group.previous?.some(({ entry }) => lookupCardType(entry.name) === "Legend") ?? false;
+    const isChampionGroup = afterLegend && group.entries.length === 1;
+    const isTrailingGroup = group.sideboard || deck.runes.length > 0 || deck.battlefields.length > 0;
+
+    for (const { entry, line } of group.entries) {
+      const bucket = placeEntry(entry, isChampionGroup, isTrailingGroup);
+      deck[bucket].push(entry);
+      placed.push({ bucket, entry, line });
+    }
+  }
+
+  return { deck, issues: [...issues, ...checkDeckEntries(placed)].sort(byLine) };
+}
+
+function placeEntry(entry: CardEntry, isChampionGroup: boolean, isTrailingGroup: boolean): keyof DeckExport {
+  const type = lookupCardType(entry.name);
+
+  if (type === "Legend") {
+    return "legend";
+  }
+
+  if (type === "Rune" || (!type && /Rune/i.test(entry.name))) {
+    return "runes";
+  }
+
+  if (type === "Battlefield") {
+    return "battlefields";
+  }
 
-  let section: keyof DeckExport = "main";
+  if (isTrailingGroup) {
+    return "sideboard";
+  }
+
+  return isChampionGroup ? "champion" : "main";
+}
+
+/** Warns about names the card data does not know and cards listed more than once in a section. */
+export function checkDeckEntries(placed: PlacedEntry[]): ParseIssue[] {
+  const seen = new Set<string>();
+  return placed.flatMap(({ bucket, entry, line }) => {
+    const issues: ParseIssue[] = [];
+    if (!findCard(entry.name)) {
+      issues.push({ line, severity: "warning", message: `Unknown card "${entry.name}".` });
+    }
+
+    const key = `${bucket}:${formatCardLine({ ...entry, count: 0 })}`;
+    if (seen.has(key)) {
+      issues.push({ line, severity: "warning", message: `${entry.name} is listed more than once in the ${bucket} section.` });
+    }
+    seen.add(key);
+    return issues;
+  });
+}
+
+export function formatParseIssue(issue: ParseIssue): string {
+  return issue.line == null ? issue.message : `Line ${issue.line}: ${issue.message}`;
+}
+
+function byLine(a: ParseIssue, b: ParseIssue): number {
+  return (a.line ?? 0) - (b.line ?? 0);
+}
+
+/**
+ * Writes a parsed deck back out in the Piltover Archive layout that `parseExportedDeck` reads:
+ * legend, champion, main deck, battlefields and runes as blank-line separated groups, then the
+ * sideboard under a "Sideboard:" header. Printing requirements keep their `[...]` suffix.
+ */
+export function formatExportedDeck(deck: DeckExport): string {
+  const groups = [deck.legend, deck.champion, deck.main, deck.battlefields, deck.runes]
+    .filter((entries) => entries?.length)
+    .map((entries) => entries.map(formatCardLine).join("\n"));
 
-  for (const rawLine of exportText.split(/\r?\n/)) {
+  if (deck.sideboard?.length) {
+    groups.push(["Sideboard:", ...deck.sideboard.map(formatCardLine)].join("\n"));
+  }
+  return groups.join("\n\n");
+}
+
+export function formatCardLine(entry: CardEntry): string {
+  return `${entry.count} ${entry.name}${entry.printing ? ` ${formatPrintingRequirement(entry.printing)}` : ""}`;
+}
+
+type NumberedEntry = {
+  entry: CardEntry;
+  line: number;
+};
+
+type ExportGroup = {
+  entries: NumberedEntry[];
+  previous?: NumberedEntry[];
+  sideboard: boolean;
+};
+
+function splitIntoGroups(exportText: string, readLine: DeckLineReader): { groups: ExportGroup[]; issues: ParseIssue[] } {
+  const groups: ExportGroup[] = [];
+  const issues: ParseIssue[] = [];
+  let current: ExportGroup | null = null;
+  let inSideboard = false;
+
+  exportText.split(/\r?\n/).forEach((rawLine, index) => {
     const line = rawLine.trim();
+    const lineNumber = index + 1;
     if (!line) {
-      continue;
+      current = null;
+      return;
     }
 
     if (/^Sideboard:?$/i.test(line)) {
-      section = "sideboard";
-      continue;
+      if (inSideboard) {
+        issues.push({ line: lineNumber, severity: "warning", message: "Sideboard header appears more than once." });
+      }
+      inSideboard = true;
+      current = null;
+      return;
     }
 
-    const entry = parseCardLine(line);
-
-    if (/Rune/i.test(entry.name)) {
-      deck.runes.push(entry);
-      continue;
+    const entry = readLine(line);
+    if (entry === "ignore") {
+      return;
+    }
+    if (!entry) {
+      issues.push({ line: lineNumber, severity: "error", message: `Unable to parse export line: ${line}` });
+      return;
+    }
+    if (entry.count <= 0) {
+      issues.push({ line: lineNumber, severity: "warning", message: `${entry.name} has a count of 0 and was skipped.` });
+      return;
     }
 
-    if (BATTLEFIELD_NAMES.has(entry.name)) {
-      deck.battlefields.push(entry);
-      continue;
+    if (!current) {
+      current = { entries: [], previous: groups[groups.length - 1]?.entries, sideboard: inSideboard };
+      groups.push(current);
     }
 
-    deck[section].push(entry);
-  }
+    current.entries.push({ entry, line: lineNumber });
+  });
 
-  return deck;
+  return { groups, issues };
 }
 
-function parseCardLine(line: string): CardEntry {
+function parseCardLine(line: string): CardEntry | null {
   const match = line.match(/^(\d+)\s+(.+)$/);
   if (!match) {
-    throw new Error(`Unable to parse export line: ${line}`);
+    return null;
   }
 
+  const { name, printing } = splitPrintingRequirement(match[2]);
   return {
     count: Number(match[1]),
-    name: match[2].trim()
+    name,
+    ...(printing ? { printing } : {})
   };
 }
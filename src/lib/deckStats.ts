@@ -0,0 +1,133 @@
+import { findCard, type Card } from "./cardDb.js";
+import type { CardEntry, DeckExport } from "./deckParser.js";
+import { sum } from "./util.js";
+
+/** Energy costs at or above this share the last curve bucket ("7+"). */
+export const ENERGY_CURVE_CAP = 7;
+
+export type CurvePoint = {
+  /** "0" … "6", then "7+". */
+  label: string;
+  copies: number;
+};
+
+export type TypeShare = {
+  /** Card type from the card database; "Unknown" for cards missing from it. */
+  type: string;
+  copies: number;
+  /** `copies` as a fraction of the main deck, 0–1. */
+  share: number;
+};
+
+export type DomainSplit = {
+  domain: string;
+  /** Main deck copies with this domain; multi-domain cards count once for each of their domains. */
+  cards: number;
+  runes: number;
+  /** `cards` as a fraction of the main deck, 0–1. */
+  cardShare: number;
+  /** `runes` as a fraction of the rune deck, 0–1. */
+  runeShare: number;
+};
+
+export type DeckStats = {
+  /** Main deck plus chosen champion; every other figure except the rune split is based on these cards. */
+  mainCopies: number;
+  energyCurve: CurvePoint[];
+  /** Average energy over main deck copies that have an energy cost. */
+  averageEnergy: number | null;
+  types: TypeShare[];
+  domains: DomainSplit[];
+  units: {
+    copies: number;
+    /** Unit copies with a power value; the average and curve only cover these. */
+    withPower: number;
+    averagePower: number | null;
+    powerCurve: CurvePoint[];
+  };
+  /** Names without card data, left out of the curve, power and domain figures. */
+  unknownCards: string[];
+};
+
+/**
+ * Energy curve, card type mix, domain split against the runes and unit power for one deck, all
+ * from the bundled card data. The chosen champion counts as part of the main deck.
+ */
+export function computeDeckStats(deck: DeckExport): DeckStats {
+  const main = resolveEntries([...(deck.champion ?? []), ...deck.main]);
+  const runes = resolveEntries(deck.runes);
+  const mainCopies = sum(main.map(({ entry }) => entry.count));
+  const runeCopies = sum(runes.map(({ entry }) => entry.count));
+
+  const known = main.filter((item): item is ResolvedEntry & { card: Card } => item.card !== null);
+  const costed = known.filter(({ card }) => card.energy != null);
+  const units = known.filter(({ card }) => card.cardType === "Unit");
+  const powered = units.filter(({ card }) => card.power != null);
+
+  const typeCopies = main.reduce<Map<string, number>>(
+    (acc, { entry, card }) => increment(acc, card?.cardType ?? "Unknown", entry.count),
+    new Map()
+  );
+  const domainCards = known.reduce<Map<string, number>>(
+    (acc, { entry, card }) => card.domains.reduce((inner, domain) => increment(inner, domain, entry.count), acc),
+    new Map()
+  );
+  const domainRunes = runes.reduce<Map<string, number>>(
+    (acc, { entry, card }) => (card ? card.domains.reduce((inner, domain) => increment(inner, domain, entry.count), acc) : acc),
+    new Map()
+  );
+
+  return {
+    mainCopies,
+    energyCurve: buildCurve(costed.map(({ entry, card }) => [card.energy as number, entry.count])),
+    averageEnergy: weightedAverage(costed.map(({ entry, card }) => [card.energy as number, entry.count])),
+    types: [...typeCopies]
+      .map(([type, copies]) => ({ type, copies, share: ratio(copies, mainCopies) }))
+      .sort((a, b) => b.copies - a.copies || a.type.localeCompare(b.type)),
+    domains: [...new Set([...domainCards.keys(), ...domainRunes.keys()])]
+      .map((domain) => {
+        const cards = domainCards.get(domain) ?? 0;
+        const runeCount = domainRunes.get(domain) ?? 0;
+        return { domain, cards, runes: runeCount, cardShare: ratio(cards, mainCopies), runeShare: ratio(runeCount, runeCopies) };
+      })
+      .sort((a, b) => b.cards - a.cards || b.runes - a.runes || a.domain.localeCompare(b.domain)),
+    units: {
+      copies: sum(units.map(({ entry }) => entry.count)),
+      withPower: sum(powered.map(({ entry }) => entry.count)),
+      averagePower: weightedAverage(powered.map(({ entry, card }) => [card.power as number, entry.count])),
+      powerCurve: buildCurve(
+        powered.map(({ entry, card }) => [card.power as number, entry.count]),
+        Math.max(0, ...powered.map(({ card }) => card.power as number))
+      )
+    },
+    unknownCards: [...main, ...runes].filter(({ card }) => !card).map(({ entry }) => entry.name)
+  };
+}
+
+type ResolvedEntry = { entry: CardEntry; card: Card | null };
+
+function resolveEntries(entries: CardEntry[]): ResolvedEntry[] {
+  return entries.map((entry) => ({ entry, card: findCard(entry.name) }));
+}
+
+/** Copies per value from 0 up to `cap`; values above the cap share the last bucket when it is `ENERGY_CURVE_CAP`. */
+function buildCurve(values: Array<[number, number]>, cap = ENERGY_CURVE_CAP): CurvePoint[] {
+  const copies = new Array<number>(cap + 1).fill(0);
+  values.forEach(([value, count]) => {
+    copies[Math.min(Math.max(value, 0), cap)] += count;
+  });
+  return copies.map((count, value) => ({ label: value === ENERGY_CURVE_CAP ? `${value}+` : String(value), copies: count }));
+}
+
+function weightedAverage(values: Array<[number, number]>): number | null {
+  const copies = sum(values.map(([, count]) => count));
+  return copies === 0 ? null : Math.round((sum(values.map(([value, count]) => value * count)) / copies) * 100) / 100;
+}
+
+function increment(map: Map<string, number>, key: string, count: number): Map<string, number> {
+  return map.set(key, (map.get(key) ?? 0) + count);
+}
+
+function ratio(part: number, total: number): number {
+  return total === 0 ? 0 : Math.round((part / total) * 1000) / 1000;
+}
@@ -0,0 +1,299 @@
+import { findCard, type Card } from "./cardDb.js";
+import type { DeckExport } from "./deckParser.js";
+
+export const OPENING_HAND_SIZE = 4;
+/** Cards that may be set aside and replaced once before the first turn; they go to the bottom of the deck. */
+export const MULLIGAN_LIMIT = 2;
+/** Without a target, sample hands set aside cards costing more than this. */
+export const DEFAULT_KEEP_MAX_ENERGY = 4;
+
+/** One copy in the shuffled main deck. */
+export type LibraryCard = {
+  name: string;
+  card: Card | null;
+};
+
+export type DrawQuery = {
+  /** The query as written, e.g. "type:unit energy:2" or "champion". */
+  label: string;
+  matches: (card: LibraryCard) => boolean;
+  /** Caveat to show with the odds, e.g. that one champion copy never enters the library. */
+  note?: string;
+};
+
+export type DrawOddsRow = {
+  /** 0 is the opening hand; turn N has drawn N more cards. */
+  turn: number;
+  cardsSeen: number;
+  /** Exact hypergeometric odds of at least `atLeast` hits without a mulligan, 0–1. */
+  probability: number;
+  /** Monte Carlo estimate when the mulligan sets aside non-matching cards while short of hits, 0–1. */
+  withMulligan: number;
+};
+
+export type DrawOdds = {
+  query: string;
+  atLeast: number;
+  /** Copies in the main deck that match the query. */
+  hits: number;
+  librarySize: number;
+  trials: number;
+  rows: DrawOddsRow[];
+  note?: string;
+};
+
+export type DrawOddsOptions = {
+  atLeast?: number;
+  /** Last turn to report; rows run from the opening hand (turn 0) up to this turn. */
+  turns?: number;
+  trials?: number;
+  random?: () => number;
+};
+
+export type SampleHand = {
+  opening: string[];
+  setAside: string[];
+  /** Hand after the mulligan. */
+  hand: string[];
+  /** Card drawn on turn 1, 2, … */
+  draws: string[];
+};
+
+/**
+ * The shuffled deck as individual copies, in list order: the main deck plus any champion copies
+ * beyond the one that starts in the champion zone.
+ */
+export function buildLibrary(deck: DeckExport): LibraryCard[] {
+  const extraChampions = (deck.champion ?? []).map((entry, index) => ({ ...entry, count: index === 0 ? entry.count - 1 : entry.count }));
+  return [...extraChampions, ...deck.main].flatMap((entry) => {
+    const card = findCard(entry.name);
+    return Array.from({ length: entry.count }, () => ({ name: card?.name ?? entry.name, card }));
+  });
+}
+
+/** One draw per turn, starting on turn 1. */
+export function cardsSeenByTurn(turn: number): number {
+  return OPENING_HAND_SIZE + turn;
+}
+
+/**
+ * Reads a draw target. Space-separated filters must all hold: `type:unit`, `domain:fury`,
+ * `energy:2` (also `energy<=2`, `>=`, `<`, `>`), the same comparisons for `power`, and `champion`
+ * for copies of the chosen champion. Any remaining words are looked up as a card name.
+ */
+export function parseDrawQuery(text: string, deck: DeckExport): DrawQuery {
+  const tests: Array<(entry: LibraryCard) => boolean> = [];
+  const nameWords: string[] = [];
+  let note: string | undefined;
+
+  text
+    .trim()
+    .split(/\s+/)
+    .filter(Boolean)
+    .forEach((token) => {
+      const filter = token.match(/^(type|domain|energy|power)(:|<=|>=|<|>)(.+)$/i);
+      if (token.toLowerCase() === "champion") {
+        const champion = deck.champion?.[0];
+        if (!champion) {
+          throw new Error("The deck has no chosen champion to look for.");
+        }
+        const name = findCard(champion.name)?.name ?? champion.name;
+        tests.push((entry) => entry.name === name);
+        note =
+          champion.count > 1
+            ? `One ${name} starts in the champion zone, so only the remaining ${champion.count - 1} can be drawn.`
+            : `The only ${name} starts in the champion zone, so there is no copy left to draw.`;
+      } else if (filter) {
+        tests.push(filterTest(filter[1].toLowerCase(), filter[2], filter[3]));
+      } else {
+        nameWords.push(token);
+      }
+    });
+
+  if (nameWords.length > 0) {
+    const wanted = nameWords.join(" ");
+    const card = findCard(wanted);
+    if (!card) {
+      throw new Error(`Unknown card "${wanted}".`);
+    }
+    tests.push((entry) => entry.name === card.name);
+  }
+  if (tests.length === 0) {
+    throw new Error("Enter a card name or a filter such as type:unit or energy<=2.");
+  }
+
+  return { label: text.trim(), matches: (entry) => tests.every((test) => test(entry)), ...(note ? { note } : {}) };
+}
+
+function filterTest(key: string, operator: string, rawValue: string): (entry: LibraryCard) => boolean {
+  const value = rawValue.toLowerCase();
+  if (key === "type" || key === "domain") {
+    if (operator !== ":") {
+      throw new Error(`Use ${key}:<value>; ${key} cannot be compared with ${operator}.`);
+    }
+    return key === "type"
+      ? (entry) => entry.card?.cardType.toLowerCase() === value
+      : (entry) => Boolean(entry.card?.domains.some((domain) => domain.toLowerCase() === value));
+  }
+
+  const target = Number(value);
+  if (Number.isNaN(target)) {
+    throw new Error(`${key} needs a number, got "${rawValue}".`);
+  }
+  return (entry) => {
+    const actual = key === "energy" ? entry.card?.energy : entry.card?.power;
+    if (actual == null) {
+      return false;
+    }
+    switch (operator) {
+      case "<=":
+        return actual <= target;
+      case ">=":
+        return actual >= target;
+      case "<":
+        return actual < target;
+      case ">":
+        return actual > target;
+      default:
+        return actual === target;
+    }
+  };
+}
+
+/** Chance of at least `atLeast` hits when drawing `draws` cards from `population` holding `successes` hits. */
+export function hypergeometricAtLeast(population: number, successes: number, draws: number, atLeast: number): number {
+  const drawn = Math.min(draws, population);
+  let below = 0;
+  for (let hits = 0; hits < atLeast; hits += 1) {
+    below += (choose(successes, hits) * choose(population - successes, drawn - hits)) / choose(population, drawn);
+  }
+  return Math.min(1, Math.max(0, 1 - below));
+}
+
+function choose(n: number, k: number): number {
+  if (k < 0 || k > n) {
+    return 0;
+  }
+  let result = 1;
+  for (let index = 1; index <= Math.min(k, n - k); index += 1) {
+    result = (result * (n - index + 1)) / index;
+  }
+  return result;
+}
+
+/**
+ * Odds of seeing at least `atLeast` matching cards by each turn: exact without a mulligan, and
+ * simulated with one that sets aside up to `MULLIGAN_LIMIT` non-matching cards (most expensive
+ * first) whenever the opening hand is short of hits.
+ */
+export function drawOdds(deck: DeckExport, query: DrawQuery, options: DrawOddsOptions = {}): DrawOdds {
+  const { atLeast = 1, turns = 5, trials = 10000, random = Math.random } = options;
+  const library = buildLibrary(deck);
+  const hits = library.filter(query.matches).length;
+
+  const reached = new Array<number>(turns + 1).fill(0);
+  for (let trial = 0; trial < trials; trial += 1) {
+    const order = playOpening(library, random, (hand) => (countHits(hand, query) >= atLeast ? [] : mulliganForQuery(hand, query)));
+    for (let turn = 0; turn <= turns; turn += 1) {
+      if (countHits(order.slice(0, cardsSeenByTurn(turn)), query) >= atLeast) {
+        reached[turn] += 1;
+      }
+    }
+  }
+
+  return {
+    query: query.label,
+    atLeast,
+    hits,
+    librarySize: library.length,
+    trials,
+    ...(query.note ? { note: query.note } : {}),
+    rows: reached.map((count, turn) => ({
+      turn,
+      cardsSeen: Math.min(cardsSeenByTurn(turn), library.length),
+      probability: hypergeometricAtLeast(library.length, hits, cardsSeenByTurn(turn), atLeast),
+      withMulligan: trials === 0 ? 0 : count / trials
+    }))
+  };
+}
+
+/**
+ * Shuffles the main deck and plays out the mulligan: with a query, non-matching cards are set aside
+ * while the hand has no hit; without one, cards costing more than `keepMaxEnergy` are.
+ */
+export function sampleHand(
+  deck: DeckExport,
+  options: { turns?: number; query?: DrawQuery; keepMaxEnergy?: number; random?: () => number } = {}
+): SampleHand {
+  const { turns = 3, query, keepMaxEnergy = DEFAULT_KEEP_MAX_ENERGY, random = Math.random } = options;
+  const library = buildLibrary(deck);
+  let opening: LibraryCard[] = [];
+  let setAside: LibraryCard[] = [];
+
+  const order = playOpening(library, random, (hand) => {
+    opening = hand;
+    setAside = query
+      ? countHits(hand, query) > 0
+        ? []
+        : mulliganForQuery(hand, query)
+      : byEnergyDescending(hand.filter((entry) => (entry.card?.energy ?? 0) > keepMaxEnergy)).slice(0, MULLIGAN_LIMIT);
+    return setAside;
+  });
+
+  const handSize = Math.min(OPENING_HAND_SIZE, order.length);
+  return {
+    opening: opening.map((entry) => entry.name),
+    setAside: setAside.map((entry) => entry.name),
+    hand: order.slice(0, handSize).map((entry) => entry.name),
+    draws: order.slice(handSize, cardsSeenByTurn(turns)).map((entry) => entry.name)
+  };
+}
+
+/** Small seeded generator (mulberry32) so sample hands and simulations can be reproduced. */
+export function seededRandom(seed: number): () => number {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let value = Math.imul(state ^ (state >>> 15), 1 | state);
+    value = (value + Math.imul(value ^ (value >>> 7), 61 | value)) ^ value;
+    return ((value ^ (value >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+/**
+ * Shuffles the library, deals the opening hand and applies the mulligan: the chosen cards are
+ * replaced from the top and then go to the bottom. Returns the deck order after the mulligan, hand first.
+ */
+function playOpening(library: LibraryCard[], random: () => number, chooseSetAside: (hand: LibraryCard[]) => LibraryCard[]): LibraryCard[] {
+  const order = shuffle(library, random);
+  const hand = order.slice(0, OPENING_HAND_SIZE);
+  const setAside = chooseSetAside(hand).slice(0, MULLIGAN_LIMIT);
+  if (setAside.length === 0) {
+    return order;
+  }
+
+  const kept = hand.filter((entry) => !setAside.includes(entry));
+  const rest = order.slice(OPENING_HAND_SIZE);
+  return [...kept, ...rest.slice(0, setAside.length), ...rest.slice(setAside.length), ...setAside];
+}
+
+function mulliganForQuery(hand: LibraryCard[], query: DrawQuery): LibraryCard[] {
+  return byEnergyDescending(hand.filter((entry) => !query.matches(entry))).slice(0, MULLIGAN_LIMIT);
+}
+
+function byEnergyDescending(entries: LibraryCard[]): LibraryCard[] {
+  return [...entries].sort((a, b) => (b.card?.energy ?? 0) - (a.card?.energy ?? 0));
+}
+
+function countHits(cards: LibraryCard[], query: DrawQuery): number {
+  return cards.filter(query.matches).length;
+}
+
+function shuffle<T>(items: T[], random: () => number): T[] {
+  const copy = [...items];
+  for (let index = copy.length - 1; index > 0; index -= 1) {
+    const swap = Math.floor(random() * (index + 1));
+    [copy[index], copy[swap]] = [copy[swap], copy[index]];
+  }
+  return copy;
+}
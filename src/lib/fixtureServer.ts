@@ -0,0 +1,85 @@
+import fs from "node:fs/promises";
+import http from "node:http";
+import type { AddressInfo } from "node:net";
+import path from "node:path";
+
+export type FixtureServer = {
+  /** Origin of the server, e.g. http://127.0.0.1:49152 (no trailing slash). */
+  url: string;
+  close: () => Promise<void>;
+};
+
+const CONTENT_TYPES: Record<string, string> = {
+  ".html": "text/html; charset=utf-8",
+  ".json": "application/json; charset=utf-8",
+  ".js": "text/javascript; charset=utf-8",
+  ".css": "text/css; charset=utf-8",
+  ".png": "image/png",
+  ".svg": "image/svg+xml"
+};
+
+/**
+ * Serves saved page snapshots from `rootDir` so the Playwright scrapers can run offline.
+ * Extension-less paths resolve like the real sites' routes: `/decks/view/foo` maps to
+ * `decks/view/foo.html` (or `decks/view/foo/index.html`). Query strings are ignored unless a
+ * snapshot named after them exists, e.g. `/decks?page=2` → `decks.page-2.html`.
+ */
+export async function startFixtureServer(rootDir: string): Promise<FixtureServer> {
+  const root = path.resolve(rootDir);
+  await fs.access(root).catch(() => {
+    throw new Error(`Fixture directory ${root} does not exist.`);
+  });
+
+  const server = http.createServer((request, response) => {
+    resolveFixture(root, request.url ?? "/")
+      .then((filePath) => {
+        if (!filePath) {
+          response.writeHead(404, { "content-type": "text/plain" }).end(`No fixture for ${request.url}`);
+          return;
+        }
+        return fs.readFile(filePath).then((body) => {
+          const type = CONTENT_TYPES[path.extname(filePath)] ?? "application/octet-stream";
+          response.writeHead(200, { "content-type": type }).end(body);
+        });
+      })
+      .catch((error) => {
+        response.writeHead(500, { "content-type": "text/plain" }).end(String(error));
+      });
+  });
+
+  await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+  const { port } = server.address() as AddressInfo;
+
+  return {
+    url: `http://127.0.0.1:${port}`,
+    close: () => new Promise<void>((resolve, reject) => server.close((error) => (error ? reject(error) : resolve())))
+  };
+}
+
+async function resolveFixture(root: string, requestUrl: string): Promise<string | null> {
+  const { pathname, searchParams } = new URL(requestUrl, "http://fixture.local");
+  const relative = decodeURIComponent(pathname).replace(/^\/+|\/+$/g, "") || "index";
+  const base = path.resolve(root, relative);
+  if (base !== root && !base.startsWith(`${root}${path.sep}`)) {
+    return null;
+  }
+
+  const query = [...searchParams]
+    .map(([key, value]) => `${key}-${value}`.replace(/[^a-zA-Z0-9_-]+/g, "_"))
+    .join(".");
+  const candidates = [
+    ...(query ? [`${base}.${query}.html`, path.join(base, `index.${query}.html`)] : []),
+    base,
+    `${base}.html`,
+    path.join(base, "index.html")
+  ];
+
+  for (const candidate of candidates) {
+    const stat = await fs.stat(candidate).catch(() => null);
+    if (stat?.isFile()) {
+      return candidate;
+    }
+  }
+
+  return null;
+}
@@ -0,0 +1,146 @@
+import { canonicalCardName } from "./cardDb.js";
+import {
+  compareDecks,
+  reconcileInventory,
+  type ComparisonStatus,
+  type Inventory,
+  type StatusThresholds
+} from "./comparison.js";
+import { extractPrices, mergePrices, roundCents, type PriceMap } from "./prices.js";
+import type { InventoryCard, PersistedDeck } from "./types.js";
+import { sum } from "./util.js";
+
+export type InventoryCountChange = {
+  name: string;
+  before: number;
+  after: number;
+  /** `after - before`. */
+  change: number;
+  /** Change in the `priceUsd` value of this card's copies; null when neither scrape prices it. */
+  valueChangeUsd: number | null;
+};
+
+export type DeckStatusChange = {
+  slug: string;
+  label: string;
+  before: ComparisonStatus;
+  after: ComparisonStatus;
+  missingBefore: number;
+  missingAfter: number;
+};
+
+export type InventoryDiff = {
+  /** Cards the new scrape has and the old one did not. */
+  gained: InventoryCountChange[];
+  /** Cards the old scrape had and the new one does not. */
+  lost: InventoryCountChange[];
+  /** Cards in both scrapes with a different count. */
+  changed: InventoryCountChange[];
+  copiesBefore: number;
+  copiesAfter: number;
+  /** Sum of `count * priceUsd` over each scrape's priced entries. */
+  valueBeforeUsd: number;
+  valueAfterUsd: number;
+  valueChangeUsd: number;
+  deckChanges: DeckStatusChange[];
+};
+
+export type InventoryDiffOptions = {
+  /** Decks to re-check against both inventories; status changes are reported. */
+  decks?: PersistedDeck[];
+  thresholds?: number | StatusThresholds;
+  /** Price overrides for the deck comparison, on top of the new scrape's `priceUsd` values. */
+  prices?: PriceMap;
+};
+
+/**
+ * Compares two inventory payloads (CardNexus scrapes, plain count maps or collection logs). Values
+ * come from each scrape's own `priceUsd`, so a price change alone shows up in the value change but
+ * not as a count change.
+ */
+export function diffInventories(beforeSource: unknown, afterSource: unknown, options: InventoryDiffOptions = {}): InventoryDiff {
+  const before = reconcileInventory(beforeSource).inventory;
+  const after = reconcileInventory(afterSource).inventory;
+  const valueBefore = valueByCard(beforeSource);
+  const valueAfter = valueByCard(afterSource);
+
+  const names = [...new Set([...Object.keys(before), ...Object.keys(after)])].sort((a, b) => a.localeCompare(b));
+  const changes = names
+    .map((name) => {
+      const countBefore = before[name] ?? 0;
+      const countAfter = after[name] ?? 0;
+      const priced = name in valueBefore || name in valueAfter;
+      return {
+        name,
+        before: countBefore,
+        after: countAfter,
+        change: countAfter - countBefore,
+        valueChangeUsd: priced ? roundCents((valueAfter[name] ?? 0) - (valueBefore[name] ?? 0)) : null
+      };
+    })
+    .filter((entry) => entry.change !== 0);
+
+  const valueBeforeUsd = roundCents(sum(Object.values(valueBefore)));
+  const valueAfterUsd = roundCents(sum(Object.values(valueAfter)));
+
+  return {
+    gained: changes.filter((entry) => entry.before === 0),
+    lost: changes.filter((entry) => entry.after === 0),
+    changed: changes.filter((entry) => entry.before > 0 && entry.after > 0),
+    copiesBefore: sum(Object.values(before)),
+    copiesAfter: sum(Object.values(after)),
+    valueBeforeUsd,
+    valueAfterUsd,
+    valueChangeUsd: roundCents(valueAfterUsd - valueBeforeUsd),
+    deckChanges: options.decks ? diffDeckStatuses(options.decks, before, after, afterSource, options) : []
+  };
+}
+
+function diffDeckStatuses(
+  decks: PersistedDeck[],
+  before: Inventory,
+  after: Inventory,
+  afterSource: unknown,
+  options: InventoryDiffOptions
+): DeckStatusChange[] {
+  const thresholds = options.thresholds ?? 4;
+  const prices = mergePrices(extractPrices(afterSource), options.prices ?? {});
+  const priced = Object.keys(prices).length > 0 ? prices : undefined;
+  const previous = compareDecks(decks, before, thresholds, priced);
+  const next = compareDecks(decks, after, thresholds, priced);
+
+  return next.flatMap((comparison, index) => {
+    const old = previous[index];
+    if (old.status === comparison.status) {
+      return [];
+    }
+    return [
+      {
+        slug: comparison.deck.slug,
+        label: comparison.deck.label,
+        before: old.status,
+        after: comparison.status,
+        missingBefore: old.totalMissing,
+        missingAfter: comparison.totalMissing
+      }
+    ];
+  });
+}
+
+/** `count * priceUsd` per card name, over the priced entries of a scrape's `cards` array. */
+function valueByCard(source: unknown): Record<string, number> {
+  const cards =
+    source && typeof source === "object" && Array.isArray((source as { cards?: unknown }).cards)
+      ? ((source as { cards: InventoryCard[] }).cards ?? [])
+      : [];
+
+  return cards.reduce<Record<string, number>>((acc, card) => {
+    const price = Number(card?.priceUsd);
+    if (!card?.name || card.priceUsd == null || !Number.isFinite(price)) {
+      return acc;
+    }
+    const name = canonicalCardName(card.name) ?? card.name;
+    acc[name] = (acc[name] ?? 0) + price * (Number(card.count) || 0);
+    return acc;
+  }, {});
+}
@@ -0,0 +1,118 @@
+import { deckCardName, findCard } from "./cardDb.js";
+import { ensureParsed } from "./comparison.js";
+import type { CardEntry } from "./deckParser.js";
+import type { PersistedDeck } from "./types.js";
+
+export type MetaEntry = {
+  name: string;
+  /** Decks that include this entry at least once. */
+  decks: number;
+  /** `decks` as a fraction of every deck in the report, 0–1. */
+  share: number;
+};
+
+export type MetaCardEntry = MetaEntry & {
+  totalCopies: number;
+  /** Copies per deck among the decks that play the card. */
+  averageCopies: number;
+};
+
+export type MetaReport = {
+  deckCount: number;
+  /** Main deck plus chosen champion, by number of decks playing the card. */
+  cards: MetaCardEntry[];
+  legends: MetaEntry[];
+  champions: MetaEntry[];
+  /** Keyed by the legend's domains from the card database, e.g. "Fury / Mind". */
+  domainPairs: MetaEntry[];
+  battlefields: MetaEntry[];
+  /** Rune decks written as "7 Fury Rune / 5 Mind Rune", largest count first. */
+  runeSplits: MetaEntry[];
+};
+
+export const UNKNOWN_DOMAINS = "Unknown";
+
+/** Aggregates card, leader, domain, battlefield and rune usage across scraped decks. Names are canonicalized, keeping legends' champion prefix. */
+export function buildMetaReport(decks: PersistedDeck[]): MetaReport {
+  const hydrated = decks.map(ensureParsed);
+  const cardCopies = new Map<string, { decks: number; copies: number }>();
+  const legends = new Map<string, number>();
+  const champions = new Map<string, number>();
+  const domainPairs = new Map<string, number>();
+  const battlefields = new Map<string, number>();
+  const runeSplits = new Map<string, number>();
+
+  hydrated.forEach((deck) => {
+    const { legend, champion, main, battlefields: fields, runes } = deck.parsed;
+
+    Object.entries(sumCopies([...champion, ...main])).forEach(([name, copies]) => {
+      const current = cardCopies.get(name) ?? { decks: 0, copies: 0 };
+      cardCopies.set(name, { decks: current.decks + 1, copies: current.copies + copies });
+    });
+
+    uniqueNames(legend).forEach((name) => increment(legends, name));
+    uniqueNames(champion).forEach((name) => increment(champions, name));
+    uniqueNames(fields).forEach((name) => increment(battlefields, name));
+    increment(domainPairs, describeDomains(legend));
+
+    if (runes.length > 0) {
+      const split = Object.entries(sumCopies(runes))
+        .sort(([nameA, a], [nameB, b]) => b - a || nameA.localeCompare(nameB))
+        .map(([name, count]) => `${count} ${name}`)
+        .join(" / ");
+      increment(runeSplits, split);
+    }
+  });
+
+  const deckCount = hydrated.length;
+  const cards = [...cardCopies]
+    .map(([name, usage]) => ({
+      name,
+      decks: usage.decks,
+      share: ratio(usage.decks, deckCount),
+      totalCopies: usage.copies,
+      averageCopies: Math.round((usage.copies / usage.decks) * 100) / 100
+    }))
+    .sort((a, b) => b.decks - a.decks || b.averageCopies - a.averageCopies || a.name.localeCompare(b.name));
+
+  return {
+    deckCount,
+    cards,
+    legends: toEntries(legends, deckCount),
+    champions: toEntries(champions, deckCount),
+    domainPairs: toEntries(domainPairs, deckCount),
+    battlefields: toEntries(battlefields, deckCount),
+    runeSplits: toEntries(runeSplits, deckCount)
+  };
+}
+
+function describeDomains(legend: CardEntry[]): string {
+  const domains = legend.flatMap((card) => findCard(card.name)?.domains ?? []);
+  return domains.length ? [...new Set(domains)].sort((a, b) => a.localeCompare(b)).join(" / ") : UNKNOWN_DOMAINS;
+}
+
+function sumCopies(entries: CardEntry[]): Record<string, number> {
+  return entries.reduce<Record<string, number>>((acc, card) => {
+    const name = deckCardName(card.name);
+    acc[name] = (acc[name] ?? 0) + card.count;
+    return acc;
+  }, {});
+}
+
+function uniqueNames(entries: CardEntry[]): string[] {
+  return Object.keys(sumCopies(entries));
+}
+
+function increment(map: Map<string, number>, key: string) {
+  map.set(key, (map.get(key) ?? 0) + 1);
+}
+
+function toEntries(map: Map<string, number>, deckCount: number): MetaEntry[] {
+  return [...map]
+    .map(([name, decks]) => ({ name, decks, share: ratio(decks, deckCount) }))
+    .sort((a, b) => b.decks - a.decks || a.name.localeCompare(b.name));
+}
+
+function ratio(part: number, total: number): number {
+  return total ? Math.round((part / total) * 1000) / 1000 : 0;
+}
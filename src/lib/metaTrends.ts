@@ -0,0 +1,115 @@
+import { buildMetaReport, type MetaEntry } from "./meta.js";
+import { DECK_SOURCES, type DeckSource, type PersistedDeck } from "./types.js";
+
+/** One scrape run, as written by `scrape.ts` to the snapshot directory. */
+export type MetaSnapshot = {
+  takenAt: string;
+  source?: DeckSource;
+  decks: PersistedDeck[];
+};
+
+export type TrendDirection = "rising" | "falling" | "steady";
+
+export type TrendSeries = {
+  name: string;
+  /** Share of decks (0–1) in each snapshot, aligned with `MetaTrends.snapshots`; 0 when absent. */
+  shares: number[];
+  /** Last share minus first share. */
+  change: number;
+  direction: TrendDirection;
+};
+
+export type MetaTrends = {
+  snapshots: Array<{ takenAt: string; deckCount: number }>;
+  cards: TrendSeries[];
+  legends: TrendSeries[];
+  /** Cards whose share moved by at least the threshold, largest move first. */
+  rising: TrendSeries[];
+  falling: TrendSeries[];
+  /** Legends in the latest snapshot that none of the earlier ones had. */
+  newLegends: string[];
+};
+
+export const DEFAULT_TREND_THRESHOLD = 0.1;
+
+/** Accepts one snapshot or an array of them, as found in snapshot files and the dashboard upload. */
+export function readSnapshots(data: unknown, label: string): MetaSnapshot[] {
+  const entries: unknown[] = Array.isArray(data) ? data : [data];
+  return entries.map((entry) => {
+    if (!isMetaSnapshot(entry)) {
+      throw new Error(`${label} must contain { takenAt, decks } snapshots.`);
+    }
+    return entry;
+  });
+}
+
+function isMetaSnapshot(value: unknown): value is MetaSnapshot {
+  return (
+    isRecord(value) &&
+    typeof value.takenAt === "string" &&
+    (value.source === undefined || DECK_SOURCES.some((source) => source === value.source)) &&
+    Array.isArray(value.decks) &&
+    value.decks.every((deck) => isRecord(deck) && typeof deck.slug === "string" && typeof deck.exportText === "string")
+  );
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Keeps the snapshots taken from one deck source, oldest first, so runs against different listings
+ * are not read as meta shifts. Without `source`, the newest snapshot's source is used. Snapshots
+ * saved before sources were recorded only match each other.
+ */
+export function selectSnapshotSource(
+  snapshots: MetaSnapshot[],
+  source?: DeckSource
+): { source?: DeckSource; snapshots: MetaSnapshot[]; skipped: number } {
+  const ordered = [...snapshots].sort((a, b) => a.takenAt.localeCompare(b.takenAt));
+  const chosen = source ?? ordered[ordered.length - 1]?.source;
+  const selected = ordered.filter((snapshot) => snapshot.source === chosen);
+  return { source: chosen, snapshots: selected, skipped: ordered.length - selected.length };
+}
+
+/**
+ * Compares meta reports across snapshots, oldest first. `threshold` is the minimum change in deck
+ * share (0.1 = ten percentage points) for a card to count as rising or falling.
+ */
+export function buildMetaTrends(snapshots: MetaSnapshot[], threshold = DEFAULT_TREND_THRESHOLD): MetaTrends {
+  const ordered = [...snapshots].sort((a, b) => a.takenAt.localeCompare(b.takenAt));
+  const reports = ordered.map((snapshot) => buildMetaReport(snapshot.decks));
+
+  const cards = toSeries(reports.map((report) => report.cards), threshold);
+  const legends = toSeries(reports.map((report) => report.legends), threshold);
+
+  const earlierLegends = new Set(reports.slice(0, -1).flatMap((report) => report.legends.map((entry) => entry.name)));
+  const latest = reports[reports.length - 1];
+  const newLegends =
+    reports.length > 1 && latest ? latest.legends.map((entry) => entry.name).filter((name) => !earlierLegends.has(name)) : [];
+
+  return {
+    snapshots: ordered.map((snapshot, index) => ({ takenAt: snapshot.takenAt, deckCount: reports[index].deckCount })),
+    cards,
+    legends,
+    rising: cards.filter((series) => series.direction === "rising").sort((a, b) => b.change - a.change),
+    falling: cards.filter((series) => series.direction === "falling").sort((a, b) => a.change - b.change),
+    newLegends
+  };
+}
+
+/** Series are ordered by their share in the latest snapshot, then by name. */
+function toSeries(perSnapshot: MetaEntry[][], threshold: number): TrendSeries[] {
+  const names = [...new Set(perSnapshot.flatMap((entries) => entries.map((entry) => entry.name)))];
+  const lookups = perSnapshot.map((entries) => new Map(entries.map((entry) => [entry.name, entry.share])));
+
+  return names
+    .map((name) => {
+      const shares = lookups.map((lookup) => lookup.get(name) ?? 0);
+      const change = Math.round((shares[shares.length - 1] - shares[0]) * 1000) / 1000;
+      const direction: TrendDirection =
+        shares.length < 2 ? "steady" : change >= threshold ? "rising" : change <= -threshold ? "falling" : "steady";
+      return { name, shares, change, direction };
+    })
+    .sort((a, b) => b.shares[b.shares.length - 1] - a.shares[a.shares.length - 1] || a.name.localeCompare(b.name));
+}
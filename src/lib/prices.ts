@@ -0,0 +1,72 @@
+import { canonicalCardName } from "./cardDb.js";
+
+/** Price of a single copy in USD, keyed by card database name. */
+export type PriceMap = Record<string, number>;
+
+/**
+ * Collects per-copy prices from an inventory scrape (`{ cards: InventoryCard[] }`) or any array of
+ * `{ name, priceUsd }` entries. When several printings of a card are listed, the cheapest wins,
+ * since that is what a shopping list would buy.
+ */
+export function extractPrices(source: unknown): PriceMap {
+  const entries = Array.isArray(source)
+    ? source
+    : source && typeof source === "object" && Array.isArray((source as { cards?: unknown }).cards)
+      ? (source as { cards: unknown[] }).cards
+      : [];
+
+  return entries.reduce<PriceMap>((acc, item) => {
+    if (!item || typeof item !== "object" || !("name" in item)) {
+      return acc;
+    }
+    const price = Number((item as { priceUsd?: unknown }).priceUsd);
+    if ((item as { priceUsd?: unknown }).priceUsd == null || !Number.isFinite(price) || price < 0) {
+      return acc;
+    }
+    addPrice(acc, String((item as { name: unknown }).name), price);
+    return acc;
+  }, {});
+}
+
+/**
+ * Normalizes a local price file. Accepts everything `extractPrices` understands plus a plain
+ * `{ "Card Name": 1.25 }` map.
+ */
+export function normalizePrices(source: unknown): PriceMap {
+  if (Array.isArray(source) || (source && typeof source === "object" && "cards" in source)) {
+    return extractPrices(source);
+  }
+
+  if (source && typeof source === "object") {
+    return Object.entries(source as Record<string, unknown>).reduce<PriceMap>((acc, [name, value]) => {
+      const price = Number(value);
+      if (name && value != null && Number.isFinite(price) && price >= 0) {
+        addPrice(acc, name, price);
+      }
+      return acc;
+    }, {});
+  }
+
+  throw new Error("Unsupported price format. Use an object map or an array of { name, priceUsd } entries.");
+}
+
+/** Later maps take precedence, so pass the most trusted source last. */
+export function mergePrices(...maps: PriceMap[]): PriceMap {
+  return Object.assign({}, ...maps);
+}
+
+export function roundCents(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+export function formatUsd(value: number | null | undefined): string {
+  return value == null ? "n/a" : `$${value.toFixed(2)}`;
+}
+
+function addPrice(acc: PriceMap, rawName: string, price: number) {
+  const name = canonicalCardName(rawName.trim()) ?? rawName.trim();
+  if (!name) {
+    return;
+  }
+  acc[name] = name in acc ? Math.min(acc[name], price) : price;
+}
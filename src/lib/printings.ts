@@ -0,0 +1,129 @@
+import { getCardByPublicCode } from "./cardDb.js";
+import type { Inventory } from "./comparison.js";
+
+/** One inventory line as CardNexus lists it: a card name plus the printing details that were captured. */
+export type InventoryPrinting = {
+  name: string;
+  count: number;
+  setName?: string;
+  collectorNumber?: string;
+  finish?: string;
+  condition?: string;
+};
+
+/**
+ * A deck line can ask for a particular printing with a bracketed suffix, e.g. `2 Cleave [Foil]`,
+ * `1 Kai'Sa, Survivor [Showcase]` or `3 Cleave [OGN-004 Foil]`. Every trait must be present on the
+ * printing, and the code must match its collector number.
+ */
+export type PrintingRequirement = {
+  code?: string;
+  /** Lower-case finish chips ("foil", "signed") and art variants ("showcase"). */
+  traits: string[];
+};
+
+export type OwnedPrinting = {
+  label: string;
+  count: number;
+};
+
+const CODE_PATTERN = /^[A-Z]{2,4}-\d{1,3}[a-z*]?(?:\/\d+)?$/i;
+const REQUIREMENT_SUFFIX = /\s*\[([^\]]+)\]\s*$/;
+
+/** Splits a trailing `[...]` printing requirement off a deck line's card name. */
+export function splitPrintingRequirement(rawName: string): { name: string; printing?: PrintingRequirement } {
+  const match = rawName.match(REQUIREMENT_SUFFIX);
+  if (!match) {
+    return { name: rawName.trim() };
+  }
+
+  const printing: PrintingRequirement = { traits: [] };
+  match[1]
+    .split(/[\s,]+/)
+    .filter(Boolean)
+    .forEach((token) => {
+      if (CODE_PATTERN.test(token)) {
+        printing.code = shortCode(token);
+      } else {
+        printing.traits.push(token.toLowerCase());
+      }
+    });
+
+  return { name: rawName.slice(0, match.index).trim(), printing };
+}
+
+export function formatPrintingRequirement(printing: PrintingRequirement): string {
+  const traits = printing.traits.map((trait) => trait.charAt(0).toUpperCase() + trait.slice(1));
+  return `[${[printing.code, ...traits].filter(Boolean).join(" ")}]`;
+}
+
+/** Finish chips plus "showcase" for alternate-art printings (per the card database or a lettered collector number). */
+export function printingTraits(printing: InventoryPrinting): string[] {
+  const traits = (printing.finish ?? "")
+    .split(",")
+    .map((chip) => chip.trim().toLowerCase())
+    .filter(Boolean);
+
+  const code = printing.collectorNumber ?? "";
+  const card = CODE_PATTERN.test(code) ? getCardByPublicCode(code) : null;
+  if (card?.rarity === "Showcase" || /\d[a-z*]$/i.test(code)) {
+    traits.push("showcase");
+  }
+  return traits;
+}
+
+export function matchesPrinting(printing: InventoryPrinting, requirement: PrintingRequirement): boolean {
+  if (requirement.code) {
+    const code = printing.collectorNumber ? shortCode(printing.collectorNumber) : "";
+    // Some listings only carry the number ("#004"); compare it against the number part of the code.
+    const matchesCode = code.includes("-") ? code === requirement.code : Boolean(code) && requirement.code.endsWith(`-${code.replace(/^#/, "")}`);
+    if (!matchesCode) {
+      return false;
+    }
+  }
+
+  const traits = printingTraits(printing);
+  return requirement.traits.every((trait) => traits.includes(trait));
+}
+
+/** Copies of `name` owned in printings that satisfy `requirement`. */
+export function countMatchingPrintings(printings: InventoryPrinting[], name: string, requirement: PrintingRequirement): number {
+  return printings
+    .filter((printing) => printing.name === name && matchesPrinting(printing, requirement))
+    .reduce((sum, printing) => sum + printing.count, 0);
+}
+
+/** Owned copies of `name`, grouped by printing, largest first. */
+export function summarizeOwnedPrintings(printings: InventoryPrinting[], name: string): OwnedPrinting[] {
+  const grouped = printings
+    .filter((printing) => printing.name === name && printing.count > 0)
+    .reduce<Map<string, number>>((acc, printing) => {
+      const label = describePrinting(printing);
+      acc.set(label, (acc.get(label) ?? 0) + printing.count);
+      return acc;
+    }, new Map());
+
+  return [...grouped].map(([label, count]) => ({ label, count })).sort((a, b) => b.count - a.count || a.label.localeCompare(b.label));
+}
+
+export function describePrinting(printing: InventoryPrinting): string {
+  const details = [printing.setName, printing.collectorNumber, printing.finish, printing.condition].filter(Boolean);
+  return details.length ? details.join(" · ") : "unspecified printing";
+}
+
+/** Whether any line carries printing details; name-only sources (count maps, collection logs) do not. */
+export function hasPrintingDetails(printings: InventoryPrinting[]): boolean {
+  return printings.some((printing) => printing.setName || printing.collectorNumber || printing.finish);
+}
+
+/** Name-level counts for deck comparison. */
+export function rollupPrintings(printings: InventoryPrinting[]): Inventory {
+  return printings.reduce<Inventory>((acc, printing) => {
+    acc[printing.name] = (acc[printing.name] ?? 0) + printing.count;
+    return acc;
+  }, {});
+}
+
+function shortCode(code: string): string {
+  return code.trim().toUpperCase().split("/")[0];
+}
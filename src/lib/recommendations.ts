@@ -0,0 +1,174 @@
+import { compareDecks, compareDeck, missingCopiesByCard, type DeckComparison, type Inventory, type StatusThresholds } from "./comparison.js";
+import { roundCents, type PriceMap } from "./prices.js";
+import type { PersistedDeck } from "./types.js";
+import { sum } from "./util.js";
+
+export type PurchaseCard = {
+  name: string;
+  quantity: number;
+  unitPriceUsd: number | null;
+};
+
+export type PurchaseRecommendation = {
+  cards: PurchaseCard[];
+  copies: number;
+  /** Cost of the priced copies; see `unpricedCopies`. */
+  costUsd: number;
+  unpricedCopies: number;
+  /** Slugs of decks that become buildable with this purchase. */
+  unlocked: string[];
+  /** Slugs of decks that move from unbuildable to close. */
+  promoted: string[];
+  /** Number of decks that end up missing fewer copies. */
+  helped: number;
+};
+
+export type PurchasePlan = {
+  steps: PurchaseRecommendation[];
+  copies: number;
+  costUsd: number;
+  unpricedCopies: number;
+  /** Every deck made buildable by the plan, in the order the steps unlock them. */
+  unlocked: string[];
+};
+
+export type PurchaseOptions = {
+  thresholds: number | StatusThresholds;
+  prices?: PriceMap;
+  /** Decks missing at most this many copies are also offered as one bundle (default 6). */
+  maxBundleCopies?: number;
+};
+
+export const DEFAULT_MAX_BUNDLE_COPIES = 6;
+
+/**
+ * Ranks single-card purchases, and the full shortfall of nearly complete decks as bundles, by how
+ * many decks they make buildable, then by how many they bring within the "close" threshold and how
+ * many they help at all. Cheaper and smaller purchases win ties.
+ */
+export function recommendPurchases(
+  decks: PersistedDeck[],
+  inventory: Inventory,
+  options: PurchaseOptions
+): PurchaseRecommendation[] {
+  const comparisons = compareDecks(decks, inventory, options.thresholds, options.prices);
+  const incomplete = comparisons.filter((comparison) => comparison.totalMissing > 0);
+  const maxBundleCopies = options.maxBundleCopies ?? DEFAULT_MAX_BUNDLE_COPIES;
+
+  const candidates = new Map<string, Inventory>();
+  const addCandidate = (cards: Inventory) => {
+    const key = Object.entries(cards)
+      .sort(([a], [b]) => a.localeCompare(b))
+      .map(([name, quantity]) => `${quantity}x${name}`)
+      .join("|");
+    candidates.set(key, cards);
+  };
+
+  incomplete.forEach((comparison) => {
+    const needs = missingCopiesByCard(comparison);
+    Object.entries(needs).forEach(([name, quantity]) => addCandidate({ [name]: quantity }));
+    if (sum(Object.values(needs)) <= maxBundleCopies && Object.keys(needs).length > 1) {
+      addCandidate(needs);
+    }
+  });
+
+  const recommendations = [...candidates.values()].map((cards) => evaluatePurchase(cards, incomplete, inventory, options));
+
+  return recommendations
+    .filter((recommendation) => recommendation.helped > 0)
+    .sort(
+      (a, b) =>
+        b.unlocked.length - a.unlocked.length ||
+        b.promoted.length - a.promoted.length ||
+        b.helped - a.helped ||
+        a.unpricedCopies - b.unpricedCopies ||
+        a.costUsd - b.costUsd ||
+        a.copies - b.copies ||
+        a.cards[0].name.localeCompare(b.cards[0].name)
+    );
+}
+
+/**
+ * Answers "which N copies should I buy": repeatedly takes the best recommendation that fits the
+ * remaining copy budget and unlocks or promotes at least one deck, adding it to the inventory
+ * before ranking again.
+ */
+export function planPurchases(
+  decks: PersistedDeck[],
+  inventory: Inventory,
+  budgetCopies: number,
+  options: PurchaseOptions
+): PurchasePlan {
+  const pool = { ...inventory };
+  const steps: PurchaseRecommendation[] = [];
+  let remaining = budgetCopies;
+
+  while (remaining > 0) {
+    const next = recommendPurchases(decks, pool, options).find(
+      (recommendation) =>
+        recommendation.copies <= remaining && (recommendation.unlocked.length > 0 || recommendation.promoted.length > 0)
+    );
+    if (!next) {
+      break;
+    }
+    next.cards.forEach((card) => {
+      pool[card.name] = (pool[card.name] ?? 0) + card.quantity;
+    });
+    remaining -= next.copies;
+    steps.push(next);
+  }
+
+  return {
+    steps,
+    copies: sum(steps.map((step) => step.copies)),
+    costUsd: roundCents(sum(steps.map((step) => step.costUsd))),
+    unpricedCopies: sum(steps.map((step) => step.unpricedCopies)),
+    unlocked: steps.flatMap((step) => step.unlocked)
+  };
+}
+
+function evaluatePurchase(
+  cards: Inventory,
+  incomplete: DeckComparison[],
+  inventory: Inventory,
+  options: PurchaseOptions
+): PurchaseRecommendation {
+  const boosted = { ...inventory };
+  Object.entries(cards).forEach(([name, quantity]) => {
+    boosted[name] = (boosted[name] ?? 0) + quantity;
+  });
+
+  const unlocked: string[] = [];
+  const promoted: string[] = [];
+  let helped = 0;
+
+  incomplete
+    .filter((comparison) => comparison.missingCards.some((card) => card.name in cards))
+    .forEach((before) => {
+      const after = compareDeck(before.deck, boosted, options.thresholds, options.prices);
+      if (after.totalMissing < before.totalMissing) {
+        helped += 1;
+      }
+      if (after.status === "buildable") {
+        unlocked.push(before.deck.slug);
+      } else if (before.status === "unbuildable" && after.status === "close") {
+        promoted.push(before.deck.slug);
+      }
+    });
+
+  const purchase = Object.entries(cards).map(([name, quantity]) => ({
+    name,
+    quantity,
+    unitPriceUsd: options.prices?.[name] ?? null
+  }));
+
+  return {
+    cards: purchase,
+    copies: sum(purchase.map((card) => card.quantity)),
+    costUsd: roundCents(sum(purchase.map((card) => (card.unitPriceUsd ?? 0) * card.quantity))),
+    unpricedCopies: sum(purchase.map((card) => (card.unitPriceUsd == null ? card.quantity : 0))),
+    unlocked,
+    promoted,
+    helped
+  };
+}
@@ -0,0 +1,100 @@
+import { missingCopiesByCard, type DeckComparison } from "./comparison.js";
+import { formatUsd, roundCents, type PriceMap } from "./prices.js";
+import { csvCell, sum } from "./util.js";
+
+export type ShoppingListEntry = {
+  name: string;
+  /** Largest shortfall of this card across the selected decks, since the same copies serve every deck. */
+  quantity: number;
+  unitPriceUsd: number | null;
+  totalUsd: number | null;
+  /** Slugs of the selected decks that are missing this card. */
+  decks: string[];
+};
+
+export type ShoppingList = {
+  entries: ShoppingListEntry[];
+  totalCopies: number;
+  /** Sum over priced entries only; see `unpricedCards`. */
+  totalUsd: number;
+  unpricedCards: number;
+};
+
+export type ShoppingListFormat = "text" | "csv" | "json";
+
+/**
+ * Merges the missing cards of several decks into one list. Quantities take the max need per card
+ * rather than the sum, because decks are not assumed to be built at the same time (use the build
+ * planner for that). Entries are ranked by decks helped per dollar; unpriced cards go last.
+ */
+export function buildShoppingList(comparisons: DeckComparison[], prices: PriceMap): ShoppingList {
+  const merged = new Map<string, { quantity: number; decks: Set<string> }>();
+
+  comparisons.forEach((comparison) => {
+    Object.entries(missingCopiesByCard(comparison)).forEach(([name, missing]) => {
+      const current = merged.get(name) ?? { quantity: 0, decks: new Set<string>() };
+      current.quantity = Math.max(current.quantity, missing);
+      current.decks.add(comparison.deck.slug);
+      merged.set(name, current);
+    });
+  });
+
+  const entries = [...merged].map(([name, { quantity, decks }]) => {
+    const unitPriceUsd = prices[name] ?? null;
+    return {
+      name,
+      quantity,
+      unitPriceUsd,
+      totalUsd: unitPriceUsd == null ? null : roundCents(unitPriceUsd * quantity),
+      decks: [...decks]
+    };
+  });
+
+  entries.sort((a, b) => {
+    if ((a.totalUsd == null) !== (b.totalUsd == null)) {
+      return a.totalUsd == null ? 1 : -1;
+    }
+    const valueA = a.totalUsd == null ? 0 : decksPerDollar(a);
+    const valueB = b.totalUsd == null ? 0 : decksPerDollar(b);
+    return valueB - valueA || b.decks.length - a.decks.length || a.name.localeCompare(b.name);
+  });
+
+  return {
+    entries,
+    totalCopies: sum(entries.map((entry) => entry.quantity)),
+    totalUsd: roundCents(sum(entries.map((entry) => entry.totalUsd ?? 0))),
+    unpricedCards: entries.filter((entry) => entry.totalUsd == null).length
+  };
+}
+
+export function formatShoppingList(list: ShoppingList, format: ShoppingListFormat): string {
+  if (format === "json") {
+    return JSON.stringify(list, null, 2);
+  }
+
+  if (format === "csv") {
+    const rows = list.entries.map((entry) =>
+      [
+        csvCell(entry.name),
+        entry.quantity,
+        entry.unitPriceUsd ?? "",
+        entry.totalUsd ?? "",
+        entry.decks.length,
+        csvCell(entry.decks.join(" "))
+      ].join(",")
+    );
+    return ["name,quantity,unit_price_usd,total_usd,deck_count,decks", ...rows].join("\n");
+  }
+
+  const lines = list.entries.map((entry) => {
+    const price = entry.unitPriceUsd == null ? "no price" : `${formatUsd(entry.unitPriceUsd)} each, ${formatUsd(entry.totalUsd)}`;
+    return `${entry.quantity} ${entry.name} — ${price} · ${entry.decks.length} deck(s)`;
+  });
+  const unpriced = list.unpricedCards ? ` (${list.unpricedCards} card(s) without a price)` : "";
+  return [...lines, "", `Total: ${list.totalCopies} copies, ${formatUsd(list.totalUsd)}${unpriced}`].join("\n");
+}
+
+function decksPerDollar(entry: ShoppingListEntry): number {
+  // Free cards (bulk priced at $0) rank first.
+  return entry.totalUsd ? entry.decks.length / entry.totalUsd : Number.POSITIVE_INFINITY;
+}
@@ -0,0 +1,35 @@
+import fs from "node:fs/promises";
+import path from "node:path";
+import { readSnapshots, type MetaSnapshot } from "./metaTrends.js";
+
+/** Writes `<dir>/meta-<timestamp>.json` and returns its path. */
+export async function saveSnapshot(dir: string, snapshot: MetaSnapshot): Promise<string> {
+  await fs.mkdir(dir, { recursive: true });
+  const filePath = path.join(dir, `meta-${snapshot.takenAt.replace(/[:.]/g, "-")}.json`);
+  await fs.writeFile(filePath, JSON.stringify(snapshot, null, 2), "utf8");
+  return filePath;
+}
+
+/**
+ * Reads every snapshot in `source`, oldest first, keeping only the last `limit` when it is set.
+ * `source` is either a snapshot directory or a single file holding one snapshot or an array of them.
+ */
+export async function loadSnapshots(source: string, limit?: number): Promise<MetaSnapshot[]> {
+  const stats = await fs.stat(source).catch((error: NodeJS.ErrnoException) => {
+    if (error.code === "ENOENT") {
+      return null;
+    }
+    throw error;
+  });
+  const files = !stats
+    ? []
+    : stats.isFile()
+      ? [source]
+      : (await fs.readdir(source)).filter((file) => file.endsWith(".json")).map((file) => path.join(source, file));
+  const snapshots = await Promise.all(
+    files.map(async (file) => readSnapshots(JSON.parse(await fs.readFile(file, "utf8")), `Snapshot ${path.basename(file)}`))
+  );
+
+  const ordered = snapshots.flat().sort((a, b) => a.takenAt.localeCompare(b.takenAt));
+  return limit ? ordered.slice(-limit) : ordered;
+}
@@ -1,14 +1,41 @@
 import type { DeckExport } from "./deckParser.js";
 
+/** Where on Piltover Archive a deck was found; library tabs are ranked, explicit URLs keep their list order. */
+export type DeckSource = "most-viewed" | "newest" | "top-rated" | "tournament" | "url" | "user";
+
+export const DECK_SOURCES: DeckSource[] = ["most-viewed", "newest", "top-rated", "tournament", "url", "user"];
+
 export type ScrapedDeck = {
   slug: string;
   label: string;
   url: string;
   exportText: string;
+  /** Missing on decks scraped before sources were recorded, and on the bundled sample. */
+  source?: DeckSource;
+  /** 1-based position within the source listing. */
+  rank?: number;
 };
 
 export type PersistedDeck = ScrapedDeck & {
   parsed?: DeckExport;
+  /** Short content hash of `exportText`; see `hashExportText`. */
+  hash?: string;
+  /** ISO timestamps: first and latest run that listed the deck, and the last time its export was downloaded. */
+  firstSeen?: string;
+  lastSeen?: string;
+  fetchedAt?: string;
+  /** ISO timestamp of the first download of the current `exportText`. */
+  changedAt?: string;
+  /** Earlier exports of this deck, oldest first; the current one is not repeated here. */
+  versions?: DeckVersion[];
+};
+
+export type DeckVersion = {
+  hash: string;
+  exportText: string;
+  /** When this export was first downloaded, and when a different one replaced it. */
+  since: string;
+  until: string;
 };
 
 export type InventoryCard = {
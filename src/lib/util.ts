@@ -0,0 +1,10 @@
+/** Small helpers shared by the report modules. */
+
+export function sum(values: number[]): number {
+  return values.reduce((total, value) => total + value, 0);
+}
+
+/** Quotes a CSV field when it contains a comma, quote or line break. */
+export function csvCell(value: string): string {
+  return /[",\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+}
@@ -0,0 +1,117 @@
+import { canonicalCardName, resolveCard } from "./cardDb.js";
+import type { CardEntry, DeckExport } from "./deckParser.js";
+
+export const MAIN_DECK_MIN_SIZE = 40;
+export const COPY_LIMIT = 3;
+export const RUNE_DECK_SIZE = 12;
+export const BATTLEFIELD_COUNT = 3;
+
+export type DeckRule = "legend" | "champion" | "main-size" | "copy-limit" | "rune-count" | "battlefields" | "domain";
+
+export type DeckViolation = {
+  rule: DeckRule;
+  message: string;
+  cards?: string[];
+};
+
+export type DeckValidation = {
+  legal: boolean;
+  violations: DeckViolation[];
+};
+
+const sumCounts = (entries: CardEntry[]) => entries.reduce((sum, card) => sum + card.count, 0);
+/** Printings and spelling variants of a card count as the same card, as in `collectDeckRequirements`. */
+const cardKey = (card: CardEntry) => canonicalCardName(card.name) ?? card.name;
+
+/**
+ * Checks a parsed deck against the Riftbound constructed rules. The chosen champion counts
+ * towards the main deck, and copy limits apply across the main deck, champion and sideboard.
+ * Cards missing from the card database are skipped by the domain check rather than flagged.
+ */
+export function validateDeck(deck: DeckExport): DeckValidation {
+  const violations: DeckViolation[] = [];
+  const legend = deck.legend ?? [];
+  const champion = deck.champion ?? [];
+
+  const legendCopies = sumCounts(legend);
+  if (legendCopies !== 1) {
+    violations.push({
+      rule: "legend",
+      message: legendCopies === 0 ? "No legend found." : `Expected exactly 1 legend, found ${legendCopies}.`,
+      cards: legend.map((card) => card.name)
+    });
+  }
+
+  const legendCard = legend.length === 1 ? resolveCard(legend[0].name) : null;
+  if (champion.length !== 1) {
+    violations.push({
+      rule: "champion",
+      message: champion.length === 0 ? "No chosen champion found." : `Expected 1 chosen champion, found ${champion.length}.`,
+      cards: champion.map((card) => card.name)
+    });
+  } else if (legend.length === 1) {
+    const championTag = champion[0].name.split(",")[0].trim();
+    const legendTag = legend[0].name.split(",")[0].trim();
+    if (legend[0].name.includes(",") && championTag !== legendTag) {
+      violations.push({
+        rule: "champion",
+        message: `Chosen champion ${champion[0].name} does not match legend ${legend[0].name}.`,
+        cards: [champion[0].name]
+      });
+    }
+  }
+
+  const mainSize = sumCounts(deck.main) + sumCounts(champion);
+  if (mainSize < MAIN_DECK_MIN_SIZE) {
+    violations.push({
+      rule: "main-size",
+      message: `Main deck has ${mainSize} card(s); at least ${MAIN_DECK_MIN_SIZE} are required.`
+    });
+  }
+
+  const copies = [...champion, ...deck.main, ...deck.sideboard].reduce<Map<string, number>>((acc, card) => {
+    acc.set(cardKey(card), (acc.get(cardKey(card)) ?? 0) + card.count);
+    return acc;
+  }, new Map());
+  const overLimit = [...copies].filter(([, count]) => count > COPY_LIMIT).map(([name]) => name);
+  if (overLimit.length > 0) {
+    violations.push({
+      rule: "copy-limit",
+      message: `More than ${COPY_LIMIT} copies of ${overLimit.join(", ")}.`,
+      cards: overLimit
+    });
+  }
+
+  const runeCount = sumCounts(deck.runes);
+  if (runeCount !== RUNE_DECK_SIZE) {
+    violations.push({
+      rule: "rune-count",
+      message: `Rune deck has ${runeCount} rune(s); exactly ${RUNE_DECK_SIZE} are required.`
+    });
+  }
+
+  const battlefieldNames = new Set(deck.battlefields.map(cardKey));
+  const battlefieldCount = sumCounts(deck.battlefields);
+  if (battlefieldCount !== BATTLEFIELD_COUNT || battlefieldNames.size !== battlefieldCount) {
+    violations.push({
+      rule: "battlefields",
+      message: `Expected ${BATTLEFIELD_COUNT} different battlefields, found ${battlefieldCount} (${battlefieldNames.size} unique).`
+    });
+  }
+
+  if (legendCard) {
+    const allowed = new Set([...legendCard.domains, "Colorless"]);
+    const offDomain = [...champion, ...deck.main, ...deck.runes, ...deck.sideboard]
+      .filter((card) => resolveCard(card.name)?.domains.some((domain) => !allowed.has(domain)))
+      .map((card) => card.name);
+    if (offDomain.length > 0) {
+      violations.push({
+        rule: "domain",
+        message: `Outside the legend's domains (${legendCard.domains.join(" / ")}): ${offDomain.join(", ")}.`,
+        cards: offDomain
+      });
+    }
+  }
+
+  return { legal: violations.length === 0, violations };
+}
@@ -0,0 +1,99 @@
+import fs from "node:fs/promises";
+import path from "node:path";
+import { loadDecks } from "./lib/dataFiles.js";
+import { buildMetaReport, type MetaEntry } from "./lib/meta.js";
+
+type MetaOptions = {
+  decksPath: string;
+  top: number;
+  jsonOutputPath?: string;
+};
+
+async function main() {
+  const options = parseMetaArgs(process.argv.slice(2));
+  const decks = await loadDecks(options.decksPath);
+  const report = buildMetaReport(decks);
+
+  console.log("=== Meta Report ===");
+  console.log(`Decks: ${report.deckCount} from ${options.decksPath}`);
+
+  printTable(
+    `Most played cards (top ${options.top})`,
+    ["Card", "Decks", "Share", "Avg copies", "Total"],
+    report.cards
+      .slice(0, options.top)
+      .map((card) => [card.name, String(card.decks), formatShare(card.share), card.averageCopies.toFixed(2), String(card.totalCopies)])
+  );
+  printEntries("Legends", report.legends, options.top);
+  printEntries("Chosen champions", report.champions, options.top);
+  printEntries("Domain pairs", report.domainPairs, options.top);
+  printEntries("Battlefields", report.battlefields, options.top);
+  printEntries("Rune splits", report.runeSplits, options.top);
+
+  if (options.jsonOutputPath) {
+    await fs.mkdir(path.dirname(options.jsonOutputPath), { recursive: true });
+    await fs.writeFile(options.jsonOutputPath, JSON.stringify(report, null, 2), "utf8");
+    console.log("");
+    console.log(`Saved meta JSON to ${options.jsonOutputPath}`);
+  }
+}
+
+function printEntries(title: string, entries: MetaEntry[], top: number) {
+  printTable(
+    title,
+    ["Name", "Decks", "Share"],
+    entries.slice(0, top).map((entry) => [entry.name, String(entry.decks), formatShare(entry.share)])
+  );
+}
+
+/** Left-aligns the first column and right-aligns the rest. */
+function printTable(title: string, headers: string[], rows: string[][]) {
+  console.log("");
+  console.log(title);
+  if (rows.length === 0) {
+    console.log("  (none)");
+    return;
+  }
+
+  const widths = headers.map((header, column) => Math.max(header.length, ...rows.map((row) => row[column].length)));
+  const formatRow = (row: string[]) =>
+    `  ${row.map((cell, column) => (column === 0 ? cell.padEnd(widths[column]) : cell.padStart(widths[column]))).join("  ")}`;
+
+  console.log(formatRow(headers));
+  console.log(`  ${widths.map((width) => "-".repeat(width)).join("  ")}`);
+  rows.forEach((row) => console.log(formatRow(row)));
+}
+
+function formatShare(share: number): string {
+  return `${(share * 100).toFixed(1)}%`;
+}
+
+function parseMetaArgs(argv: string[]): MetaOptions {
+  let decksPath = path.resolve(process.cwd(), "data/most-viewed.json");
+  let top = 15;
+  let jsonOutputPath: string | undefined;
+
+  argv.forEach((arg, index) => {
+    if (arg === "--decks" && argv[index + 1]) {
+      decksPath = path.resolve(process.cwd(), argv[index + 1]);
+    }
+
+    if (arg === "--top" && argv[index + 1]) {
+      const parsed = Number(argv[index + 1]);
+      if (!Number.isNaN(parsed)) {
+        top = Math.max(1, Math.floor(parsed));
+      }
+    }
+
+    if (arg === "--json" && argv[index + 1]) {
+      jsonOutputPath = path.resolve(process.cwd(), argv[index + 1]);
+    }
+  });
+
+  return { decksPath, top, jsonOutputPath };
+}
+
+main().catch((error) => {
+  console.error(error);
+  process.exit(1);
+});
@@ -0,0 +1,161 @@
+import fs from "node:fs/promises";
+import path from "node:path";
+import { loadDecks, loadInventory, loadPrices } from "./lib/dataFiles.js";
+import { formatUsd } from "./lib/prices.js";
+import {
+  DEFAULT_MAX_BUNDLE_COPIES,
+  planPurchases,
+  recommendPurchases,
+  type PurchaseRecommendation
+} from "./lib/recommendations.js";
+
+type RecommendOptions = {
+  decksPath: string;
+  inventoryPath: string;
+  pricesPath?: string;
+  maxMissing?: number;
+  maxCostUsd?: number;
+  budget: number;
+  maxBundleCopies: number;
+  top: number;
+  jsonOutputPath?: string;
+};
+
+async function main() {
+  const options = parseRecommendArgs(process.argv.slice(2));
+
+  const [inventory, decks, prices] = await Promise.all([
+    loadInventory(options.inventoryPath),
+    loadDecks(options.decksPath),
+    loadPrices(options.inventoryPath, options.pricesPath)
+  ]);
+
+  const hasPrices = Object.keys(prices).length > 0 || options.maxCostUsd != null;
+  const purchaseOptions = {
+    thresholds: { maxMissing: options.maxMissing, maxCostUsd: options.maxCostUsd },
+    prices: hasPrices ? prices : undefined,
+    maxBundleCopies: options.maxBundleCopies
+  };
+  const recommendations = recommendPurchases(decks, inventory, purchaseOptions);
+  const plan = planPurchases(decks, inventory, options.budget, purchaseOptions);
+  const labels = new Map(decks.map((deck) => [deck.slug, deck.label]));
+
+  console.log("=== Purchase Recommendations ===");
+  console.log(`Decks: ${decks.length} from ${options.decksPath}`);
+  console.log(`Inventory: ${Object.keys(inventory).length} unique cards from ${options.inventoryPath}`);
+
+  console.log("");
+  console.log(`Best ${options.budget} copies`);
+  if (plan.steps.length === 0) {
+    console.log(`  No purchase of up to ${options.budget} copies unlocks or promotes a deck.`);
+  } else {
+    plan.steps.forEach((step, index) => console.log(`  ${index + 1}. ${formatRecommendation(step, labels)}`));
+    const unpriced = plan.unpricedCopies ? ` + ${plan.unpricedCopies} unpriced` : "";
+    console.log(`  Total: ${plan.copies} copies, ${formatUsd(plan.costUsd)}${unpriced}; ${plan.unlocked.length} deck(s) unlocked`);
+  }
+
+  console.log("");
+  console.log(`Top purchases (${Math.min(options.top, recommendations.length)} of ${recommendations.length})`);
+  if (recommendations.length === 0) {
+    console.log("  Nothing to buy: every deck is buildable.");
+  }
+  recommendations.slice(0, options.top).forEach((recommendation, index) => {
+    console.log(`  ${index + 1}. ${formatRecommendation(recommendation, labels)}`);
+  });
+
+  if (options.jsonOutputPath) {
+    await fs.mkdir(path.dirname(options.jsonOutputPath), { recursive: true });
+    await fs.writeFile(options.jsonOutputPath, JSON.stringify({ plan, recommendations }, null, 2), "utf8");
+    console.log("");
+    console.log(`Saved recommendations JSON to ${options.jsonOutputPath}`);
+  }
+}
+
+function formatRecommendation(recommendation: PurchaseRecommendation, labels: Map<string, string>): string {
+  const cards = recommendation.cards.map((card) => `${card.quantity} ${card.name}`).join(", ");
+  const price = recommendation.unpricedCopies
+    ? `${formatUsd(recommendation.costUsd)} + ${recommendation.unpricedCopies} unpriced`
+    : formatUsd(recommendation.costUsd);
+  const effects = [
+    recommendation.unlocked.length ? `unlocks ${recommendation.unlocked.map((slug) => labels.get(slug) ?? slug).join(", ")}` : null,
+    recommendation.promoted.length ? `brings ${recommendation.promoted.length} deck(s) within reach` : null,
+    `helps ${recommendation.helped} deck(s)`
+  ].filter(Boolean);
+  return `${cards} (${price}) — ${effects.join("; ")}`;
+}
+
+function parseRecommendArgs(argv: string[]): RecommendOptions {
+  let decksPath = path.resolve(process.cwd(), "data/most-viewed.json");
+  let inventoryPath = path.resolve(process.cwd(), "data/sample-inventory.json");
+  let pricesPath: string | undefined;
+  let maxMissing: number | undefined;
+  let maxCostUsd: number | undefined;
+  let budget = 5;
+  let maxBundleCopies = DEFAULT_MAX_BUNDLE_COPIES;
+  let top = 10;
+  let jsonOutputPath: string | undefined;
+
+  argv.forEach((arg, index) => {
+    if (arg === "--decks" && argv[index + 1]) {
+      decksPath = path.resolve(process.cwd(), argv[index + 1]);
+    }
+
+    if (arg === "--inventory" && argv[index + 1]) {
+      inventoryPath = path.resolve(process.cwd(), argv[index + 1]);
+    }
+
+    if (arg === "--prices" && argv[index + 1]) {
+      pricesPath = path.resolve(process.cwd(), argv[index + 1]);
+    }
+
+    if (arg === "--max-missing" && argv[index + 1]) {
+      const parsed = Number(argv[index + 1]);
+      if (!Number.isNaN(parsed)) {
+        maxMissing = Math.max(0, Math.floor(parsed));
+      }
+    }
+
+    if (arg === "--max-cost" && argv[index + 1]) {
+      const parsed = Number(argv[index + 1]);
+      if (!Number.isNaN(parsed)) {
+        maxCostUsd = Math.max(0, parsed);
+      }
+    }
+
+    if (arg === "--budget" && argv[index + 1]) {
+      const parsed = Number(argv[index + 1]);
+      if (!Number.isNaN(parsed)) {
+        budget = Math.max(1, Math.floor(parsed));
+      }
+    }
+
+    if (arg === "--bundle" && argv[index + 1]) {
+      const parsed = Number(argv[index + 1]);
+      if (!Number.isNaN(parsed)) {
+        maxBundleCopies = Math.max(0, Math.floor(parsed));
+      }
+    }
+
+    if (arg === "--top" && argv[index + 1]) {
+      const parsed = Number(argv[index + 1]);
+      if (!Number.isNaN(parsed)) {
+        top = Math.max(1, Math.floor(parsed));
+      }
+    }
+
+    if (arg === "--json" && argv[index + 1]) {
+      jsonOutputPath = path.resolve(process.cwd(), argv[index + 1]);
+    }
+  });
+
+  if (maxMissing == null && maxCostUsd == null) {
+    maxMissing = 4;
+  }
+
+  return { decksPath, inventoryPath, pricesPath, maxMissing, maxCostUsd, budget, maxBundleCopies, top, jsonOutputPath };
+}
+
+main().catch((error) => {
+  console.error(error);
+  process.exit(1);
+});
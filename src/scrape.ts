@@ -1,55 +1,116 @@
 import fs from "node:fs/promises";
 import path from "node:path";
 import { chromium, type Locator, type Page } from "playwright";
-import { parseExportedDeck } from "./lib/deckParser.js";
-import type { ScrapedDeck } from "./lib/types.js";
+import { DEFAULT_DECK_TTL_HOURS, isFresh, loadDeckCache, mergeDeckCache, stampDeck } from "./lib/deckCache.js";
+import { formatParseIssue, parseDeckText } from "./lib/deckParser.js";
+import { startFixtureServer } from "./lib/fixtureServer.js";
+import { saveSnapshot } from "./lib/snapshots.js";
+import { DECK_SOURCES, type DeckSource, type PersistedDeck, type ScrapedDeck } from "./lib/types.js";
 
 const BASE_URL = "https://piltoverarchive.com";
-const DECK_LIBRARY_URL = `${BASE_URL}/decks`;
+
+/** Tab names on the `/decks` library page, keyed by the `--source` value that selects them. */
+const LIBRARY_TABS: Record<LibraryTabSource, RegExp> = {
+  "most-viewed": /Most Viewed/i,
+  newest: /Newest/i,
+  "top-rated": /Top Rated/i,
+  tournament: /Tournament/i
+};
+
+type LibraryTabSource = "most-viewed" | "newest" | "top-rated" | "tournament";
+
+const DECK_LINK_SELECTOR = 'a[href^="/decks/view/"]';
+const MAX_LISTING_PAGES = 20;
 
 export type ScrapeOptions = {
   headless: boolean;
-  mode: "sample" | "live";
+  /** `fixture` runs the live browser flow against saved HTML snapshots served from `fixtureDir`. */
+  mode: "sample" | "live" | "fixture";
   samplePath: string;
+  fixtureDir: string;
+  source: DeckSource;
+  /** Deck pages for the `url` source, from `--url`. */
+  deckUrls: string[];
+  /** Text file of deck pages for the `url` source, read after the `--url` entries. */
+  urlsPath?: string;
+  /** Piltover Archive handle for the `user` source. */
+  user: string;
   limit: number;
   outputPath: string;
   requestDelayMs: number;
+  /** Decks whose export was downloaded within this window are reused from the output file; 0 refetches all. */
+  ttlHours: number;
+  /** When false the output file is overwritten with this run's decks only. */
+  merge: boolean;
+  /** Directory for dated meta snapshots of each run; unset skips them (the default outside live mode). */
+  snapshotDir?: string;
 };
 
-async function scrapeMostViewedDecks(options: ScrapeOptions): Promise<ScrapedDeck[]> {
+type ScrapeResult = { deck: ScrapedDeck; fromCache: boolean };
+
+type DeckSummary = Omit<ScrapedDeck, "exportText" | "label"> & { label?: string };
+
+async function scrapeDecks(options: ScrapeOptions, cache: Map<string, PersistedDeck>): Promise<ScrapeResult[]> {
   if (options.mode === "sample") {
     const exportText = await fs.readFile(options.samplePath, "utf8");
     return [
       {
-        slug: "sample",
-        label: "Sample Deck",
-        url: options.samplePath,
-        exportText
+        deck: {
+          slug: "sample",
+          label: "Sample Deck",
+          url: options.samplePath,
+          exportText
+        },
+        fromCache: false
       }
     ];
   }
 
+  if (options.mode === "fixture") {
+    const server = await startFixtureServer(options.fixtureDir);
+    try {
+      return await scrapeDeckSource(options, server.url, cache);
+    } finally {
+      await server.close();
+    }
+  }
+
+  return scrapeDeckSource(options, BASE_URL, cache);
+}
+
+async function scrapeDeckSource(
+  options: ScrapeOptions,
+  baseUrl: string,
+  cache: Map<string, PersistedDeck>
+): Promise<ScrapeResult[]> {
   const browser = await chromium.launch({ headless: options.headless });
   const context = await browser.newContext();
   const listingPage = await context.newPage();
 
   try {
-    await listingPage.goto(DECK_LIBRARY_URL, { waitUntil: "domcontentloaded" });
-    await acceptCookies(listingPage);
-
-    const deckSummaries = await collectMostViewedSummaries(listingPage, options.limit);
+    const deckSummaries = await collectSummaries(listingPage, options, baseUrl);
     if (deckSummaries.length === 0) {
-      console.warn("No decks detected under the Most Viewed tab.");
+      console.warn(`No decks detected for source ${options.source}.`);
       return [];
     }
 
     const detailPage = await context.newPage();
-    const scraped: ScrapedDeck[] = [];
+    const scraped: ScrapeResult[] = [];
+    const now = new Date();
+    const ttlMs = options.ttlHours * 60 * 60 * 1000;
 
     for (const summary of deckSummaries) {
+      const cached = cache.get(summary.slug);
+      if (isFresh(cached, now, ttlMs)) {
+        const label = summary.label ?? cached.label;
+        scraped.push({ deck: { ...summary, label, exportText: cached.exportText }, fromCache: true });
+        continue;
+      }
+
       try {
         const exportText = await fetchDeckExport(detailPage, summary.url);
-        scraped.push({ ...summary, exportText });
+        const label = summary.label ?? (await readDeckTitle(detailPage)) ?? summary.slug;
+        scraped.push({ deck: { ...summary, label, exportText }, fromCache: false });
       } catch (error) {
         console.error(`Failed to fetch export text for ${summary.url}:`, error);
       }
@@ -66,53 +127,172 @@ async function scrapeMostViewedDecks(options: ScrapeOptions): Promise<ScrapedDec
   }
 }
 
-async function collectMostViewedSummaries(page: Page, limit: number): Promise<Array<Omit<ScrapedDeck, "exportText">>> {
-  const tab = page.getByRole("tab", { name: /Most Viewed/i });
+async function collectSummaries(page: Page, options: ScrapeOptions, baseUrl: string): Promise<DeckSummary[]> {
+  if (options.source === "url") {
+    const listed = options.urlsPath ? await readUrlList(options.urlsPath) : [];
+    // Explicit URLs are always rebased onto `baseUrl`, so saved lists also work in fixture mode.
+    const urls = [...new Set([...options.deckUrls, ...listed].map((url) => rebaseUrl(url, baseUrl)))].slice(0, options.limit);
+    return urls.map((url, index) => ({ slug: slugFromUrl(url), url, source: "url", rank: index + 1 }));
+  }
+
+  if (options.source === "user") {
+    await page.goto(`${baseUrl}/users/${encodeURIComponent(options.user)}`, { waitUntil: "domcontentloaded" });
+    await acceptCookies(page);
+    return collectDeckLinks(page, page.locator("main"), options.limit, baseUrl, "user");
+  }
+
+  await page.goto(`${baseUrl}/decks`, { waitUntil: "domcontentloaded" });
+  await acceptCookies(page);
+  return collectTabSummaries(page, options.source, options.limit, baseUrl);
+}
+
+async function collectTabSummaries(
+  page: Page,
+  source: LibraryTabSource,
+  limit: number,
+  baseUrl: string
+): Promise<DeckSummary[]> {
+  const tab = page.getByRole("tab", { name: LIBRARY_TABS[source] });
   const panelId = await tab.getAttribute("aria-controls");
   if (!panelId) {
-    throw new Error("Unable to locate Most Viewed tab content.");
+    throw new Error(`Unable to locate ${source} tab content.`);
   }
 
   await tab.click();
 
   const panel = page.locator(`#${panelId}`);
   await panel.waitFor({ state: "visible" });
-  await panel.locator('a[href^="/decks/view/"]').first().waitFor();
-
-  const entries = await panel
-    .locator('a[href^="/decks/view/"]')
-    .evaluateAll(
-      (links, options: { max: number; baseUrl: string }) => {
-        const results: Array<{ href: string; title: string }> = [];
-        for (const link of links) {
-          const heading = link.querySelector("h3");
-          const href = link.getAttribute("href");
-          if (!heading || !href) {
-            continue;
-          }
-
-          results.push({
-            href: new URL(href, options.baseUrl).toString(),
-            title: heading.textContent?.trim() ?? "Unknown Deck"
-          });
-
-          if (results.length >= options.max) {
-            break;
-          }
-        }
+  return collectDeckLinks(page, panel, limit, baseUrl, source);
+}
 
-        return results;
-      },
-      { max: limit, baseUrl: BASE_URL }
-    );
+/**
+ * Reads deck cards (links with an h3 title) from `container`, clicking the listing's "Next" or
+ * "Load more" control until `limit` decks are found or the listing runs out. Both controls are
+ * supported because they replace and append results respectively; entries are de-duplicated by URL.
+ */
+async function collectDeckLinks(
+  page: Page,
+  container: Locator,
+  limit: number,
+  baseUrl: string,
+  source: DeckSource
+): Promise<DeckSummary[]> {
+  const links = container.locator(DECK_LINK_SELECTOR);
+  await links.first().waitFor();
+
+  const seen = new Map<string, string>();
+  for (let listingPage = 1; listingPage <= MAX_LISTING_PAGES; listingPage += 1) {
+    const entries = await readDeckLinks(links, baseUrl);
+    entries.forEach((entry) => {
+      if (!seen.has(entry.href)) {
+        seen.set(entry.href, entry.title);
+      }
+    });
 
-  return (entries as Array<{ href: string; title: string }>).map((entry) => ({
-    slug: entry.href.split("/").pop() ?? entry.title.toLowerCase().replace(/\s+/g, "-"),
-    label: entry.title,
-    url: entry.href
+    if (seen.size >= limit) {
+      break;
+    }
+
+    const more = await findPagingControl(page, container);
+    if (!more) {
+      break;
+    }
+
+    const before = entries.map((entry) => entry.href).join("|");
+    await more.click();
+    const changed = await waitForLinksChange(links, baseUrl, before);
+    if (!changed) {
+      break;
+    }
+  }
+
+  return [...seen].slice(0, limit).map(([href, title], index) => ({
+    slug: slugFromUrl(href) || title.toLowerCase().replace(/\s+/g, "-"),
+    label: title,
+    url: href,
+    source,
+    rank: index + 1
   }));
 }
 
+async function readDeckLinks(links: Locator, baseUrl: string): Promise<Array<{ href: string; title: string }>> {
+  return links.evaluateAll(
+    (elements, base: string) => {
+      const results: Array<{ href: string; title: string }> = [];
+      for (const link of elements) {
+        const heading = link.querySelector("h3");
+        const href = link.getAttribute("href");
+        if (!heading || !href) {
+          continue;
+        }
+
+        results.push({
+          href: new URL(href, base).toString(),
+          title: heading.textContent?.trim() ?? "Unknown Deck"
+        });
+      }
+
+      return results;
+    },
+    baseUrl
+  );
+}
+
+async function findPagingControl(page: Page, container: Locator): Promise<Locator | null> {
+  const name = /^(Next|Load more|Show more)$/i;
+  for (const scope of [container, page]) {
+    const candidates = [scope.getByRole("button", { name }), scope.getByRole("link", { name })];
+    for (const candidate of candidates) {
+      const control = candidate.first();
+      if ((await control.isVisible().catch(() => false)) && !(await control.isDisabled().catch(() => true))) {
+        return control;
+      }
+    }
+  }
+
+  return null;
+}
+
+async function waitForLinksChange(links: Locator, baseUrl: string, before: string, timeoutMs = 5000): Promise<boolean> {
+  const deadline = Date.now() + timeoutMs;
+  while (Date.now() < deadline) {
+    const current = (await readDeckLinks(links, baseUrl).catch(() => [])).map((entry) => entry.href).join("|");
+    if (current && current !== before) {
+      return true;
+    }
+    await new Promise((resolve) => setTimeout(resolve, 200));
+  }
+
+  return false;
+}
+
+async function readDeckTitle(page: Page): Promise<string | null> {
+  const heading = await page
+    .locator("main h1")
+    .first()
+    .textContent({ timeout: 1000 })
+    .catch(() => null);
+  return heading?.trim() || null;
+}
+
+/** One URL per line; blank lines and `#` comments are skipped. */
+async function readUrlList(filePath: string): Promise<string[]> {
+  const raw = await fs.readFile(filePath, "utf8");
+  return raw
+    .split(/\r?\n/)
+    .map((line) => line.trim())
+    .filter((line) => line && !line.startsWith("#"));
+}
+
+function rebaseUrl(url: string, baseUrl: string): string {
+  const parsed = new URL(url, baseUrl);
+  return new URL(`${parsed.pathname}${parsed.search}`, baseUrl).toString();
+}
+
+function slugFromUrl(url: string): string {
+  return new URL(url).pathname.split("/").filter(Boolean).pop() ?? "";
+}
+
 async function fetchDeckExport(page: Page, deckUrl: string): Promise<string> {
   await page.goto(deckUrl, { waitUntil: "domcontentloaded" });
   await acceptCookies(page);
@@ -148,25 +328,52 @@ async function closeDialog(dialog: Locator, page: Page) {
 
 async function main() {
   const cliOptions = parseCliArgs(process.argv.slice(2));
-  const decks = await scrapeMostViewedDecks(cliOptions);
+  const cache = await loadDeckCache(cliOptions.outputPath);
+  const results = await scrapeDecks(cliOptions, cache);
 
-  if (decks.length === 0) {
+  if (results.length === 0) {
     console.warn("No decks scraped.");
     return;
   }
 
-  const enriched = decks.map((deck) => ({
-    ...deck,
-    parsed: parseExportedDeck(deck.exportText)
-  }));
+  const now = new Date();
+  const updates = results.map(({ deck, fromCache }) => {
+    const { deck: parsed, issues } = parseDeckText(deck.exportText);
+    issues.forEach((issue) => console.warn(`${issue.severity === "error" ? "✖" : "⚠"} ${deck.label}: ${formatParseIssue(issue)}`));
+    return { ...stampDeck(deck, cache.get(deck.slug), now, !fromCache), parsed };
+  });
+  const saved = cliOptions.merge ? mergeDeckCache(cache, updates) : updates;
 
   await fs.mkdir(path.dirname(cliOptions.outputPath), { recursive: true });
-  await fs.writeFile(cliOptions.outputPath, JSON.stringify(enriched, null, 2), "utf8");
-
-  console.log(`Saved ${enriched.length} deck(s) to ${cliOptions.outputPath}`);
-  enriched.forEach((deck) => {
-    console.log(`→ ${deck.label} (${deck.slug})`);
+  await fs.writeFile(cliOptions.outputPath, JSON.stringify(saved, null, 2), "utf8");
+
+  const reused = results.filter((result) => result.fromCache).length;
+  const kept = saved.length - updates.length;
+  console.log(
+    `Saved ${saved.length} deck(s) to ${cliOptions.outputPath}: ${updates.length - reused} fetched, ` +
+      `${reused} reused from cache, ${kept} kept from earlier runs.`
+  );
+  results.forEach(({ deck, fromCache }) => {
+    console.log(`→ ${deck.rank ? `#${deck.rank} ` : ""}${deck.label} (${deck.slug})${fromCache ? " [cached]" : ""}`);
   });
+
+  if (cliOptions.snapshotDir && cliOptions.mode !== "sample") {
+    const snapshotPath = await saveSnapshot(cliOptions.snapshotDir, {
+      takenAt: now.toISOString(),
+      source: cliOptions.source,
+      // Only what the trend report needs; the deck file keeps history and parsed data.
+      decks: updates.map(({ slug, label, url, exportText, source, rank, hash }) => ({
+        slug,
+        label,
+        url,
+        exportText,
+        source,
+        rank,
+        hash
+      }))
+    });
+    console.log(`Snapshot saved to ${snapshotPath}`);
+  }
 }
 
 function parseCliArgs(argv: string[]): ScrapeOptions {
@@ -174,9 +381,19 @@ function parseCliArgs(argv: string[]): ScrapeOptions {
   let isLiveMode = false;
   let headless = true;
   let samplePath = path.resolve(process.cwd(), "data/sample-export.txt");
+  let fixtureDir = path.resolve(process.cwd(), "data/fixtures/piltover");
   let limit = 20;
+  let limitArg = false;
   let outputPath = path.resolve(process.cwd(), "data/most-viewed.json");
   let requestDelayMs = 300;
+  let source = "most-viewed" as DeckSource;
+  const deckUrls: string[] = [];
+  let urlsPath: string | undefined;
+  let user = "";
+  let ttlHours = DEFAULT_DECK_TTL_HOURS;
+  let merge = true;
+  let snapshotDir: string | undefined;
+  let snapshots = true;
 
   argv.forEach((arg, index) => {
     if (arg === "--live") {
@@ -192,10 +409,19 @@ function parseCliArgs(argv: string[]): ScrapeOptions {
       samplePath = path.resolve(process.cwd(), argv[index + 1]);
     }
 
+    if (arg === "--fixture") {
+      mode = "fixture";
+      const next = argv[index + 1];
+      if (next && !next.startsWith("--")) {
+        fixtureDir = path.resolve(process.cwd(), next);
+      }
+    }
+
     if (arg === "--limit" && argv[index + 1]) {
       const parsed = Number(argv[index + 1]);
       if (!Number.isNaN(parsed)) {
         limit = Math.max(1, Math.floor(parsed));
+        limitArg = true;
       }
     }
 
@@ -209,14 +435,93 @@ function parseCliArgs(argv: string[]): ScrapeOptions {
         requestDelayMs = Math.max(0, Math.floor(parsed));
       }
     }
+
+    if (arg === "--source" && argv[index + 1]) {
+      const value = argv[index + 1] as DeckSource;
+      if (!DECK_SOURCES.includes(value)) {
+        throw new Error(`Unknown source ${value}. Use one of: ${DECK_SOURCES.join(", ")}.`);
+      }
+      source = value;
+    }
+
+    if (arg === "--url" && argv[index + 1]) {
+      deckUrls.push(argv[index + 1]);
+    }
+
+    if (arg === "--urls" && argv[index + 1]) {
+      urlsPath = path.resolve(process.cwd(), argv[index + 1]);
+    }
+
+    if (arg === "--user" && argv[index + 1]) {
+      user = argv[index + 1].trim();
+    }
+
+    if (arg === "--ttl" && argv[index + 1]) {
+      const parsed = Number(argv[index + 1]);
+      if (!Number.isNaN(parsed)) {
+        ttlHours = Math.max(0, parsed);
+      }
+    }
+
+    if (arg === "--refresh") {
+      ttlHours = 0;
+    }
+
+    if (arg === "--no-merge") {
+      merge = false;
+    }
+
+    if (arg === "--snapshots" && argv[index + 1]) {
+      snapshotDir = path.resolve(process.cwd(), argv[index + 1]);
+    }
+
+    if (arg === "--no-snapshot") {
+      snapshots = false;
+    }
   });
 
-  if (isLiveMode && limit < 20) {
+  if (isLiveMode && !snapshotDir) {
+    snapshotDir = path.resolve(process.cwd(), "data/snapshots");
+  }
+
+  if (source === "url" && deckUrls.length === 0 && !urlsPath) {
+    throw new Error("The url source needs deck links. Pass --url <deck url> or --urls <file>.");
+  }
+  if (source === "user" && !user) {
+    throw new Error("The user source needs a Piltover Archive handle. Pass --user <handle>.");
+  }
+  if (mode === "sample" && source !== "most-viewed") {
+    console.warn(`--source ${source} only applies with --live or --fixture; using the sample export.`);
+  }
+
+  // The minimum only makes sense for library tabs; explicit URL lists and profiles are as long as they are.
+  const isLibraryTab = source !== "url" && source !== "user";
+  if (isLiveMode && isLibraryTab && limit < 20) {
     console.warn(`Live mode requires at least 20 decks. Bumping limit from ${limit} to 20.`);
     limit = 20;
   }
 
-  return { mode, headless, samplePath, limit, outputPath, requestDelayMs };
+  // Explicit URL lists are scraped in full unless --limit says otherwise.
+  if (source === "url" && !limitArg) {
+    limit = Number.POSITIVE_INFINITY;
+  }
+
+  return {
+    mode,
+    headless,
+    samplePath,
+    fixtureDir,
+    source,
+    deckUrls,
+    urlsPath,
+    user,
+    limit,
+    outputPath,
+    requestDelayMs,
+    ttlHours,
+    merge,
+    snapshotDir: snapshots ? snapshotDir : undefined
+  };
 }
 
 main().catch((error) => {
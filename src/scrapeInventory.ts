@@ -1,6 +1,7 @@
 import fs from "node:fs/promises";
 import path from "node:path";
 import { chromium, type Page } from "playwright";
+import { startFixtureServer } from "./lib/fixtureServer.js";
 import type { InventoryCard } from "./lib/types.js";
 
 const CARDNEXUS_BASE_URL = "https://app.cardnexus.com/en/users";
@@ -11,6 +12,8 @@ export type InventoryScrapeOptions = {
   outputPath: string;
   delayMs: number;
   maxPages: number; // 0 == unlimited
+  /** Serve saved inventory pages from this directory instead of hitting CardNexus. */
+  fixtureDir?: string;
 };
 
 type InventoryScrapeResult = {
@@ -20,9 +23,22 @@ type InventoryScrapeResult = {
 };
 
 async function scrapeInventory(options: InventoryScrapeOptions): Promise<InventoryScrapeResult> {
+  if (options.fixtureDir) {
+    const server = await startFixtureServer(options.fixtureDir);
+    try {
+      return await scrapeInventoryPages(options, `${server.url}/en/users`);
+    } finally {
+      await server.close();
+    }
+  }
+
+  return scrapeInventoryPages(options, CARDNEXUS_BASE_URL);
+}
+
+async function scrapeInventoryPages(options: InventoryScrapeOptions, baseUrl: string): Promise<InventoryScrapeResult> {
   const browser = await chromium.launch({ headless: options.headless });
   const page = await browser.newPage();
-  const inventoryUrl = `${CARDNEXUS_BASE_URL}/${options.username}/inventory`;
+  const inventoryUrl = `${baseUrl}/${options.username}/inventory`;
 
   try {
     await page.goto(inventoryUrl, { waitUntil: "domcontentloaded" });
@@ -216,6 +232,7 @@ function parseCliArgs(argv: string[]): InventoryScrapeOptions {
   let outputPath = path.resolve(process.cwd(), "data/inventory.json");
   let delayMs = 250;
   let maxPages = 0;
+  let fixtureDir: string | undefined;
 
   argv.forEach((arg, index) => {
     if (arg === "--user" && argv[index + 1]) {
@@ -243,13 +260,22 @@ function parseCliArgs(argv: string[]): InventoryScrapeOptions {
         maxPages = Math.max(0, Math.floor(parsed));
       }
     }
+
+    if (arg === "--fixture") {
+      const next = argv[index + 1];
+      fixtureDir = path.resolve(process.cwd(), next && !next.startsWith("--") ? next : "data/fixtures/cardnexus");
+    }
   });
 
+  if (fixtureDir && !username) {
+    username = "fixture";
+  }
+
   if (!username) {
     throw new Error("Missing CardNexus username. Pass --user <handle> or set CARDNEXUS_USER.");
   }
 
-  return { username, headless, outputPath, delayMs, maxPages };
+  return { username, headless, outputPath, delayMs, maxPages, fixtureDir };
 }
 
 main().catch((error) => {
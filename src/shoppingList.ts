@@ -0,0 +1,101 @@
+import fs from "node:fs/promises";
+import path from "node:path";
+import { compareDecks } from "./lib/comparison.js";
+import { loadDecks, loadInventory, loadPrices } from "./lib/dataFiles.js";
+import { buildShoppingList, formatShoppingList, type ShoppingListFormat } from "./lib/shoppingList.js";
+
+type ShoppingListOptions = {
+  decksPath: string;
+  inventoryPath: string;
+  pricesPath?: string;
+  slugs: string[];
+  format: ShoppingListFormat;
+  outputPath?: string;
+};
+
+const FORMATS: ShoppingListFormat[] = ["text", "csv", "json"];
+
+async function main() {
+  const options = parseShoppingListArgs(process.argv.slice(2));
+
+  const [inventory, decks, prices] = await Promise.all([
+    loadInventory(options.inventoryPath),
+    loadDecks(options.decksPath),
+    loadPrices(options.inventoryPath, options.pricesPath)
+  ]);
+
+  const selected = options.slugs.length ? decks.filter((deck) => options.slugs.includes(deck.slug)) : decks;
+  const unknownSlugs = options.slugs.filter((slug) => !decks.some((deck) => deck.slug === slug));
+  if (unknownSlugs.length > 0) {
+    throw new Error(`Unknown deck slug(s): ${unknownSlugs.join(", ")}`);
+  }
+
+  // The max-missing threshold only affects status, which the shopping list ignores.
+  const comparisons = compareDecks(selected, inventory, 0).filter((comparison) => comparison.totalMissing > 0);
+  const list = buildShoppingList(comparisons, prices);
+  const output = formatShoppingList(list, options.format);
+
+  if (options.outputPath) {
+    await fs.mkdir(path.dirname(options.outputPath), { recursive: true });
+    await fs.writeFile(options.outputPath, `${output}\n`, "utf8");
+    console.log(`Shopping list (${list.entries.length} card(s), ${comparisons.length} deck(s)) saved to ${options.outputPath}`);
+    return;
+  }
+
+  if (options.format === "text") {
+    console.log("=== Shopping List ===");
+    console.log(`Decks: ${comparisons.length} with missing cards out of ${selected.length} selected`);
+    console.log(`Prices: ${Object.keys(prices).length} card(s) priced${options.pricesPath ? ` (with ${options.pricesPath})` : ""}`);
+    console.log("");
+  }
+  console.log(output);
+}
+
+function parseShoppingListArgs(argv: string[]): ShoppingListOptions {
+  let decksPath = path.resolve(process.cwd(), "data/most-viewed.json");
+  let inventoryPath = path.resolve(process.cwd(), "data/sample-inventory.json");
+  let pricesPath: string | undefined;
+  let slugs: string[] = [];
+  let format: ShoppingListFormat = "text";
+  let outputPath: string | undefined;
+
+  argv.forEach((arg, index) => {
+    if (arg === "--decks" && argv[index + 1]) {
+      decksPath = path.resolve(process.cwd(), argv[index + 1]);
+    }
+
+    if (arg === "--inventory" && argv[index + 1]) {
+      inventoryPath = path.resolve(process.cwd(), argv[index + 1]);
+    }
+
+    if (arg === "--prices" && argv[index + 1]) {
+      pricesPath = path.resolve(process.cwd(), argv[index + 1]);
+    }
+
+    if (arg === "--only" && argv[index + 1]) {
+      slugs = argv[index + 1]
+        .split(",")
+        .map((slug) => slug.trim())
+        .filter(Boolean);
+    }
+
+    if (arg === "--format" && argv[index + 1]) {
+      const value = argv[index + 1] as ShoppingListFormat;
+      if (!FORMATS.includes(value)) {
+        throw new Error(`Unknown format ${value}. Use one of: ${FORMATS.join(", ")}.`);
+      }
+      format = value;
+    }
+
+    if (arg === "--out" && argv[index + 1]) {
+      outputPath = path.resolve(process.cwd(), argv[index + 1]);
+    }
+  });
+
+  return { decksPath, inventoryPath, pricesPath, slugs, format, outputPath };
+}
+
+main().catch((error) => {
+  console.error(error);
+  process.exit(1);
+});
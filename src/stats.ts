@@ -0,0 +1,126 @@
+import fs from "node:fs/promises";
+import path from "node:path";
+import { loadDecks } from "./lib/dataFiles.js";
+import { computeDeckStats, type CurvePoint, type DeckStats } from "./lib/deckStats.js";
+
+type StatsOptions = {
+  slug?: string;
+  decksPath: string;
+  jsonOutputPath?: string;
+};
+
+async function main() {
+  const options = parseStatsArgs(process.argv.slice(2));
+  const decks = await loadDecks(options.decksPath);
+
+  if (decks.length === 0) {
+    console.warn(`No decks found in ${options.decksPath}. Run the scraper first (npm run scrape).`);
+    return;
+  }
+
+  const selected = options.slug ? decks.filter((deck) => deck.slug === options.slug) : decks;
+  if (selected.length === 0) {
+    console.log(`Unknown deck slug ${options.slug}.`);
+    console.log(`Decks in ${options.decksPath}: ${decks.map((deck) => deck.slug).join(", ")}`);
+    process.exitCode = 1;
+    return;
+  }
+
+  const results = selected.map((deck) => ({ slug: deck.slug, label: deck.label, stats: computeDeckStats(deck.parsed) }));
+
+  if (options.jsonOutputPath) {
+    await fs.mkdir(path.dirname(options.jsonOutputPath), { recursive: true });
+    await fs.writeFile(options.jsonOutputPath, JSON.stringify(options.slug ? results[0] : results, null, 2), "utf8");
+    console.log(`Deck stats saved to ${options.jsonOutputPath}`);
+  }
+
+  console.log("=== Deck Statistics ===");
+  console.log(`Deck source: ${options.decksPath}`);
+
+  if (results.length === 1) {
+    printDeckStats(results[0].label, results[0].stats);
+    return;
+  }
+
+  console.log("");
+  console.log("Pass --deck <slug> for the full breakdown of one deck.");
+  console.log("");
+  results.forEach(({ slug, label, stats }) => {
+    const types = stats.types.map((entry) => `${entry.copies} ${entry.type}`).join(", ");
+    console.log(`- ${label} (${slug})`);
+    console.log(
+      `    ${stats.mainCopies} cards · avg energy ${formatAverage(stats.averageEnergy)} · avg unit power ${formatAverage(stats.units.averagePower)} · ${types || "no cards"}`
+    );
+  });
+}
+
+function printDeckStats(label: string, stats: DeckStats) {
+  console.log("");
+  console.log(`${label}: ${stats.mainCopies} main deck card(s) including the chosen champion`);
+
+  console.log("");
+  console.log(`Energy curve (average ${formatAverage(stats.averageEnergy)})`);
+  printCurve(stats.energyCurve);
+
+  console.log("");
+  console.log("Card types");
+  stats.types.forEach((entry) => console.log(`  ${entry.type.padEnd(12)} ${String(entry.copies).padStart(3)}  ${formatShare(entry.share)}`));
+
+  console.log("");
+  console.log("Domains (main deck cards vs runes)");
+  stats.domains.forEach((entry) =>
+    console.log(
+      `  ${entry.domain.padEnd(12)} ${String(entry.cards).padStart(3)} cards ${formatShare(entry.cardShare).padStart(6)}   ${String(entry.runes).padStart(2)} runes ${formatShare(entry.runeShare).padStart(6)}`
+    )
+  );
+
+  console.log("");
+  console.log(
+    `Units: ${stats.units.copies} · average power ${formatAverage(stats.units.averagePower)} over ${stats.units.withPower} unit(s) with a power value`
+  );
+  printCurve(stats.units.powerCurve);
+
+  if (stats.unknownCards.length) {
+    console.log("");
+    console.log(`Not in the card database (skipped): ${stats.unknownCards.join(", ")}`);
+  }
+}
+
+function printCurve(curve: CurvePoint[]) {
+  curve.forEach((point) => console.log(`  ${point.label.padStart(2)} | ${"#".repeat(point.copies)} ${point.copies || ""}`.trimEnd()));
+}
+
+function formatAverage(value: number | null): string {
+  return value == null ? "—" : value.toFixed(2);
+}
+
+function formatShare(share: number): string {
+  return `${(share * 100).toFixed(1)}%`;
+}
+
+function parseStatsArgs(argv: string[]): StatsOptions {
+  let slug: string | undefined;
+  let decksPath = path.resolve(process.cwd(), "data/most-viewed.json");
+  let jsonOutputPath: string | undefined;
+
+  argv.forEach((arg, index) => {
+    if (arg === "--deck" && argv[index + 1]) {
+      slug = argv[index + 1];
+    }
+
+    if (arg === "--decks" && argv[index + 1]) {
+      decksPath = path.resolve(process.cwd(), argv[index + 1]);
+    }
+
+    if (arg === "--json" && argv[index + 1]) {
+      jsonOutputPath = path.resolve(process.cwd(), argv[index + 1]);
+    }
+  });
+
+  return { slug, decksPath, jsonOutputPath };
+}
+
+main().catch((error) => {
+  console.error(error);
+  process.exit(1);
+});
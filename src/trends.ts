@@ -0,0 +1,138 @@
+import fs from "node:fs/promises";
+import path from "node:path";
+import { buildMetaTrends, DEFAULT_TREND_THRESHOLD, selectSnapshotSource, type TrendSeries } from "./lib/metaTrends.js";
+import { loadSnapshots } from "./lib/snapshots.js";
+import { DECK_SOURCES, type DeckSource } from "./lib/types.js";
+
+type TrendOptions = {
+  snapshotsPath: string;
+  last: number;
+  threshold: number;
+  top: number;
+  /** Only compare snapshots scraped from this source; defaults to the newest snapshot's source. */
+  source?: DeckSource;
+  jsonOutputPath?: string;
+};
+
+async function main() {
+  const options = parseTrendArgs(process.argv.slice(2));
+  const loaded = await loadSnapshots(options.snapshotsPath);
+  if (loaded.length === 0) {
+    throw new Error(`No snapshots in ${options.snapshotsPath}. Live scrapes write one per run.`);
+  }
+
+  const selection = selectSnapshotSource(loaded, options.source);
+  if (selection.snapshots.length === 0) {
+    throw new Error(`No ${options.source} snapshots in ${options.snapshotsPath}.`);
+  }
+  const snapshots = selection.snapshots.slice(-options.last);
+
+  const trends = buildMetaTrends(snapshots, options.threshold);
+
+  console.log("=== Meta Trends ===");
+  console.log(
+    `Source: ${selection.source ?? "unrecorded"}` +
+      (selection.skipped > 0 ? ` (${selection.skipped} snapshot(s) from other sources skipped)` : "")
+  );
+  console.log(`Snapshots: ${trends.snapshots.map((entry) => `${formatDate(entry.takenAt)} (${entry.deckCount})`).join(" → ")}`);
+  console.log(`Threshold: ${formatPoints(options.threshold)} change in deck share`);
+  if (snapshots.length < 2) {
+    console.log("Only one snapshot so far; trends need at least two.");
+  }
+
+  printSeries("Rising cards", trends.rising.slice(0, options.top));
+  printSeries("Falling cards", trends.falling.slice(0, options.top));
+
+  console.log("");
+  console.log("New legends");
+  console.log(trends.newLegends.length ? trends.newLegends.map((name) => `  + ${name}`).join("\n") : "  (none)");
+
+  printSeries("Legend shares", trends.legends.slice(0, options.top));
+
+  if (options.jsonOutputPath) {
+    await fs.mkdir(path.dirname(options.jsonOutputPath), { recursive: true });
+    await fs.writeFile(options.jsonOutputPath, JSON.stringify(trends, null, 2), "utf8");
+    console.log("");
+    console.log(`Saved trend JSON to ${options.jsonOutputPath}`);
+  }
+}
+
+function printSeries(title: string, series: TrendSeries[]) {
+  console.log("");
+  console.log(title);
+  if (series.length === 0) {
+    console.log("  (none)");
+    return;
+  }
+
+  const width = Math.max(...series.map((entry) => entry.name.length));
+  series.forEach((entry) => {
+    const shares = entry.shares.map((share) => `${(share * 100).toFixed(0)}%`.padStart(4)).join(" → ");
+    const change = `${entry.change > 0 ? "+" : ""}${formatPoints(entry.change)}`;
+    console.log(`  ${entry.name.padEnd(width)}  ${shares}  (${change})`);
+  });
+}
+
+function formatPoints(value: number): string {
+  return `${(value * 100).toFixed(1)} pts`;
+}
+
+function formatDate(value: string): string {
+  return value.slice(0, 10);
+}
+
+function parseTrendArgs(argv: string[]): TrendOptions {
+  let snapshotsPath = path.resolve(process.cwd(), "data/snapshots");
+  let last = 4;
+  let threshold = DEFAULT_TREND_THRESHOLD;
+  let top = 10;
+  let source: DeckSource | undefined;
+  let jsonOutputPath: string | undefined;
+
+  argv.forEach((arg, index) => {
+    if (arg === "--snapshots" && argv[index + 1]) {
+      snapshotsPath = path.resolve(process.cwd(), argv[index + 1]);
+    }
+
+    if (arg === "--last" && argv[index + 1]) {
+      const parsed = Number(argv[index + 1]);
+      if (!Number.isNaN(parsed)) {
+        last = Math.max(1, Math.floor(parsed));
+      }
+    }
+
+    if (arg === "--threshold" && argv[index + 1]) {
+      const parsed = Number(argv[index + 1]);
+      if (!Number.isNaN(parsed)) {
+        // Accept both 0.1 and 10 for "ten percentage points".
+        threshold = Math.max(0, parsed > 1 ? parsed / 100 : parsed);
+      }
+    }
+
+    if (arg === "--top" && argv[index + 1]) {
+      const parsed = Number(argv[index + 1]);
+      if (!Number.isNaN(parsed)) {
+        top = Math.max(1, Math.floor(parsed));
+      }
+    }
+
+    if (arg === "--source" && argv[index + 1]) {
+      const value = argv[index + 1] as DeckSource;
+      if (!DECK_SOURCES.includes(value)) {
+        throw new Error(`Unknown source ${value}. Use one of: ${DECK_SOURCES.join(", ")}.`);
+      }
+      source = value;
+    }
+
+    if (arg === "--json" && argv[index + 1]) {
+      jsonOutputPath = path.resolve(process.cwd(), argv[index + 1]);
+    }
+  });
+
+  return { snapshotsPath, last, threshold, top, source, jsonOutputPath };
+}
+
+main().catch((error) => {
+  console.error(error);
+  process.exit(1);
+});
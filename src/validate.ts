@@ -0,0 +1,88 @@
+import fs from "node:fs/promises";
+import path from "node:path";
+import { loadDeckFile } from "./lib/dataFiles.js";
+import { formatParseIssue } from "./lib/deckParser.js";
+import { validateDeck } from "./lib/validateDeck.js";
+
+type ValidateOptions = {
+  decksPath: string;
+  jsonOutputPath?: string;
+  /** Fail on any deck parse error or warning instead of reporting it. */
+  strict: boolean;
+};
+
+async function main() {
+  const options = parseValidateArgs(process.argv.slice(2));
+  const { decks, issues } = await loadDeckFile(options.decksPath, { strict: options.strict });
+
+  if (decks.length === 0) {
+    console.warn(`No decks found in ${options.decksPath}. Run the scraper first (npm run scrape).`);
+    return;
+  }
+
+  const results = decks.map((deck) => ({
+    slug: deck.slug,
+    label: deck.label,
+    ...validateDeck(deck.parsed),
+    parseIssues: issues.filter((issue) => issue.deck === deck.label).map(({ deck: _deck, ...issue }) => issue)
+  }));
+
+  if (options.jsonOutputPath) {
+    await fs.mkdir(path.dirname(options.jsonOutputPath), { recursive: true });
+    await fs.writeFile(options.jsonOutputPath, JSON.stringify(results, null, 2), "utf8");
+    console.log(`Validation results saved to ${options.jsonOutputPath}`);
+  }
+
+  console.log("=== Deck Legality Report ===");
+  console.log(`Deck source: ${options.decksPath} (${results.length} deck(s))`);
+  console.log("");
+
+  results.forEach((result) => {
+    const label = result.legal ? "LEGAL" : `ILLEGAL — ${result.violations.length} issue(s)`;
+    console.log(`- ${result.label} [${label}]`);
+    result.violations.forEach((violation) => {
+      console.log(`    • ${violation.rule}: ${violation.message}`);
+    });
+    result.parseIssues.forEach((issue) => {
+      console.log(`    ${issue.severity === "error" ? "✖" : "⚠"} ${formatParseIssue(issue)}`);
+    });
+  });
+
+  const illegal = results.filter((result) => !result.legal).length;
+  console.log("");
+  console.log(`Summary: ${results.length - illegal} legal, ${illegal} illegal.`);
+  if (issues.length > 0) {
+    console.log(`${issues.length} deck list parse issue(s); pass --strict to fail on them.`);
+  }
+
+  if (illegal > 0) {
+    process.exitCode = 1;
+  }
+}
+
+function parseValidateArgs(argv: string[]): ValidateOptions {
+  let decksPath = path.resolve(process.cwd(), "data/most-viewed.json");
+  let jsonOutputPath: string | undefined;
+  let strict = false;
+
+  argv.forEach((arg, index) => {
+    if (arg === "--strict") {
+      strict = true;
+    }
+
+    if (arg === "--decks" && argv[index + 1]) {
+      decksPath = path.resolve(process.cwd(), argv[index + 1]);
+    }
+
+    if (arg === "--json" && argv[index + 1]) {
+      jsonOutputPath = path.resolve(process.cwd(), argv[index + 1]);
+    }
+  });
+
+  return { decksPath, jsonOutputPath, strict };
+}
+
+main().catch((error) => {
+  console.error(error);
+  process.exit(1);
+});
@@ -2,22 +2,71 @@ import { useCallback, useEffect, useMemo, useState } from "react";
 import clsx from "clsx";
 import { ArrowUpDown, ChevronRight, Search, SlidersHorizontal } from "lucide-react";
 import type { PersistedDeck } from "@shared/lib/types";
+import {
+  addTransaction,
+  deriveInventory,
+  derivePrintings,
+  importTransaction,
+  isCollectionLog,
+  parseCardCountsWithIssues,
+  readCollectionLog,
+  removeTransaction,
+  type CollectionTransaction
+} from "@shared/lib/collection";
 import {
   compareDecks,
-  normalizeInventory,
+  reconcileInventory,
   type ComparisonStatus,
   type DeckComparison,
-  type Inventory
+  type Inventory,
+  type StatusThresholds
 } from "@shared/lib/comparison";
-import { parseExportedDeck } from "@shared/lib/deckParser";
+import { diffDeckHistory, type DeckVersionDiff } from "@shared/lib/deckDiff";
+import { DECK_EXPORT_MIME_TYPES, exportDeck, type DeckExportFormat } from "@shared/lib/deckExport";
+import { detectDeckFormat, importDeck, listDeckImporters } from "@shared/lib/deckImporters";
+import { formatPrintingRequirement, hasPrintingDetails } from "@shared/lib/printings";
+import { extractPrices, formatUsd, mergePrices, normalizePrices, type PriceMap } from "@shared/lib/prices";
+import { validateDeck } from "@shared/lib/validateDeck";
+import { LegalityBadge } from "@app/components/LegalityBadge";
+import { BuildPlannerPanel } from "@app/components/BuildPlannerPanel";
+import { DeckChangesPanel } from "@app/components/DeckChangesPanel";
+import { DeckStatsPanel } from "@app/components/DeckStatsPanel";
+import { DrawOddsPanel } from "@app/components/DrawOddsPanel";
+import { MetaPanel } from "@app/components/MetaPanel";
+import { TrendsPanel } from "@app/components/TrendsPanel";
+import { InventoryDiffPanel } from "@app/components/InventoryDiffPanel";
+import { CollectionStatsPanel } from "@app/components/CollectionStatsPanel";
+import { DeckBuilderPanel } from "@app/components/DeckBuilderPanel";
+import { RecommendationsPanel } from "@app/components/RecommendationsPanel";
+import { ShoppingListPanel } from "@app/components/ShoppingListPanel";
 import { StatusBadge } from "@app/components/StatusBadge";
 import { SummaryCard } from "@app/components/SummaryCard";
 import { DataCard } from "@app/components/DataCard";
+import { CollectionHistory } from "@app/components/CollectionHistory";
+import { HighlightedTextarea, ParseIssueList } from "@app/components/HighlightedTextarea";
 import { getCardArtMeta, type CardArtLookup } from "@app/lib/cardArt";
+import {
+  clearCollectionTransactions,
+  loadCollectionTransactions,
+  saveCollectionTransaction
+} from "@app/lib/collectionDb";
 
 type StatusFilter = "all" | ComparisonStatus;
+type ThresholdMode = "copies" | "cost" | "both";
 type SortOrder = "default" | "missing-asc" | "missing-desc";
 type MissingBucket = DeckComparison["missingCards"][number]["bucket"];
+type DetailTab = "missing" | "stats" | "odds" | "changes";
+type AppView = "decks" | "builder" | "meta" | "trends" | "inventory-diff" | "collection";
+type InventoryTab = "cards" | "history";
+
+const appViews: Array<{ label: string; value: AppView }> = [
+  { label: "Decks", value: "decks" },
+  { label: "Builder", value: "builder" },
+  { label: "Meta", value: "meta" },
+  { label: "Trends", value: "trends" },
+  { label: "Inventory diff", value: "inventory-diff" },
+  { label: "Collection", value: "collection" }
+];
 
 const statusFilters: Array<{ label: string; value: StatusFilter }> = [
   { label: "All", value: "all" },
@@ -26,8 +75,10 @@ const statusFilters: Array<{ label: string; value: StatusFilter }> = [
   { label: "Unbuildable", value: "unbuildable" }
 ];
 
-const missingBucketOrder: MissingBucket[] = ["main", "battlefields", "runes", "sideboard"];
+const missingBucketOrder: MissingBucket[] = ["legend", "champion", "main", "battlefields", "runes", "sideboard"];
 const missingBucketLabels: Record<MissingBucket, string> = {
+  legend: "Legend",
+  champion: "Chosen champion",
   main: "Main deck",
   battlefields: "Battlefields",
   runes: "Runes",
@@ -41,13 +92,33 @@ function formatMissingCardsForExport(entry: DeckComparison): string {
       if (cards.length === 0) {
         return null;
       }
-      return cards.map((card) => `${card.missing} ${card.name}`).join("\n");
+      return cards
+        .map((card) => `${card.missing} ${card.displayName}${card.printing ? ` ${formatPrintingRequirement(card.printing)}` : ""}`)
+        .join("\n");
     })
     .filter((section): section is string => Boolean(section));
 
   return sections.join("\n\n");
 }
 
+const thresholdModes: Array<{ label: string; value: ThresholdMode }> = [
+  { label: "By copies", value: "copies" },
+  { label: "By cost", value: "cost" },
+  { label: "Copies + cost", value: "both" }
+];
+
+const detailTabs: Array<{ label: string; value: DetailTab }> = [
+  { label: "Missing pieces", value: "missing" },
+  { label: "Stats", value: "stats" },
+  { label: "Draw odds", value: "odds" },
+  { label: "Changes", value: "changes" }
+];
+
+const inventoryTabs: Array<{ label: string; value: InventoryTab }> = [
+  { label: "Cards", value: "cards" },
+  { label: "History", value: "history" }
+];
+
 const sortOptions: Array<{ label: string; value: SortOrder }> = [
   { label: "Original order", value: "default" },
   { label: "Missing asc", value: "missing-asc" },
@@ -59,9 +130,17 @@ type ToastState = { tone: "success" | "error" | "info"; message: string } | null
 export default function App() {
   const [decks, setDecks] = useState<PersistedDeck[]>([]);
   const [decksLabel, setDecksLabel] = useState("No deck file loaded yet");
-  const [inventory, setInventory] = useState<Inventory | null>(null);
+  const [transactions, setTransactions] = useState<CollectionTransaction[]>([]);
   const [inventoryLabel, setInventoryLabel] = useState("No inventory file loaded yet");
+  const [unmatchedInventory, setUnmatchedInventory] = useState<string[]>([]);
+  const [inventoryPrices, setInventoryPrices] = useState<PriceMap>({});
+  const [filePrices, setFilePrices] = useState<PriceMap>({});
+  const [pricesLabel, setPricesLabel] = useState("No price file loaded");
+  const [plannedSlugs, setPlannedSlugs] = useState<string[]>([]);
   const [maxMissing, setMaxMissing] = useState(4);
+  const [maxCost, setMaxCost] = useState(20);
+  const [thresholdMode, setThresholdMode] = useState<ThresholdMode>("copies");
+  const [view, setView] = useState<AppView>("decks");
   const [statusFilter, setStatusFilter] = useState<StatusFilter>("all");
   const [sortOrder, setSortOrder] = useState<SortOrder>("default");
   const [search, setSearch] = useState("");
@@ -72,6 +151,31 @@ export default function App() {
   const [toast, setToast] = useState<ToastState>(null);
   const getCardMeta = useCallback<CardArtLookup>((name) => getCardArtMeta(name), []);
 
+  // The collection log is the source of truth; counts are derived from it.
+  const inventory = useMemo<Inventory | null>(
+    () => (transactions.length ? deriveInventory(transactions) : null),
+    [transactions]
+  );
+  // Imports keep their printing-level lines in the log, so these survive reloads and +/- edits too.
+  const inventoryPrintings = useMemo(() => derivePrintings(transactions), [transactions]);
+  const prices = useMemo(() => mergePrices(inventoryPrices, filePrices), [inventoryPrices, filePrices]);
+  const thresholds = useMemo<StatusThresholds>(
+    () => ({
+      maxMissing: thresholdMode === "cost" ? undefined : maxMissing,
+      maxCostUsd: thresholdMode === "copies" ? undefined : maxCost
+    }),
+    [thresholdMode, maxMissing, maxCost]
+  );
+  const thresholdLabel = [
+    thresholds.maxMissing != null ? `<= ${thresholds.maxMissing} missing copies` : null,
+    thresholds.maxCostUsd != null ? `<= ${formatUsd(thresholds.maxCostUsd)}` : null
+  ]
+    .filter(Boolean)
+    .join(" · ");
+  // Prices only reach the comparison when loaded or needed for the cost threshold.
+  const comparisonPrices = Object.keys(prices).length > 0 || thresholds.maxCostUsd != null ? prices : undefined;
+  const comparisonPrintings = hasPrintingDetails(inventoryPrintings) ? inventoryPrintings : undefined;
+
   const comparisonState = useMemo<{
     data: DeckComparison[];
     error: string | null;
@@ -80,11 +184,24 @@ export default function App() {
       return { data: [], error: null };
     }
     try {
-      return { data: compareDecks(decks, inventory, maxMissing), error: null };
+      return { data: compareDecks(decks, inventory, thresholds, comparisonPrices, comparisonPrintings), error: null };
     } catch (error) {
       return { data: [], error: error instanceof Error ? error.message : String(error) };
     }
-  }, [decks, inventory, maxMissing]);
+  }, [decks, inventory, thresholds, comparisonPrices, comparisonPrintings]);
+
+  useEffect(() => {
+    loadCollectionTransactions()
+      .then((stored) => {
+        if (stored.length) {
+          setTransactions(stored);
+          setInventoryLabel(`Saved collection · ${stored.length} transactions`);
+        }
+      })
+      .catch((error) =>
+        setToast({ tone: "error", message: `Could not open the saved collection: ${error instanceof Error ? error.message : String(error)}` })
+      );
+  }, []);
 
   useEffect(() => {
     if (comparisonState.error) {
@@ -93,6 +210,10 @@ export default function App() {
   }, [comparisonState.error]);
 
   const comparisons = comparisonState.data;
+  const shoppingComparisons = useMemo(
+    () => (plannedSlugs.length ? comparisons.filter((entry) => plannedSlugs.includes(entry.deck.slug)) : comparisons),
+    [comparisons, plannedSlugs]
+  );
 
   const filtered = useMemo(() => {
     const base = comparisons.filter((entry) => {
@@ -110,6 +231,13 @@ export default function App() {
     return base;
   }, [comparisons, search, statusFilter, sortOrder]);
 
+  const selectionChanges = useMemo(() => {
+    if (!selection?.deck.versions?.length) {
+      return [];
+    }
+    return diffDeckHistory(selection.deck, { inventory: inventory ?? undefined, thresholds, prices: comparisonPrices });
+  }, [selection, inventory, thresholds, comparisonPrices]);
+
   const summaryCounts = useMemo(() => {
     return comparisons.reduce(
       (acc, entry) => {
@@ -129,14 +257,72 @@ export default function App() {
     setDecks(parsed as PersistedDeck[]);
     setDecksLabel(label);
     setSelection(null);
+    setPlannedSlugs([]);
   }
 
   async function hydrateInventoryFromBlob(blob: Blob, label: string) {
     const text = await blob.text();
     const parsed = JSON.parse(text);
-    const normalized = normalizeInventory(parsed);
-    setInventory(normalized);
-    setInventoryLabel(label);
+    applyInventory(parsed, label);
+  }
+
+  function recordTransaction(transaction: CollectionTransaction) {
+    setTransactions((prev) => [...prev, transaction]);
+    saveCollectionTransaction(transaction).catch((error) =>
+      setToast({ tone: "error", message: `Could not save the change: ${error instanceof Error ? error.message : String(error)}` })
+    );
+  }
+
+  async function replaceCollectionLog(next: CollectionTransaction[]) {
+    await clearCollectionTransactions();
+    await Promise.all(next.map((transaction) => saveCollectionTransaction(transaction)));
+    setTransactions(next);
+  }
+
+  function applyInventory(source: unknown, label: string) {
+    const { inventory: normalized, unmatched, printings } = reconcileInventory(source);
+    if (isCollectionLog(source)) {
+      // A downloaded or CLI-written log replaces the saved one instead of being imported as counts.
+      replaceCollectionLog(readCollectionLog(source).transactions).catch((error) =>
+        setToast({ tone: "error", message: error instanceof Error ? error.message : String(error) })
+      );
+    } else {
+      recordTransaction(importTransaction(inventory ?? {}, normalized, label, new Date(), printings));
+    }
+    setInventoryLabel(unmatched.length ? `${label} · ${unmatched.length} unmatched` : label);
+    setUnmatchedInventory(unmatched);
+    setInventoryPrices(extractPrices(source));
+  }
+
+  async function hydratePricesFromBlob(blob: Blob, label: string) {
+    const parsed = JSON.parse(await blob.text());
+    const normalized = normalizePrices(parsed);
+    setFilePrices(normalized);
+    setPricesLabel(`${label} · ${Object.keys(normalized).length} prices`);
+  }
+
+  async function loadSamplePrices() {
+    try {
+      const response = await fetch("/sample-prices.json");
+      if (!response.ok) {
+        throw new Error("Unable to load sample prices");
+      }
+      await hydratePricesFromBlob(await response.blob(), "Sample prices");
+      setToast({ tone: "success", message: "Sample prices loaded" });
+    } catch (error) {
+      setToast({ tone: "error", message: error instanceof Error ? error.message : String(error) });
+    }
+  }
+
+  function handlePriceUpload(event: React.ChangeEvent<HTMLInputElement>) {
+    const file = event.target.files?.[0];
+    if (!file) {
+      return;
+    }
+    hydratePricesFromBlob(file, file.name)
+      .then(() => setToast({ tone: "success", message: `Prices set from ${file.name}` }))
+      .catch((error) => setToast({ tone: "error", message: error instanceof Error ? error.message : String(error) }));
+    event.target.value = "";
   }
 
   async function loadSampleDecks() {
@@ -190,55 +376,53 @@ export default function App() {
 
   function handleInventoryTextImport(text: string) {
     try {
-      const lines = text.split(/\r?\n/);
-      const parsed: Record<string, number> = {};
-      let countFound = 0;
-      
-      for (const line of lines) {
-        const match = line.match(/^\s*(\d+)x?\s+(.+)$/);
-        if (match) {
-          const count = parseInt(match[1], 10);
-          const name = match[2].trim();
-          if (name && !isNaN(count)) {
-            parsed[name] = (parsed[name] || 0) + count;
-            countFound++;
-          }
-        }
-      }
+      const { counts, issues } = parseCardCountsWithIssues(text.split(/\r?\n/));
+      const countFound = Object.keys(counts).length;
 
       if (countFound === 0) {
         throw new Error("No valid card entries found. Use format: '3x Card Name'");
       }
 
-      const normalized = normalizeInventory(parsed);
-      setInventory(normalized);
-      setInventoryLabel("Imported from text");
+      applyInventory(counts, "Imported from text");
       setImportTextOpen(false);
-      setToast({ tone: "success", message: `Imported ${countFound} entries` });
+      setToast({
+        tone: "success",
+        message: issues.length ? `Imported ${countFound} cards with ${issues.length} issue(s)` : `Imported ${countFound} cards`
+      });
     } catch (error) {
       setToast({ tone: "error", message: error instanceof Error ? error.message : String(error) });
     }
   }
 
-  function handleDeckTextImport(name: string, text: string) {
+  function handleDeckTextImport(name: string, text: string, format?: string) {
     try {
-      const parsed = parseExportedDeck(text);
+      const imported = importDeck(text, format);
       const newDeck: PersistedDeck = {
         slug: `custom-${Date.now()}`,
         label: name,
         url: "",
-        exportText: text,
-        parsed
+        exportText: imported.exportText,
+        parsed: imported.parsed
       };
       setDecks((prev) => [...prev, newDeck]);
       setDecksLabel((prev) => prev === "No deck file loaded yet" ? "Custom list" : "Mixed sources");
       setDeckImportOpen(false);
-      setToast({ tone: "success", message: `Imported deck: ${name}` });
+      setToast({
+        tone: "success",
+        message: `Imported deck: ${name} (${imported.formatLabel})${imported.issues.length ? ` with ${imported.issues.length} issue(s)` : ""}`
+      });
     } catch (error) {
       setToast({ tone: "error", message: error instanceof Error ? error.message : String(error) });
     }
   }
 
+  function handleBuilderDeck(deck: PersistedDeck) {
+    // Adding the same draft again replaces the earlier copy instead of listing it twice.
+    setDecks((prev) => [...prev.filter((entry) => entry.slug !== deck.slug), deck]);
+    setDecksLabel((prev) => (prev === "No deck file loaded yet" ? "Custom list" : "Mixed sources"));
+    setToast({ tone: "success", message: `Added ${deck.label} to the deck list` });
+  }
+
   const ready = decks.length > 0 && Boolean(inventory);
 
   return (
@@ -310,94 +494,208 @@ export default function App() {
             onView={() => setInventoryOpen(true)}
             viewLabel="View list"
             adornment="inventory"
-            badge={inventoryLabel}
+            badge={inventory && !comparisonPrintings ? `${inventoryLabel} · printing checks off (no printing details)` : inventoryLabel}
           />
         </section>
 
-        <section className="grid gap-4 md:grid-cols-4">
-          <SummaryCard label="Decks" value={decks.length} helper="loaded from JSON" />
-          <SummaryCard label="Tracked cards" value={inventory ? Object.keys(inventory).length : 0} helper="unique entries" />
-          <SummaryCard label="Buildable" value={summaryCounts.buildable} tone="success" />
-          <SummaryCard label="Near misses" value={summaryCounts.close} tone="warn" helper={`<= ${maxMissing} missing copies`} />
-        </section>
+        <nav className="flex gap-2">
+          {appViews.map((option) => (
+            <button
+              key={option.value}
+              type="button"
+              className={clsx(
+                "rounded-full border px-5 py-2 text-sm font-semibold uppercase tracking-wide",
+                view === option.value
+                  ? "border-accent/60 bg-accent/10 text-accent"
+                  : "border-white/10 text-white/70 hover:border-white/30"
+              )}
+              onClick={() => setView(option.value)}
+            >
+              {option.label}
+            </button>
+          ))}
+        </nav>
 
-        <section className="rounded-3xl border border-white/5 bg-slate-950/60 p-6 shadow-2xl">
-          <div className="flex flex-col gap-4 lg:flex-row lg:items-center lg:justify-between">
-            <div className="flex flex-wrap items-center gap-2">
-              {statusFilters.map((filter) => (
-                <button
-                  key={filter.value}
-                  className={clsx(
-                    "rounded-full border px-4 py-2 text-sm font-semibold uppercase tracking-wide",
-                    statusFilter === filter.value
-                      ? "border-accent/60 bg-accent/10 text-accent"
-                      : "border-white/10 text-white/70 hover:border-white/30"
-                  )}
-                  onClick={() => setStatusFilter(filter.value)}
-                >
-                  {filter.label}
-                </button>
-              ))}
-            </div>
-            <div className="flex flex-wrap items-center gap-3">
-              <label className="flex items-center gap-2 rounded-full border border-white/10 bg-slate-950/40 px-3 py-2 text-sm text-white/70">
-                <SlidersHorizontal className="h-4 w-4" />
-                <span>Max missing: {maxMissing}</span>
-                <input
-                  type="range"
-                  min={0}
-                  max={20}
-                  value={maxMissing}
-                  onChange={(e) => setMaxMissing(Number(e.target.value))}
-                  className="ml-2"
-                />
-              </label>
-              <label className="flex items-center gap-2 rounded-full border border-white/10 bg-slate-950/40 px-3 py-2 text-sm text-white/70">
-                <ArrowUpDown className="h-4 w-4" />
-                <select
-                  value={sortOrder}
-                  onChange={(e) => setSortOrder(e.target.value as SortOrder)}
-                  className="bg-transparent text-white focus:outline-none"
-                >
-                  {sortOptions.map((option) => (
-                    <option key={option.value} value={option.value} className="bg-slate-900 text-white">
-                      {option.label}
-                    </option>
+        {view === "builder" ? (
+          <DeckBuilderPanel
+            decks={decks}
+            inventory={inventory}
+            printings={comparisonPrintings}
+            prices={comparisonPrices}
+            thresholds={thresholds}
+            onAddDeck={handleBuilderDeck}
+            onError={(message) => setToast({ tone: "error", message })}
+          />
+        ) : null}
+
+        {view === "meta" ? <MetaPanel decks={decks} decksLabel={decksLabel} /> : null}
+
+        {view === "trends" ? <TrendsPanel onError={(message) => setToast({ tone: "error", message })} /> : null}
+
+        {view === "inventory-diff" ? (
+          <InventoryDiffPanel
+            decks={decks}
+            thresholds={thresholds}
+            prices={filePrices}
+            onError={(message) => setToast({ tone: "error", message })}
+          />
+        ) : null}
+
+        {view === "collection" ? <CollectionStatsPanel inventory={inventory} inventoryLabel={inventoryLabel} prices={prices} /> : null}
+
+        {view === "decks" ? (
+          <>
+            <section className="grid gap-4 md:grid-cols-4">
+              <SummaryCard label="Decks" value={decks.length} helper="loaded from JSON" />
+              <SummaryCard label="Tracked cards" value={inventory ? Object.keys(inventory).length : 0} helper="unique entries" />
+              <SummaryCard label="Buildable" value={summaryCounts.buildable} tone="success" />
+              <SummaryCard label="Near misses" value={summaryCounts.close} tone="warn" helper={thresholdLabel} />
+            </section>
+
+            <section className="rounded-3xl border border-white/5 bg-slate-950/60 p-6 shadow-2xl">
+              <div className="flex flex-col gap-4 lg:flex-row lg:items-center lg:justify-between">
+                <div className="flex flex-wrap items-center gap-2">
+                  {statusFilters.map((filter) => (
+                    <button
+                      key={filter.value}
+                      className={clsx(
+                        "rounded-full border px-4 py-2 text-sm font-semibold uppercase tracking-wide",
+                        statusFilter === filter.value
+                          ? "border-accent/60 bg-accent/10 text-accent"
+                          : "border-white/10 text-white/70 hover:border-white/30"
+                      )}
+                      onClick={() => setStatusFilter(filter.value)}
+                    >
+                      {filter.label}
+                    </button>
                   ))}
-                </select>
-              </label>
-              <label className="flex items-center gap-2 rounded-full border border-white/10 bg-slate-950/40 px-3 py-2 text-sm">
-                <Search className="h-4 w-4 text-white/50" />
-                <input
-                  type="text"
-                  placeholder="Search deck"
-                  value={search}
-                  onChange={(e) => setSearch(e.target.value)}
-                  className="bg-transparent text-white outline-none placeholder:text-white/40"
-                />
-              </label>
-            </div>
-          </div>
+                </div>
+                <div className="flex flex-wrap items-center gap-3">
+                  <label className="flex items-center gap-2 rounded-full border border-white/10 bg-slate-950/40 px-3 py-2 text-sm text-white/70">
+                    <select
+                      value={thresholdMode}
+                      onChange={(e) => setThresholdMode(e.target.value as ThresholdMode)}
+                      className="bg-transparent text-white focus:outline-none"
+                    >
+                      {thresholdModes.map((option) => (
+                        <option key={option.value} value={option.value} className="bg-slate-900 text-white">
+                          {option.label}
+                        </option>
+                      ))}
+                    </select>
+                  </label>
+                  {thresholdMode !== "cost" ? (
+                    <label className="flex items-center gap-2 rounded-full border border-white/10 bg-slate-950/40 px-3 py-2 text-sm text-white/70">
+                      <SlidersHorizontal className="h-4 w-4" />
+                      <span>Max missing: {maxMissing}</span>
+                      <input
+                        type="range"
+                        min={0}
+                        max={20}
+                        value={maxMissing}
+                        onChange={(e) => setMaxMissing(Number(e.target.value))}
+                        className="ml-2"
+                      />
+                    </label>
+                  ) : null}
+                  {thresholdMode !== "copies" ? (
+                    <label className="flex items-center gap-2 rounded-full border border-white/10 bg-slate-950/40 px-3 py-2 text-sm text-white/70">
+                      <SlidersHorizontal className="h-4 w-4" />
+                      <span>Max cost: {formatUsd(maxCost)}</span>
+                      <input
+                        type="range"
+                        min={0}
+                        max={100}
+                        value={maxCost}
+                        onChange={(e) => setMaxCost(Number(e.target.value))}
+                        className="ml-2"
+                      />
+                    </label>
+                  ) : null}
+                  <label className="flex items-center gap-2 rounded-full border border-white/10 bg-slate-950/40 px-3 py-2 text-sm text-white/70">
+                    <ArrowUpDown className="h-4 w-4" />
+                    <select
+                      value={sortOrder}
+                      onChange={(e) => setSortOrder(e.target.value as SortOrder)}
+                      className="bg-transparent text-white focus:outline-none"
+                    >
+                      {sortOptions.map((option) => (
+                        <option key={option.value} value={option.value} className="bg-slate-900 text-white">
+                          {option.label}
+                        </option>
+                      ))}
+                    </select>
+                  </label>
+                  <label className="flex items-center gap-2 rounded-full border border-white/10 bg-slate-950/40 px-3 py-2 text-sm">
+                    <Search className="h-4 w-4 text-white/50" />
+                    <input
+                      type="text"
+                      placeholder="Search deck"
+                      value={search}
+                      onChange={(e) => setSearch(e.target.value)}
+                      className="bg-transparent text-white outline-none placeholder:text-white/40"
+                    />
+                  </label>
+                </div>
+              </div>
 
-          <div className="mt-6 grid gap-6 lg:grid-cols-[minmax(0,0.85fr)_minmax(0,1.8fr)] lg:items-start">
-            <DeckSelectionPanel
-              ready={ready}
-              filtered={filtered}
-              selection={selection}
-              setSelection={setSelection}
-            />
-            <div className="min-h-[55rem] rounded-2xl border border-white/10 bg-slate-900/50 p-5">
-              {selection ? (
-                <DeckDetails entry={selection} getCardMeta={getCardMeta} />
-              ) : (
-                <p className="text-center text-slate-400">Pick a deck to inspect the full breakdown.</p>
-              )}
-            </div>
-          </div>
-        </section>
+              <div className="mt-6 grid gap-6 lg:grid-cols-[minmax(0,0.85fr)_minmax(0,1.8fr)] lg:items-start">
+                <div className="flex flex-col gap-4">
+                  <DeckSelectionPanel
+                    ready={ready}
+                    filtered={filtered}
+                    selection={selection}
+                    setSelection={setSelection}
+                  />
+                  {ready && inventory && comparisons.length > 0 ? (
+                    <RecommendationsPanel
+                      comparisons={comparisons}
+                      inventory={inventory}
+                      thresholds={thresholds}
+                      prices={comparisonPrices}
+                    />
+                  ) : null}
+                </div>
+                <div className="min-h-[55rem] rounded-2xl border border-white/10 bg-slate-900/50 p-5">
+                  {selection ? (
+                    <DeckDetails entry={selection} changes={selectionChanges} getCardMeta={getCardMeta} />
+                  ) : (
+                    <p className="text-center text-slate-400">Pick a deck to inspect the full breakdown.</p>
+                  )}
+                </div>
+              </div>
+            </section>
+
+            {ready && inventory && comparisons.length > 0 ? (
+              <BuildPlannerPanel
+                comparisons={comparisons}
+                inventory={inventory}
+                printings={comparisonPrintings}
+                selected={plannedSlugs}
+                setSelected={setPlannedSlugs}
+              />
+            ) : null}
+
+            {ready && comparisons.length > 0 ? (
+              <ShoppingListPanel
+                comparisons={shoppingComparisons}
+                prices={prices}
+                pricesLabel={pricesLabel}
+                onPriceFileChange={handlePriceUpload}
+                onSamplePrices={loadSamplePrices}
+              />
+            ) : null}
+          </>
+        ) : null}
       </div>
       {isInventoryOpen && inventory ? (
-        <InventoryModal inventory={inventory} onClose={() => setInventoryOpen(false)} />
+        <InventoryModal
+          inventory={inventory}
+          unmatched={unmatchedInventory}
+          transactions={transactions}
+          onRecord={recordTransaction}
+          onClose={() => setInventoryOpen(false)}
+        />
       ) : null}
       {isImportTextOpen ? (
         <TextImportModal onClose={() => setImportTextOpen(false)} onImport={handleInventoryTextImport} />
@@ -465,6 +763,12 @@ function DeckSelectionPanel({
                 <span className="rounded-full border border-white/10 px-2 py-0.5 text-[0.7rem] tracking-wide text-slate-400">
                   {entry.missingCards.length} cards short
                 </span>
+                {entry.missingCostUsd != null && entry.totalMissing > 0 ? (
+                  <span className="rounded-full border border-white/10 px-2 py-0.5 text-[0.7rem] tracking-wide text-slate-400">
+                    {formatUsd(entry.missingCostUsd)}
+                    {entry.unpricedMissing ? ` + ${entry.unpricedMissing} unpriced` : ""}
+                  </span>
+                ) : null}
               </div>
             </div>
             <div className="flex flex-col items-end gap-2">
@@ -480,12 +784,26 @@ function DeckSelectionPanel({
 
 type MissingCardEntry = DeckComparison["missingCards"][number];
 
-function DeckDetails({ entry, getCardMeta }: { entry: DeckComparison; getCardMeta: CardArtLookup }) {
+function DeckDetails({
+  entry,
+  changes,
+  getCardMeta
+}: {
+  entry: DeckComparison;
+  changes: DeckVersionDiff[];
+  getCardMeta: CardArtLookup;
+}) {
   const totalMain = entry.deck.parsed.main.reduce((sum, card) => sum + card.count, 0);
   const [focusedCard, setFocusedCard] = useState<{ name: string; bucket: MissingBucket } | null>(
     entry.missingCards[0] ? { name: entry.missingCards[0].name, bucket: entry.missingCards[0].bucket } : null
   );
   const [isExportOpen, setExportOpen] = useState(false);
+  const [isDeckExportOpen, setDeckExportOpen] = useState(false);
+  const [detailTab, setDetailTab] = useState<DetailTab>("missing");
+
+  useEffect(() => {
+    setDetailTab("missing");
+  }, [entry.deck.slug]);
 
   useEffect(() => {
     setFocusedCard(entry.missingCards[0] ? { name: entry.missingCards[0].name, bucket: entry.missingCards[0].bucket } : null);
@@ -499,6 +817,7 @@ function DeckDetails({ entry, getCardMeta }: { entry: DeckComparison; getCardMet
     }, {} as Partial<Record<MissingBucket, MissingCardEntry[]>>);
   }, [entry]);
   const missingExportText = useMemo(() => formatMissingCardsForExport(entry), [entry]);
+  const validation = useMemo(() => validateDeck(entry.deck.parsed), [entry]);
   return (
     <>
       <div>
@@ -508,10 +827,23 @@ function DeckDetails({ entry, getCardMeta }: { entry: DeckComparison; getCardMet
           <h3 className="text-2xl font-semibold text-white">{entry.deck.label}</h3>
           <a className="text-sm text-slate-400" href={entry.deck.url} target="_blank" rel="noopener noreferrer">{entry.deck.url}</a>
         </div>
-        <StatusBadge status={entry.status} />
+        <div className="flex items-center gap-2">
+          <LegalityBadge validation={validation} />
+          <StatusBadge status={entry.status} />
+        </div>
       </div>
 
+        {validation.violations.length ? (
+          <ul className="mt-3 flex flex-col gap-1 rounded-2xl border border-rose-500/30 bg-rose-500/5 px-4 py-3 text-xs text-rose-100">
+            {validation.violations.map((violation) => (
+              <li key={violation.rule}>{violation.message}</li>
+            ))}
+          </ul>
+        ) : null}
+
         <div className="mt-4 grid gap-3 sm:grid-cols-2">
+        <MiniStat label="Legend" value={entry.deck.parsed.legend.map((card) => card.name).join(", ") || "—"} />
+        <MiniStat label="Champion" value={entry.deck.parsed.champion.map((card) => card.name).join(", ") || "—"} />
         <MiniStat label="Main" value={`${totalMain} cards`} />
         <MiniStat label="Runes" value={entry.deck.parsed.runes.length} />
         <MiniStat label="Battlefields" value={entry.deck.parsed.battlefields.length} />
@@ -520,18 +852,52 @@ function DeckDetails({ entry, getCardMeta }: { entry: DeckComparison; getCardMet
 
         <div className="mt-6">
         <div className="flex items-center justify-between gap-3">
-          <p className="text-sm uppercase tracking-[0.3em] text-slate-400">Missing pieces</p>
-          {entry.missingCards.length ? (
+          <div className="flex items-center gap-4">
+            {detailTabs.map((tab) => (
+              <button
+                key={tab.value}
+                type="button"
+                className={clsx(
+                  "text-sm uppercase tracking-[0.3em] transition",
+                  detailTab === tab.value ? "text-white" : "text-slate-500 hover:text-slate-300"
+                )}
+                onClick={() => setDetailTab(tab.value)}
+              >
+                {tab.label}
+                {tab.value === "changes" && changes.length ? ` (${changes.length})` : ""}
+              </button>
+            ))}
+          </div>
+          <div className="flex flex-wrap gap-2">
+            {detailTab === "missing" && entry.missingCards.length ? (
+              <button
+                type="button"
+                className="rounded-full border border-white/20 px-4 py-1.5 text-xs font-semibold uppercase tracking-wide text-white/80 transition hover:border-white/40"
+                onClick={() => setExportOpen(true)}
+              >
+                Export list
+              </button>
+            ) : null}
             <button
               type="button"
               className="rounded-full border border-white/20 px-4 py-1.5 text-xs font-semibold uppercase tracking-wide text-white/80 transition hover:border-white/40"
-              onClick={() => setExportOpen(true)}
+              onClick={() => setDeckExportOpen(true)}
             >
-              Export list
+              Export deck
             </button>
-          ) : null}
+          </div>
         </div>
-        {entry.missingCards.length === 0 ? (
+        {detailTab === "changes" ? (
+          <DeckChangesPanel changes={changes} />
+        ) : detailTab === "stats" ? (
+          <div className="mt-3">
+            <DeckStatsPanel deck={entry.deck.parsed} />
+          </div>
+        ) : detailTab === "odds" ? (
+          <div className="mt-3">
+            <DrawOddsPanel key={entry.deck.slug} deck={entry.deck.parsed} />
+          </div>
+        ) : entry.missingCards.length === 0 ? (
           <p className="mt-2 rounded-2xl border border-emerald-500/40 bg-emerald-500/10 px-4 py-3 text-sm text-emerald-100">
             All requirements satisfied.
           </p>
@@ -556,7 +922,7 @@ function DeckDetails({ entry, getCardMeta }: { entry: DeckComparison; getCardMet
                           const isFocused = focusedCard?.name === card.name && focusedCard?.bucket === card.bucket;
                           return (
                             <li
-                              key={`${card.name}-${card.bucket}`}
+                              key={`${card.name}-${card.bucket}-${card.printing ? formatPrintingRequirement(card.printing) : ""}`}
                               className={clsx(
                                 "flex gap-3 rounded-2xl border px-3 py-2 text-sm text-white/80 transition",
                                 isFocused ? "border-accent/60 bg-accent/5" : "border-white/10 bg-white/5 hover:border-accent/40"
@@ -574,14 +940,22 @@ function DeckDetails({ entry, getCardMeta }: { entry: DeckComparison; getCardMet
                               </div>
                               <div className="flex flex-1 flex-col">
                                 <div className="flex items-center justify-between">
-                                  <span>{card.name}</span>
+                                  <span>{card.displayName}</span>
                                   <span className="text-xs text-slate-400">
                                     {card.owned}/{card.required}
                                   </span>
                                 </div>
                                 {descriptor ? <p className="text-xs text-slate-400">{descriptor}</p> : null}
                                 {domainLabel ? <p className="text-[11px] text-slate-500">{domainLabel}</p> : null}
-                                <p className="text-xs text-amber-200">Missing {card.missing}</p>
+                                <p className="text-xs text-amber-200">
+                                  Missing {card.missing}
+                                  {card.printing ? ` · needs ${formatPrintingRequirement(card.printing)}` : ""}
+                                </p>
+                                {card.printing && card.ownedPrintings?.length ? (
+                                  <p className="text-[11px] text-slate-400">
+                                    You own: {card.ownedPrintings.map((owned) => `${owned.count}× ${owned.label}`).join("; ")}
+                                  </p>
+                                ) : null}
                               </div>
                             </li>
                           );
@@ -630,6 +1004,7 @@ function DeckDetails({ entry, getCardMeta }: { entry: DeckComparison; getCardMet
           deckLabel={entry.deck.label}
         />
       )}
+      {isDeckExportOpen ? <DeckExportModal deck={entry.deck} onClose={() => setDeckExportOpen(false)} /> : null}
     </>
   );
 }
@@ -696,8 +1071,132 @@ function MissingExportModal({ text, onClose, deckLabel }: { text: string; onClos
   );
 }
 
-function InventoryModal({ inventory, onClose }: { inventory: Inventory; onClose: () => void }) {
+const deckExportFormats: Array<{ label: string; value: DeckExportFormat }> = [
+  { label: "Text", value: "text" },
+  { label: "CSV", value: "csv" },
+  { label: "JSON", value: "json" },
+  { label: "Registration sheet", value: "html" }
+];
+
+function DeckExportModal({ deck, onClose }: { deck: DeckComparison["deck"]; onClose: () => void }) {
+  const [format, setFormat] = useState<DeckExportFormat>("text");
+  const [copied, setCopied] = useState(false);
+  const text = useMemo(() => exportDeck(deck, format), [deck, format]);
+
+  async function handleCopy() {
+    try {
+      await navigator.clipboard.writeText(text);
+      setCopied(true);
+      setTimeout(() => setCopied(false), 1500);
+    } catch (error) {
+      setCopied(false);
+    }
+  }
+
+  function handleDownload() {
+    const url = URL.createObjectURL(new Blob([text], { type: DECK_EXPORT_MIME_TYPES[format] }));
+    const link = document.createElement("a");
+    link.href = url;
+    link.download = `${deck.slug}.${format === "text" ? "txt" : format}`;
+    link.click();
+    URL.revokeObjectURL(url);
+  }
+
+  function handlePrint() {
+    const sheet = window.open("", "_blank");
+    if (!sheet) {
+      return;
+    }
+    sheet.document.write(text);
+    sheet.document.close();
+    sheet.focus();
+    sheet.print();
+  }
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-slate-950/80 p-4" onClick={onClose}>
+      <div
+        className="w-full max-w-2xl rounded-3xl border border-white/10 bg-slate-900/90 p-6 shadow-2xl backdrop-blur"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="flex items-center justify-between gap-3">
+          <div>
+            <p className="text-xs uppercase tracking-[0.3em] text-slate-400">Export deck</p>
+            <h4 className="text-xl font-semibold text-white">{deck.label}</h4>
+          </div>
+          <button
+            type="button"
+            className="rounded-full border border-white/20 px-4 py-1.5 text-xs font-semibold uppercase tracking-wide text-white/80 transition hover:border-white/40"
+            onClick={onClose}
+          >
+            Close
+          </button>
+        </div>
+        <div className="mt-4 flex flex-wrap gap-2">
+          {deckExportFormats.map((option) => (
+            <button
+              key={option.value}
+              type="button"
+              className={clsx(
+                "rounded-full border px-4 py-1.5 text-xs font-semibold uppercase tracking-wide",
+                format === option.value
+                  ? "border-accent/60 bg-accent/10 text-accent"
+                  : "border-white/10 text-white/70 hover:border-white/30"
+              )}
+              onClick={() => setFormat(option.value)}
+            >
+              {option.label}
+            </button>
+          ))}
+        </div>
+        <div className="mt-4 rounded-2xl border border-white/10 bg-slate-950/60 p-4">
+          <pre className="max-h-[18rem] overflow-y-auto whitespace-pre-wrap text-sm text-slate-100">{text}</pre>
+        </div>
+        <div className="mt-4 flex justify-end gap-2">
+          {format === "html" ? (
+            <button
+              type="button"
+              className="rounded-full border border-white/20 px-5 py-2 text-sm font-semibold text-white/80 transition hover:border-white/40"
+              onClick={handlePrint}
+            >
+              Print
+            </button>
+          ) : null}
+          <button
+            type="button"
+            className="rounded-full border border-white/20 px-5 py-2 text-sm font-semibold text-white/80 transition hover:border-white/40"
+            onClick={handleDownload}
+          >
+            Download
+          </button>
+          <button
+            type="button"
+            className={clsx("rounded-full px-5 py-2 text-sm font-semibold text-slate-900", copied ? "bg-emerald-400" : "bg-accent")}
+            onClick={handleCopy}
+          >
+            {copied ? "Copied" : "Copy to clipboard"}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
+
+function InventoryModal({
+  inventory,
+  unmatched,
+  transactions,
+  onRecord,
+  onClose
+}: {
+  inventory: Inventory;
+  unmatched: string[];
+  transactions: CollectionTransaction[];
+  onRecord: (transaction: CollectionTransaction) => void;
+  onClose: () => void;
+}) {
   const [search, setSearch] = useState("");
+  const [tab, setTab] = useState<InventoryTab>("cards");
 
   const entries = useMemo(() => {
     let data = Object.entries(inventory);
@@ -728,50 +1227,101 @@ function InventoryModal({ inventory, onClose }: { inventory: Inventory; onClose:
           </button>
         </div>
 
-        <div className="mt-4">
-          <label className="flex items-center gap-2 rounded-full border border-white/10 bg-slate-950/40 px-3 py-2 text-sm">
-            <Search className="h-4 w-4 text-white/50" />
-            <input
-              type="text"
-              placeholder="Search cards..."
-              value={search}
-              onChange={(e) => setSearch(e.target.value)}
-              className="w-full bg-transparent text-white outline-none placeholder:text-white/40"
-              autoFocus
-            />
-          </label>
+        <div className="mt-4 flex gap-2">
+          {inventoryTabs.map((option) => (
+            <button
+              key={option.value}
+              type="button"
+              className={clsx(
+                "rounded-full border px-4 py-1.5 text-xs font-semibold uppercase tracking-wide",
+                tab === option.value
+                  ? "border-accent/60 bg-accent/10 text-accent"
+                  : "border-white/10 text-white/70 hover:border-white/30"
+              )}
+              onClick={() => setTab(option.value)}
+            >
+              {option.label}
+            </button>
+          ))}
         </div>
 
-        <p className="mt-2 text-sm text-slate-400">
-          Showing {entries.length} cards.
-        </p>
-        <div className="mt-2 flex-1 overflow-y-auto rounded-2xl border border-white/10 bg-slate-950/60 p-2">
-          <ul className="flex flex-col gap-1">
-            {entries.map(([name, count]) => {
-              const meta = getCardArtMeta(name);
-              const artUrl = meta?.imageUrl;
-              return (
-                <li key={name} className="flex items-center gap-3 rounded-xl px-3 py-2 hover:bg-white/5">
-                  <div className="h-12 w-9 shrink-0 overflow-hidden rounded border border-white/10 bg-slate-900/40">
-                    {artUrl ? (
-                      <img src={artUrl} alt={name} className="h-full w-full object-cover" loading="lazy" />
-                    ) : (
-                      <div className="flex h-full w-full items-center justify-center text-[8px] text-white/40">
-                        No art
+        {tab === "history" ? (
+          <div className="mt-4 flex min-h-0 flex-1 flex-col">
+            <CollectionHistory transactions={transactions} inventory={inventory} onRecord={onRecord} />
+          </div>
+        ) : (
+          <>
+            <div className="mt-4">
+              <label className="flex items-center gap-2 rounded-full border border-white/10 bg-slate-950/40 px-3 py-2 text-sm">
+                <Search className="h-4 w-4 text-white/50" />
+                <input
+                  type="text"
+                  placeholder="Search cards..."
+                  value={search}
+                  onChange={(e) => setSearch(e.target.value)}
+                  className="w-full bg-transparent text-white outline-none placeholder:text-white/40"
+                  autoFocus
+                />
+              </label>
+            </div>
+
+            {unmatched.length ? (
+              <div className="mt-4 rounded-2xl border border-amber-500/40 bg-amber-500/10 px-4 py-3 text-xs text-amber-100">
+                <p className="font-semibold uppercase tracking-wide">Not matched to a known card ({unmatched.length})</p>
+                <p className="mt-1 text-amber-100/80">{unmatched.join(" · ")}</p>
+              </div>
+            ) : null}
+
+            <p className="mt-2 text-sm text-slate-400">
+              Showing {entries.length} cards.
+            </p>
+            <div className="mt-2 flex-1 overflow-y-auto rounded-2xl border border-white/10 bg-slate-950/60 p-2">
+              <ul className="flex flex-col gap-1">
+                {entries.map(([name, count]) => {
+                  const meta = getCardArtMeta(name);
+                  const artUrl = meta?.imageUrl;
+                  return (
+                    <li key={name} className="flex items-center gap-3 rounded-xl px-3 py-2 hover:bg-white/5">
+                      <div className="h-12 w-9 shrink-0 overflow-hidden rounded border border-white/10 bg-slate-900/40">
+                        {artUrl ? (
+                          <img src={artUrl} alt={name} className="h-full w-full object-cover" loading="lazy" />
+                        ) : (
+                          <div className="flex h-full w-full items-center justify-center text-[8px] text-white/40">
+                            No art
+                          </div>
+                        )}
                       </div>
-                    )}
-                  </div>
-                  <div className="flex flex-1 items-center justify-between">
-                    <span className="text-sm text-slate-200">{name}</span>
-                    <span className="rounded-full bg-slate-800 px-2 py-0.5 text-xs font-medium text-slate-400">
-                      {count}x
-                    </span>
-                  </div>
-                </li>
-              );
-            })}
-          </ul>
-        </div>
+                      <div className="flex flex-1 items-center justify-between">
+                        <span className="text-sm text-slate-200">{name}</span>
+                        <span className="flex items-center gap-1">
+                          <button
+                            type="button"
+                            aria-label={`Remove one ${name}`}
+                            className="h-6 w-6 rounded-full border border-white/10 text-xs text-white/70 hover:border-white/30"
+                            onClick={() => onRecord(removeTransaction({ [name]: 1 }))}
+                          >
+                            −
+                          </button>
+                          <span className="rounded-full bg-slate-800 px-2 py-0.5 text-xs font-medium text-slate-400">
+                            {count}x
+                          </span>
+                          <button
+                            type="button"
+                            aria-label={`Add one ${name}`}
+                            className="h-6 w-6 rounded-full border border-white/10 text-xs text-white/70 hover:border-white/30"
+                            onClick={() => onRecord(addTransaction({ [name]: 1 }))}
+                          >
+                            +
+                          </button>
+                        </span>
+                      </div>
+                    </li>
+                  );
+                })}
+              </ul>
+            </div>
+          </>
+        )}
       </div>
     </div>
   );
@@ -779,6 +1329,7 @@ function InventoryModal({ inventory, onClose }: { inventory: Inventory; onClose:
 
 function TextImportModal({ onClose, onImport }: { onClose: () => void; onImport: (text: string) => void }) {
   const [text, setText] = useState("");
+  const issues = useMemo(() => parseCardCountsWithIssues(text.split(/\r?\n/)).issues, [text]);
 
   return (
     <div className="fixed inset-0 z-50 flex items-center justify-center bg-slate-950/80 p-4" onClick={onClose}>
@@ -802,13 +1353,15 @@ function TextImportModal({ onClose, onImport }: { onClose: () => void; onImport:
         <p className="mt-2 text-sm text-slate-400">
           Paste your card list below. Format: <code>3x Card Name</code> or <code>1x Card Name</code>.
         </p>
-        <textarea
-          className="mt-4 h-64 w-full rounded-2xl border border-white/10 bg-slate-950/60 p-4 text-sm text-slate-200 outline-none focus:border-accent/50"
+        <HighlightedTextarea
+          className="mt-4 h-64"
           placeholder={`3x Kai'Sa, Survivor\n1x Falling Star\n...`}
           value={text}
-          onChange={(e) => setText(e.target.value)}
+          onChange={setText}
+          issues={issues}
           autoFocus
         />
+        <ParseIssueList issues={issues} />
         <div className="mt-4 flex justify-end">
           <button
             type="button"
@@ -823,9 +1376,28 @@ function TextImportModal({ onClose, onImport }: { onClose: () => void; onImport:
   );
 }
 
-function DeckImportModal({ onClose, onImport }: { onClose: () => void; onImport: (name: string, text: string) => void }) {
+function DeckImportModal({
+  onClose,
+  onImport
+}: {
+  onClose: () => void;
+  onImport: (name: string, text: string, format?: string) => void;
+}) {
   const [name, setName] = useState("");
   const [text, setText] = useState("");
+  const [format, setFormat] = useState("auto");
+  const importers = useMemo(() => listDeckImporters(), []);
+  const detected = useMemo(() => (text.trim() ? detectDeckFormat(text).label : null), [text]);
+  const preview = useMemo(() => {
+    if (!text.trim()) {
+      return { issues: [], error: null };
+    }
+    try {
+      return { issues: importDeck(text, format === "auto" ? undefined : format).issues, error: null };
+    } catch (error) {
+      return { issues: [], error: error instanceof Error ? error.message : String(error) };
+    }
+  }, [text, format]);
 
   return (
     <div className="fixed inset-0 z-50 flex items-center justify-center bg-slate-950/80 p-4" onClick={onClose}>
@@ -859,20 +1431,43 @@ function DeckImportModal({ onClose, onImport }: { onClose: () => void; onImport:
             />
           </div>
           <div>
-            <label className="block text-xs uppercase tracking-wide text-slate-400 mb-1">Deck List</label>
-            <textarea
-              className="h-64 w-full rounded-xl border border-white/10 bg-slate-950/60 p-4 text-sm text-slate-200 outline-none focus:border-accent/50 font-mono"
+            <div className="mb-1 flex items-center justify-between gap-3">
+              <label className="block text-xs uppercase tracking-wide text-slate-400">Deck List</label>
+              <select
+                value={format}
+                onChange={(e) => setFormat(e.target.value)}
+                className="rounded-full border border-white/10 bg-slate-950/60 px-3 py-1 text-xs text-white/80 focus:outline-none"
+              >
+                <option value="auto" className="bg-slate-900 text-white">
+                  Auto-detect{format === "auto" && detected ? ` (${detected})` : ""}
+                </option>
+                {importers.map((importer) => (
+                  <option key={importer.id} value={importer.id} className="bg-slate-900 text-white">
+                    {importer.label}
+                  </option>
+                ))}
+              </select>
+            </div>
+            <HighlightedTextarea
+              className="h-64"
               placeholder={`1 Master Yi, Wuju Bladesman\n...`}
               value={text}
-              onChange={(e) => setText(e.target.value)}
+              onChange={setText}
+              issues={preview.issues}
             />
+            {preview.error ? <p className="mt-2 whitespace-pre-line text-xs text-rose-300">{preview.error}</p> : null}
+            <ParseIssueList issues={preview.issues} />
+            <p className="mt-1 text-xs text-slate-500">
+              Piltover Archive text, "3x Card" / "Card x3" lists with headers like "Legend:" or "Runes:", card codes (OGN-004) or JSON
+              exports.
+            </p>
           </div>
         </div>
         <div className="mt-4 flex justify-end">
           <button
             type="button"
             className="rounded-full bg-accent px-5 py-2 text-sm font-semibold text-slate-900 transition hover:bg-accent/90 disabled:opacity-50 disabled:cursor-not-allowed"
-            onClick={() => onImport(name, text)}
+            onClick={() => onImport(name, text, format === "auto" ? undefined : format)}
             disabled={!name.trim() || !text.trim()}
           >
             Import deck
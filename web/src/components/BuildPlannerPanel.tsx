@@ -0,0 +1,143 @@
+import { useMemo } from "react";
+import clsx from "clsx";
+import { planBuilds } from "@shared/lib/buildPlanner";
+import type { DeckComparison, Inventory } from "@shared/lib/comparison";
+import { formatPrintingRequirement, type InventoryPrinting } from "@shared/lib/printings";
+import { StatusBadge } from "@app/components/StatusBadge";
+
+export type BuildPlannerPanelProps = {
+  comparisons: DeckComparison[];
+  inventory: Inventory;
+  /** Printing-level inventory lines; `[...]` requirements are checked by name without them. */
+  printings?: InventoryPrinting[];
+  /** Deck slugs in priority order; shared with the shopping list. */
+  selected: string[];
+  setSelected: React.Dispatch<React.SetStateAction<string[]>>;
+};
+
+export function BuildPlannerPanel({ comparisons, inventory, printings, selected, setSelected }: BuildPlannerPanelProps) {
+  const chosen = useMemo(
+    () =>
+      selected
+        .map((slug) => comparisons.find((entry) => entry.deck.slug === slug))
+        .filter((entry): entry is DeckComparison => Boolean(entry)),
+    [comparisons, selected]
+  );
+  const plan = useMemo(
+    () => (chosen.length ? planBuilds(chosen.map((entry) => entry.deck), inventory, printings) : null),
+    [chosen, inventory, printings]
+  );
+  const labels = useMemo(() => new Map(comparisons.map((entry) => [entry.deck.slug, entry.deck.label])), [comparisons]);
+
+  function toggle(slug: string) {
+    setSelected((prev) => (prev.includes(slug) ? prev.filter((entry) => entry !== slug) : [...prev, slug]));
+  }
+
+  return (
+    <section className="rounded-3xl border border-white/5 bg-slate-950/60 p-6 shadow-2xl">
+      <div className="flex flex-wrap items-center justify-between gap-3">
+        <div>
+          <p className="text-sm uppercase tracking-[0.3em] text-slate-400">Build planner</p>
+          <h3 className="text-2xl font-semibold text-white">Share one collection across decks</h3>
+        </div>
+        <div className="flex gap-2">
+          <button
+            type="button"
+            className="rounded-full border border-white/20 px-4 py-1.5 text-xs font-semibold uppercase tracking-wide text-white/80 transition hover:border-white/40"
+            onClick={() => setSelected(comparisons.map((entry) => entry.deck.slug))}
+          >
+            Select all
+          </button>
+          <button
+            type="button"
+            className="rounded-full border border-white/20 px-4 py-1.5 text-xs font-semibold uppercase tracking-wide text-white/80 transition hover:border-white/40"
+            onClick={() => setSelected([])}
+          >
+            Clear
+          </button>
+        </div>
+      </div>
+      <p className="mt-2 text-sm text-slate-400">Decks are allocated in the order you pick them, so select your priority deck first.</p>
+
+      <div className="mt-4 grid gap-6 lg:grid-cols-[minmax(0,1fr)_minmax(0,1.4fr)]">
+        <ul className="flex max-h-[28rem] flex-col gap-2 overflow-y-auto pr-1">
+          {comparisons.map((entry) => {
+            const order = selected.indexOf(entry.deck.slug);
+            return (
+              <li key={entry.deck.slug}>
+                <label
+                  className={clsx(
+                    "flex cursor-pointer items-center justify-between gap-3 rounded-2xl border px-4 py-3 text-sm transition",
+                    order >= 0 ? "border-accent/60 bg-accent/5" : "border-white/10 bg-white/5 hover:border-accent/40"
+                  )}
+                >
+                  <span className="flex items-center gap-3">
+                    <input type="checkbox" checked={order >= 0} onChange={() => toggle(entry.deck.slug)} />
+                    <span className="text-white">{entry.deck.label}</span>
+                    {order >= 0 ? <span className="text-xs text-slate-400">#{order + 1}</span> : null}
+                  </span>
+                  <StatusBadge status={entry.status} />
+                </label>
+              </li>
+            );
+          })}
+        </ul>
+
+        <div className="rounded-2xl border border-white/10 bg-slate-900/50 p-4 text-sm text-white/80">
+          {!plan ? (
+            <p className="text-center text-slate-400">Pick the decks you want to build to see what fits in your collection at the same time.</p>
+          ) : (
+            <div className="flex flex-col gap-4">
+              <div>
+                <p className="text-[11px] uppercase tracking-[0.3em] text-slate-500">Allocation</p>
+                <ul className="mt-2 flex flex-col gap-1">
+                  {plan.decks.map((deck) => (
+                    <li key={deck.slug} className="flex items-center justify-between">
+                      <span>{deck.label}</span>
+                      <span className={deck.allocated ? "text-emerald-200" : "text-amber-200"}>
+                        {deck.allocated ? "built" : `${deck.missing} short`}
+                      </span>
+                    </li>
+                  ))}
+                </ul>
+              </div>
+              <div>
+                <p className="text-[11px] uppercase tracking-[0.3em] text-slate-500">Largest set together</p>
+                <p className="mt-2">
+                  {plan.largestSet.length
+                    ? plan.largestSet.map((slug) => labels.get(slug) ?? slug).join(" · ")
+                    : "None of the selected decks can be built on its own."}
+                </p>
+              </div>
+              <div>
+                <p className="text-[11px] uppercase tracking-[0.3em] text-slate-500">
+                  Combined shortfall · {plan.totalShortfall} copies
+                </p>
+                {plan.shortfall.length === 0 ? (
+                  <p className="mt-2 text-emerald-200">Every selected deck can be built at the same time.</p>
+                ) : (
+                  <ul className="mt-2 flex max-h-[16rem] flex-col gap-1 overflow-y-auto pr-1">
+                    {plan.shortfall.map((card) => {
+                      const printing = card.printing ? ` ${formatPrintingRequirement(card.printing)}` : "";
+                      return (
+                        <li key={card.name + printing} className="flex items-center justify-between gap-3">
+                          <span>
+                            {card.name}
+                            {printing}
+                          </span>
+                          <span className="text-xs text-slate-400">
+                            {card.owned}/{card.required} · <span className="text-amber-200">need {card.missing}</span>
+                          </span>
+                        </li>
+                      );
+                    })}
+                  </ul>
+                )}
+              </div>
+            </div>
+          )}
+        </div>
+      </div>
+    </section>
+  );
+}
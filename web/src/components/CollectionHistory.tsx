@@ -0,0 +1,181 @@
+import { useMemo, useState } from "react";
+import clsx from "clsx";
+import {
+  addTransaction,
+  findOverdrawnCards,
+  parseCardCounts,
+  removeTransaction,
+  tradeTransaction,
+  undoneTransactionIds,
+  undoTransaction,
+  type CollectionTransaction
+} from "@shared/lib/collection";
+import type { Inventory } from "@shared/lib/comparison";
+
+type EntryKind = "add" | "remove" | "trade";
+
+const entryKinds: Array<{ label: string; value: EntryKind }> = [
+  { label: "Add", value: "add" },
+  { label: "Remove", value: "remove" },
+  { label: "Trade", value: "trade" }
+];
+
+export type CollectionHistoryProps = {
+  transactions: CollectionTransaction[];
+  inventory: Inventory;
+  onRecord: (transaction: CollectionTransaction) => void;
+};
+
+export function CollectionHistory({ transactions, inventory, onRecord }: CollectionHistoryProps) {
+  const [kind, setKind] = useState<EntryKind>("add");
+  const [cardsText, setCardsText] = useState("");
+  const [receivedText, setReceivedText] = useState("");
+  const [note, setNote] = useState("");
+  const [error, setError] = useState<string | null>(null);
+
+  const undone = useMemo(() => undoneTransactionIds(transactions), [transactions]);
+  const newestFirst = useMemo(() => [...transactions].reverse(), [transactions]);
+
+  function handleRecord() {
+    try {
+      const cards = parseCardCounts(cardsText.split(/\r?\n/));
+      const received = parseCardCounts(receivedText.split(/\r?\n/));
+      if (Object.keys(cards).length === 0 && (kind !== "trade" || Object.keys(received).length === 0)) {
+        throw new Error("No valid card entries found. Use format: '3x Card Name'");
+      }
+      if (kind !== "add") {
+        const overdrawn = Object.keys(findOverdrawnCards(inventory, cards));
+        if (overdrawn.length) {
+          throw new Error(`Not enough copies to give away: ${overdrawn.join(", ")}`);
+        }
+      }
+
+      onRecord(
+        kind === "add"
+          ? addTransaction(cards, note)
+          : kind === "remove"
+            ? removeTransaction(cards, note)
+            : tradeTransaction(cards, received, note)
+      );
+      setCardsText("");
+      setReceivedText("");
+      setNote("");
+      setError(null);
+    } catch (recordError) {
+      setError(recordError instanceof Error ? recordError.message : String(recordError));
+    }
+  }
+
+  function handleUndo(id: string) {
+    try {
+      onRecord(undoTransaction(transactions, id));
+    } catch (undoError) {
+      setError(undoError instanceof Error ? undoError.message : String(undoError));
+    }
+  }
+
+  function handleDownload() {
+    const payload = JSON.stringify({ version: 1, transactions }, null, 2);
+    const url = URL.createObjectURL(new Blob([payload], { type: "application/json" }));
+    const link = document.createElement("a");
+    link.href = url;
+    link.download = "collection.json";
+    link.click();
+    URL.revokeObjectURL(url);
+  }
+
+  return (
+    <div className="flex min-h-0 flex-1 flex-col gap-4">
+      <div className="rounded-2xl border border-white/10 bg-slate-950/60 p-4">
+        <div className="flex flex-wrap gap-2">
+          {entryKinds.map((option) => (
+            <button
+              key={option.value}
+              type="button"
+              className={clsx(
+                "rounded-full border px-3 py-1 text-xs font-semibold uppercase tracking-wide",
+                kind === option.value
+                  ? "border-accent/60 bg-accent/10 text-accent"
+                  : "border-white/10 text-white/70 hover:border-white/30"
+              )}
+              onClick={() => setKind(option.value)}
+            >
+              {option.label}
+            </button>
+          ))}
+        </div>
+        <div className={clsx("mt-3 grid gap-3", kind === "trade" && "sm:grid-cols-2")}>
+          <textarea
+            value={cardsText}
+            onChange={(e) => setCardsText(e.target.value)}
+            placeholder={kind === "trade" ? "Given away, e.g. 1x Mega-Mech" : "3x Card Name"}
+            rows={3}
+            className="w-full rounded-xl border border-white/10 bg-slate-900/60 p-3 font-mono text-xs text-white outline-none focus:border-accent/50"
+          />
+          {kind === "trade" ? (
+            <textarea
+              value={receivedText}
+              onChange={(e) => setReceivedText(e.target.value)}
+              placeholder="Received, e.g. 2x Pouty Poro"
+              rows={3}
+              className="w-full rounded-xl border border-white/10 bg-slate-900/60 p-3 font-mono text-xs text-white outline-none focus:border-accent/50"
+            />
+          ) : null}
+        </div>
+        <div className="mt-3 flex gap-2">
+          <input
+            type="text"
+            value={note}
+            onChange={(e) => setNote(e.target.value)}
+            placeholder="Note (optional)"
+            className="flex-1 rounded-full border border-white/10 bg-slate-900/60 px-4 py-1.5 text-sm text-white outline-none placeholder:text-white/40"
+          />
+          <button type="button" className="rounded-full bg-accent px-5 py-1.5 text-sm font-semibold text-slate-900" onClick={handleRecord}>
+            Record
+          </button>
+        </div>
+        {error ? <p className="mt-2 text-xs text-rose-200">{error}</p> : null}
+      </div>
+
+      <div className="flex items-center justify-between text-xs uppercase tracking-[0.3em] text-slate-400">
+        <span>{transactions.length} transactions</span>
+        <button type="button" className="tracking-wide text-white/70 hover:text-white" onClick={handleDownload}>
+          Download log
+        </button>
+      </div>
+      <ul className="flex-1 space-y-2 overflow-y-auto rounded-2xl border border-white/10 bg-slate-950/60 p-2">
+        {newestFirst.map((transaction) => (
+          <li
+            key={transaction.id}
+            className={clsx("rounded-xl px-3 py-2 text-sm", undone.has(transaction.id) ? "text-slate-500 line-through" : "text-slate-200")}
+          >
+            <div className="flex items-center justify-between gap-3">
+              <span className="text-xs uppercase tracking-wide text-slate-400">
+                {transaction.kind} · {new Date(transaction.at).toLocaleString()}
+              </span>
+              {transaction.kind !== "undo" && !undone.has(transaction.id) ? (
+                <button
+                  type="button"
+                  className="text-xs font-semibold uppercase tracking-wide text-white/60 hover:text-white"
+                  onClick={() => handleUndo(transaction.id)}
+                >
+                  Undo
+                </button>
+              ) : null}
+            </div>
+            {transaction.note ? <p className="text-xs text-slate-400">{transaction.note}</p> : null}
+            {transaction.cards.length ? (
+              <p className="mt-1 text-xs">
+                {transaction.cards
+                  .slice(0, 8)
+                  .map((card) => `${card.count > 0 ? "+" : ""}${card.count} ${card.name}`)
+                  .join(" · ")}
+                {transaction.cards.length > 8 ? ` · ${transaction.cards.length - 8} more` : ""}
+              </p>
+            ) : null}
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+}
@@ -0,0 +1,158 @@
+import { useMemo, useState } from "react";
+import clsx from "clsx";
+import { computeCollectionStats, type SetCompletion } from "@shared/lib/collectionStats";
+import type { Inventory } from "@shared/lib/comparison";
+import { formatUsd, type PriceMap } from "@shared/lib/prices";
+
+export type CollectionStatsPanelProps = {
+  inventory: Inventory | null;
+  inventoryLabel: string;
+  prices: PriceMap;
+};
+
+export function CollectionStatsPanel({ inventory, inventoryLabel, prices }: CollectionStatsPanelProps) {
+  const stats = useMemo(() => (inventory ? computeCollectionStats(inventory, prices) : null), [inventory, prices]);
+  const [selectedSet, setSelectedSet] = useState<string | null>(null);
+
+  if (!stats) {
+    return (
+      <section className="rounded-3xl border border-white/5 bg-slate-950/60 p-6 text-center text-slate-400 shadow-2xl">
+        Load an inventory to see what the collection is worth and how close each set is to complete.
+      </section>
+    );
+  }
+
+  const active = stats.sets.find((entry) => entry.set === selectedSet) ?? stats.sets[0];
+
+  return (
+    <section className="rounded-3xl border border-white/5 bg-slate-950/60 p-6 shadow-2xl">
+      <div>
+        <p className="text-sm uppercase tracking-[0.3em] text-slate-400">Collection</p>
+        <h3 className="text-2xl font-semibold text-white">{formatUsd(stats.valueUsd)}</h3>
+        <p className="text-sm text-slate-400">{inventoryLabel}</p>
+      </div>
+
+      <div className="mt-4 grid gap-4 md:grid-cols-3">
+        <Stat label="Unique cards" value={String(stats.uniqueCards)} />
+        <Stat label="Copies" value={String(stats.copies)} />
+        <Stat
+          label="Priced copies"
+          value={stats.unpricedCopies ? `${stats.pricedCopies} · ${stats.unpricedCopies} unpriced` : String(stats.pricedCopies)}
+        />
+      </div>
+
+      <div className="mt-6 grid gap-4 md:grid-cols-3">
+        {stats.sets.map((entry) => (
+          <button
+            key={entry.set}
+            type="button"
+            className={clsx(
+              "rounded-2xl border p-4 text-left transition",
+              entry.set === active?.set ? "border-accent/60 bg-accent/5" : "border-white/10 bg-slate-900/50 hover:border-white/30"
+            )}
+            onClick={() => setSelectedSet(entry.set)}
+          >
+            <p className="text-[11px] uppercase tracking-[0.3em] text-slate-500">{entry.set}</p>
+            <p className="text-lg font-semibold text-white">{entry.setName}</p>
+            <Progress label="Owned" value={entry.ownedPercent} detail={`${entry.owned}/${entry.total}`} />
+            <Progress label="Playsets" value={entry.playsetPercent} detail={`${entry.playsets}/${entry.total}`} />
+          </button>
+        ))}
+      </div>
+
+      {active ? <SetDetails entry={active} /> : null}
+
+      {stats.mostValuable.length ? (
+        <div className="mt-6 rounded-2xl border border-white/10 bg-slate-900/50 p-4 text-sm text-white/80">
+          <p className="text-[11px] uppercase tracking-[0.3em] text-slate-500">Most valuable</p>
+          <ul className="mt-2 flex flex-col gap-1">
+            {stats.mostValuable.map((entry) => (
+              <li key={entry.name} className="flex items-center justify-between gap-3">
+                <span>
+                  {entry.count}× {entry.name}
+                </span>
+                <span className="text-xs text-slate-400">
+                  {formatUsd(entry.priceUsd)} each · {formatUsd(entry.valueUsd)}
+                </span>
+              </li>
+            ))}
+          </ul>
+        </div>
+      ) : null}
+    </section>
+  );
+}
+
+function SetDetails({ entry }: { entry: SetCompletion }) {
+  return (
+    <div className="mt-6 grid gap-6 lg:grid-cols-[1fr,2fr]">
+      <div className="rounded-2xl border border-white/10 bg-slate-900/50 p-4 text-sm text-white/80">
+        <p className="text-[11px] uppercase tracking-[0.3em] text-slate-500">{entry.setName} by rarity</p>
+        <ul className="mt-2 flex flex-col gap-3">
+          {entry.byRarity.map((rarity) => (
+            <li key={rarity.rarity}>
+              <p className="font-semibold text-white">{rarity.rarity}</p>
+              <Progress label="Owned" value={percent(rarity.owned, rarity.total)} detail={`${rarity.owned}/${rarity.total}`} />
+              <Progress label="Playsets" value={percent(rarity.playsets, rarity.total)} detail={`${rarity.playsets}/${rarity.total}`} />
+            </li>
+          ))}
+        </ul>
+      </div>
+      <div className="rounded-2xl border border-white/10 bg-slate-900/50 p-4 text-sm text-white/80">
+        <p className="text-[11px] uppercase tracking-[0.3em] text-slate-500">Needed for playsets ({entry.needed.length})</p>
+        {entry.needed.length === 0 ? (
+          <p className="mt-2 text-slate-400">Every playset in {entry.setName} is complete.</p>
+        ) : (
+          <>
+            <p className="mt-1 text-xs text-slate-400">
+              {entry.missingCopies} copies · {formatUsd(entry.completionCostUsd)}
+              {entry.unpricedMissingCopies ? ` + ${entry.unpricedMissingCopies} unpriced` : ""}
+            </p>
+            <ul className="mt-2 flex max-h-[24rem] flex-col gap-1 overflow-y-auto pr-1">
+              {entry.needed.map((card) => (
+                <li key={card.name} className="flex items-center justify-between gap-3">
+                  <span>
+                    <span className="mr-2 text-xs text-slate-500">{card.publicCode.split("/")[0]}</span>
+                    {card.name}
+                  </span>
+                  <span className="shrink-0 text-xs text-slate-400">
+                    {card.owned}/{card.playset} · need {card.missing} · {card.costUsd == null ? "no price" : formatUsd(card.costUsd)}
+                  </span>
+                </li>
+              ))}
+            </ul>
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
+
+function Progress({ label, value, detail }: { label: string; value: number; detail: string }) {
+  return (
+    <div className="mt-2">
+      <div className="flex items-center justify-between text-xs text-slate-400">
+        <span>{label}</span>
+        <span>
+          {detail} · {value}%
+        </span>
+      </div>
+      <div className="mt-1 h-1.5 overflow-hidden rounded-full bg-white/10">
+        <div className="h-full rounded-full bg-accent" style={{ width: `${Math.min(100, value)}%` }} />
+      </div>
+    </div>
+  );
+}
+
+function Stat({ label, value }: { label: string; value: string }) {
+  return (
+    <div className="rounded-2xl border border-white/10 bg-slate-900/50 p-4">
+      <p className="text-[11px] uppercase tracking-[0.3em] text-slate-500">{label}</p>
+      <p className="mt-1 text-xl font-semibold text-white">{value}</p>
+    </div>
+  );
+}
+
+function percent(part: number, total: number): number {
+  return total === 0 ? 0 : Math.round((part / total) * 1000) / 10;
+}
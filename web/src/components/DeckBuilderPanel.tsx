@@ -0,0 +1,391 @@
+import { useMemo, useState } from "react";
+import clsx from "clsx";
+import { Minus, Plus, Search } from "lucide-react";
+import type { CardType } from "@shared/lib/cardDb";
+import { compareDeck, DECK_BUCKET_LABELS, ensureParsed, DECK_BUCKET_ORDER, type DeckBucket, type Inventory, type StatusThresholds } from "@shared/lib/comparison";
+import { adjustDeckCard, bucketsForCard, cardSearchOptions, emptyDeckExport, searchCards, type CardSearch } from "@shared/lib/deckBuilder";
+import { formatCardLine, formatExportedDeck, type DeckExport } from "@shared/lib/deckParser";
+import type { InventoryPrinting } from "@shared/lib/printings";
+import { formatUsd, type PriceMap } from "@shared/lib/prices";
+import type { PersistedDeck } from "@shared/lib/types";
+import { validateDeck } from "@shared/lib/validateDeck";
+import { LegalityBadge } from "@app/components/LegalityBadge";
+import { StatusBadge } from "@app/components/StatusBadge";
+import { deleteDeckDraft, loadDeckDrafts, saveDeckDraft, type DeckDraft } from "@app/lib/deckDrafts";
+
+export type DeckBuilderPanelProps = {
+  /** Loaded decks, offered as starting points for a new draft. */
+  decks: PersistedDeck[];
+  inventory: Inventory | null;
+  printings?: InventoryPrinting[];
+  /** Same as the deck comparison: undefined when no prices are loaded and no cost threshold is set. */
+  prices?: PriceMap;
+  thresholds: StatusThresholds;
+  /** Adds the draft to the dashboard's deck list so it shows up next to scraped decks. */
+  onAddDeck: (deck: PersistedDeck) => void;
+  onError: (message: string) => void;
+};
+
+const bucketButtonLabels: Record<DeckBucket, string> = {
+  legend: "Legend",
+  champion: "Champion",
+  main: "Main",
+  battlefields: "Battlefield",
+  runes: "Rune",
+  sideboard: "Side"
+};
+
+export function DeckBuilderPanel({ decks, inventory, printings, prices, thresholds, onAddDeck, onError }: DeckBuilderPanelProps) {
+  const [drafts, setDrafts] = useState<DeckDraft[]>(() => loadDeckDrafts());
+  const [draftId, setDraftId] = useState<string>(() => crypto.randomUUID());
+  const [name, setName] = useState("Untitled deck");
+  const [parsed, setParsed] = useState<DeckExport>(() => emptyDeckExport());
+  const [savedAt, setSavedAt] = useState<string | null>(null);
+  const [copied, setCopied] = useState(false);
+  const [search, setSearch] = useState<CardSearch>({});
+  const options = useMemo(() => cardSearchOptions(), []);
+  const results = useMemo(() => searchCards(search), [search]);
+
+  const exportText = useMemo(() => formatExportedDeck(parsed), [parsed]);
+  const validation = useMemo(() => validateDeck(parsed), [parsed]);
+  const comparison = useMemo(() => {
+    if (!inventory) {
+      return null;
+    }
+    const deck: PersistedDeck = { slug: `draft-${draftId}`, label: name, url: "", exportText, parsed };
+    return compareDeck(deck, inventory, thresholds, prices, printings);
+  }, [draftId, name, exportText, parsed, inventory, thresholds, prices, printings]);
+  const missingByEntry = useMemo(
+    () => new Map((comparison?.missingCards ?? []).map((card) => [`${card.bucket}:${card.name}`, card.missing])),
+    [comparison]
+  );
+
+  function openDraft(draft: DeckDraft | null) {
+    setDraftId(draft?.id ?? crypto.randomUUID());
+    setName(draft?.name ?? "Untitled deck");
+    setParsed(draft?.parsed ?? emptyDeckExport());
+    setSavedAt(draft?.updatedAt ?? null);
+  }
+
+  function startFromDeck(slug: string) {
+    const deck = decks.find((entry) => entry.slug === slug);
+    if (!deck) {
+      return;
+    }
+    try {
+      const { parsed: source } = ensureParsed(deck);
+      openDraft(null);
+      setName(`${deck.label} (copy)`);
+      setParsed({ ...emptyDeckExport(), ...source });
+    } catch (error) {
+      onError(error instanceof Error ? error.message : String(error));
+    }
+  }
+
+  function handleSave() {
+    try {
+      const updatedAt = new Date().toISOString();
+      setDrafts(saveDeckDraft({ id: draftId, name: name.trim() || "Untitled deck", parsed, updatedAt }));
+      setSavedAt(updatedAt);
+    } catch (error) {
+      onError(`Could not save the draft: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  }
+
+  function handleDelete() {
+    try {
+      setDrafts(deleteDeckDraft(draftId));
+      openDraft(null);
+    } catch (error) {
+      onError(`Could not delete the draft: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  }
+
+  async function handleCopy() {
+    try {
+      await navigator.clipboard.writeText(exportText);
+      setCopied(true);
+      setTimeout(() => setCopied(false), 1500);
+    } catch (error) {
+      onError(`Could not copy the deck list: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  }
+
+  function handleDownload() {
+    const url = URL.createObjectURL(new Blob([exportText], { type: "text/plain" }));
+    const link = document.createElement("a");
+    link.href = url;
+    link.download = `${(name.trim() || "deck").replace(/[^\w-]+/g, "-").toLowerCase()}.txt`;
+    link.click();
+    URL.revokeObjectURL(url);
+  }
+
+  function adjust(bucket: DeckBucket, cardName: string, delta: number) {
+    setParsed((current) => adjustDeckCard(current, bucket, cardName, delta));
+  }
+
+  const isSaved = drafts.some((draft) => draft.id === draftId);
+  const isEmpty = DECK_BUCKET_ORDER.every((bucket) => parsed[bucket].length === 0);
+
+  return (
+    <section className="rounded-3xl border border-white/5 bg-slate-950/60 p-6 shadow-2xl">
+      <div className="flex flex-wrap items-start justify-between gap-4">
+        <div className="min-w-[16rem] flex-1">
+          <p className="text-sm uppercase tracking-[0.3em] text-slate-400">Deck builder</p>
+          <input
+            type="text"
+            value={name}
+            onChange={(event) => setName(event.target.value)}
+            className="mt-1 w-full bg-transparent text-2xl font-semibold text-white outline-none placeholder:text-white/40"
+            placeholder="Deck name"
+          />
+          <div className="mt-2 flex flex-wrap items-center gap-2">
+            <LegalityBadge validation={validation} />
+            {comparison ? <StatusBadge status={comparison.status} /> : null}
+            <span className="text-xs text-slate-400">
+              {savedAt ? `Saved ${new Date(savedAt).toLocaleString()}` : "Not saved yet"}
+            </span>
+          </div>
+        </div>
+        <div className="flex flex-wrap gap-2">
+          <select
+            value={isSaved ? draftId : ""}
+            onChange={(event) => openDraft(drafts.find((draft) => draft.id === event.target.value) ?? null)}
+            className="rounded-full border border-white/10 bg-slate-950/60 px-3 py-1.5 text-xs text-white/80 focus:outline-none"
+          >
+            <option value="" className="bg-slate-900 text-white">
+              {drafts.length ? "Open saved draft…" : "No saved drafts"}
+            </option>
+            {drafts.map((draft) => (
+              <option key={draft.id} value={draft.id} className="bg-slate-900 text-white">
+                {draft.name}
+              </option>
+            ))}
+          </select>
+          <select
+            value=""
+            onChange={(event) => startFromDeck(event.target.value)}
+            disabled={decks.length === 0}
+            className="rounded-full border border-white/10 bg-slate-950/60 px-3 py-1.5 text-xs text-white/80 focus:outline-none disabled:opacity-50"
+          >
+            <option value="" className="bg-slate-900 text-white">
+              Start from loaded deck…
+            </option>
+            {decks.map((deck) => (
+              <option key={deck.slug} value={deck.slug} className="bg-slate-900 text-white">
+                {deck.label}
+              </option>
+            ))}
+          </select>
+          <ActionButton onClick={() => openDraft(null)}>New</ActionButton>
+          <ActionButton onClick={handleSave}>Save</ActionButton>
+          {isSaved ? <ActionButton onClick={handleDelete}>Delete</ActionButton> : null}
+        </div>
+      </div>
+
+      <div className="mt-6 grid gap-6 lg:grid-cols-[minmax(0,1fr)_minmax(0,1.2fr)] lg:items-start">
+        <div className="rounded-2xl border border-white/10 bg-slate-900/50 p-4">
+          <p className="text-[11px] uppercase tracking-[0.3em] text-slate-500">Card search</p>
+          <label className="mt-2 flex items-center gap-2 rounded-full border border-white/10 bg-slate-950/40 px-3 py-2 text-sm">
+            <Search className="h-4 w-4 text-white/50" />
+            <input
+              type="text"
+              placeholder="Name or code"
+              value={search.text ?? ""}
+              onChange={(event) => setSearch((current) => ({ ...current, text: event.target.value }))}
+              className="w-full bg-transparent text-white outline-none placeholder:text-white/40"
+            />
+          </label>
+          <div className="mt-2 grid grid-cols-2 gap-2 md:grid-cols-4">
+            <FilterSelect
+              label="Type"
+              value={search.cardType ?? ""}
+              values={options.cardTypes}
+              onChange={(value) => setSearch((current) => ({ ...current, cardType: (value || undefined) as CardType | undefined }))}
+            />
+            <FilterSelect
+              label="Domain"
+              value={search.domain ?? ""}
+              values={options.domains}
+              onChange={(value) => setSearch((current) => ({ ...current, domain: value || undefined }))}
+            />
+            <FilterSelect
+              label="Energy"
+              value={search.energy == null ? "" : String(search.energy)}
+              values={options.energies.map(String)}
+              onChange={(value) => setSearch((current) => ({ ...current, energy: value ? Number(value) : undefined }))}
+            />
+            <FilterSelect
+              label="Rarity"
+              value={search.rarity ?? ""}
+              values={options.rarities}
+              onChange={(value) => setSearch((current) => ({ ...current, rarity: value || undefined }))}
+            />
+          </div>
+          <ul className="mt-3 flex max-h-[32rem] flex-col gap-1 overflow-y-auto pr-1 text-sm text-white/80">
+            {results.length === 0 ? <li className="text-slate-400">No cards match these filters.</li> : null}
+            {results.map((card) => (
+              <li key={card.name} className="flex items-center justify-between gap-3 rounded-xl px-2 py-1 hover:bg-white/5">
+                <span className="min-w-0">
+                  <span className="block truncate text-white">{card.name}</span>
+                  <span className="text-xs text-slate-500">
+                    {card.publicCode.split("/")[0]} · {card.cardType}
+                    {card.energy != null ? ` · ${card.energy} energy` : ""} · {card.domains.join(" / ") || "No domain"} ·{" "}
+                    {inventory ? `own ${inventory[card.name] ?? 0}` : card.rarity}
+                  </span>
+                </span>
+                <span className="flex shrink-0 gap-1">
+                  {bucketsForCard(card).map((bucket) => (
+                    <button
+                      key={bucket}
+                      type="button"
+                      className="rounded-full border border-white/10 px-2 py-0.5 text-[11px] font-semibold uppercase tracking-wide text-white/70 hover:border-accent/60 hover:text-accent"
+                      onClick={() => adjust(bucket, card.name, 1)}
+                    >
+                      + {bucketButtonLabels[bucket]}
+                    </button>
+                  ))}
+                </span>
+              </li>
+            ))}
+          </ul>
+        </div>
+
+        <div className="flex flex-col gap-4">
+          {isEmpty ? (
+            <div className="rounded-2xl border border-dashed border-white/10 p-6 text-center text-sm text-slate-400">
+              Add cards from the search, or start from a loaded deck.
+            </div>
+          ) : null}
+          {DECK_BUCKET_ORDER.filter((bucket) => parsed[bucket].length > 0).map((bucket) => (
+            <div key={bucket} className="rounded-2xl border border-white/10 bg-slate-900/50 p-4 text-sm text-white/80">
+              <p className="text-[11px] uppercase tracking-[0.3em] text-slate-500">
+                {DECK_BUCKET_LABELS[bucket]} ({parsed[bucket].reduce((sum, entry) => sum + entry.count, 0)})
+              </p>
+              <ul className="mt-2 flex flex-col gap-1">
+                {parsed[bucket].map((entry) => {
+                  const missing = missingByEntry.get(`${bucket}:${entry.name}`);
+                  return (
+                    <li key={formatCardLine({ ...entry, count: 0 })} className="flex items-center justify-between gap-3">
+                      <span className="min-w-0 truncate">
+                        {entry.count}× {entry.name}
+                      </span>
+                      <span className="flex shrink-0 items-center gap-2">
+                        {comparison ? (
+                          <span className={clsx("text-xs", missing ? "text-rose-300" : "text-emerald-300")}>
+                            {missing ? `missing ${missing}` : "owned"}
+                          </span>
+                        ) : null}
+                        <CountButton label={`Remove a copy of ${entry.name}`} onClick={() => adjust(bucket, entry.name, -1)}>
+                          <Minus className="h-3 w-3" />
+                        </CountButton>
+                        <CountButton label={`Add a copy of ${entry.name}`} onClick={() => adjust(bucket, entry.name, 1)}>
+                          <Plus className="h-3 w-3" />
+                        </CountButton>
+                      </span>
+                    </li>
+                  );
+                })}
+              </ul>
+            </div>
+          ))}
+
+          {validation.violations.length ? (
+            <div className="rounded-2xl border border-rose-400/20 bg-rose-400/5 p-4 text-sm text-rose-100">
+              <p className="text-[11px] uppercase tracking-[0.3em] text-rose-300/80">Rule issues</p>
+              <ul className="mt-2 flex flex-col gap-1">
+                {validation.violations.map((violation) => (
+                  <li key={violation.rule}>{violation.message}</li>
+                ))}
+              </ul>
+            </div>
+          ) : null}
+
+          {comparison ? (
+            <p className="text-sm text-slate-400">
+              {comparison.totalMissing === 0
+                ? "Every card in this list is in the loaded inventory."
+                : `${comparison.totalMissing} missing cop${comparison.totalMissing === 1 ? "y" : "ies"}${
+                    comparison.missingCostUsd != null ? ` · ${formatUsd(comparison.missingCostUsd)}` : ""
+                  }${comparison.unpricedMissing ? ` + ${comparison.unpricedMissing} unpriced` : ""}`}
+            </p>
+          ) : (
+            <p className="text-sm text-slate-400">Load an inventory to see which cards you already own.</p>
+          )}
+
+          <div className="rounded-2xl border border-white/10 bg-slate-950/60 p-4">
+            <p className="text-[11px] uppercase tracking-[0.3em] text-slate-500">Piltover Archive text</p>
+            <pre className="mt-2 max-h-[14rem] overflow-y-auto whitespace-pre-wrap text-sm text-slate-100">{exportText || "—"}</pre>
+            <div className="mt-3 flex flex-wrap justify-end gap-2">
+              <ActionButton
+                onClick={() => onAddDeck({ slug: `draft-${draftId}`, label: name.trim() || "Untitled deck", url: "", exportText, parsed })}
+                disabled={isEmpty}
+              >
+                Add to decks
+              </ActionButton>
+              <ActionButton onClick={handleDownload} disabled={isEmpty}>
+                Download
+              </ActionButton>
+              <button
+                type="button"
+                className={clsx(
+                  "rounded-full px-4 py-1.5 text-xs font-semibold uppercase tracking-wide text-slate-900 disabled:cursor-not-allowed disabled:opacity-50",
+                  copied ? "bg-emerald-400" : "bg-accent"
+                )}
+                onClick={handleCopy}
+                disabled={isEmpty}
+              >
+                {copied ? "Copied" : "Copy text"}
+              </button>
+            </div>
+          </div>
+        </div>
+      </div>
+    </section>
+  );
+}
+
+function FilterSelect({ label, value, values, onChange }: { label: string; value: string; values: string[]; onChange: (value: string) => void }) {
+  return (
+    <select
+      value={value}
+      onChange={(event) => onChange(event.target.value)}
+      className="rounded-full border border-white/10 bg-slate-950/60 px-3 py-1.5 text-xs text-white/80 focus:outline-none"
+    >
+      <option value="" className="bg-slate-900 text-white">
+        Any {label.toLowerCase()}
+      </option>
+      {values.map((option) => (
+        <option key={option} value={option} className="bg-slate-900 text-white">
+          {option}
+        </option>
+      ))}
+    </select>
+  );
+}
+
+function ActionButton({ onClick, disabled, children }: { onClick: () => void; disabled?: boolean; children: React.ReactNode }) {
+  return (
+    <button
+      type="button"
+      className="rounded-full border border-white/20 px-4 py-1.5 text-xs font-semibold uppercase tracking-wide text-white/80 transition hover:border-white/40 disabled:cursor-not-allowed disabled:opacity-50"
+      onClick={onClick}
+      disabled={disabled}
+    >
+      {children}
+    </button>
+  );
+}
+
+function CountButton({ label, onClick, children }: { label: string; onClick: () => void; children: React.ReactNode }) {
+  return (
+    <button
+      type="button"
+      aria-label={label}
+      className="flex h-6 w-6 items-center justify-center rounded-full border border-white/10 text-white/70 hover:border-white/30"
+      onClick={onClick}
+    >
+      {children}
+    </button>
+  );
+}
@@ -0,0 +1,83 @@
+import { DECK_BUCKET_LABELS } from "@shared/lib/comparison";
+import type { CardChange, DeckVersionDiff } from "@shared/lib/deckDiff";
+import { StatusBadge } from "@app/components/StatusBadge";
+
+export type DeckChangesPanelProps = {
+  /** Newest change first, as returned by `diffDeckHistory`. */
+  changes: DeckVersionDiff[];
+};
+
+export function DeckChangesPanel({ changes }: DeckChangesPanelProps) {
+  if (changes.length === 0) {
+    return (
+      <p className="mt-3 rounded-2xl border border-white/10 bg-white/5 px-4 py-3 text-sm text-slate-400">
+        No earlier versions recorded. Each scrape keeps the previous export whenever a deck is edited.
+      </p>
+    );
+  }
+
+  return (
+    <ol className="mt-3 flex max-h-[30rem] flex-col gap-3 overflow-y-auto pr-3">
+      {changes.map((entry) => (
+        <li key={entry.to.number} className="rounded-2xl border border-white/10 bg-white/5 px-4 py-3 text-sm text-white/80">
+          <div className="flex flex-wrap items-center justify-between gap-2">
+            <p className="font-semibold text-white">
+              Version {entry.from.number} → {entry.to.number}
+              <span className="ml-2 text-xs font-normal text-slate-400">{entry.to.since ? formatDate(entry.to.since) : "date unknown"}</span>
+            </p>
+            {entry.statusBefore && entry.statusAfter ? (
+              entry.statusBefore === entry.statusAfter ? (
+                <span className="text-xs text-slate-400">Status unchanged</span>
+              ) : (
+                <span className="flex items-center gap-2 text-xs text-slate-400">
+                  <StatusBadge status={entry.statusBefore} />→<StatusBadge status={entry.statusAfter} />
+                </span>
+              )
+            ) : null}
+          </div>
+          <p className="mt-1 text-xs text-slate-400">
+            +{entry.diff.copiesAdded} / −{entry.diff.copiesRemoved} copies
+          </p>
+          {entry.diff.buckets.length === 0 ? (
+            <p className="mt-2 text-xs text-slate-400">Same cards; only the export formatting changed.</p>
+          ) : (
+            <div className="mt-2 flex flex-col gap-2">
+              {entry.diff.buckets.map((bucket) => (
+                <div key={bucket.bucket}>
+                  <p className="text-[11px] uppercase tracking-[0.3em] text-slate-500">{DECK_BUCKET_LABELS[bucket.bucket]}</p>
+                  <ul className="mt-1 flex flex-col gap-0.5">
+                    {bucket.added.map((change) => (
+                      <ChangeRow key={`+${change.name}`} change={change} />
+                    ))}
+                    {bucket.removed.map((change) => (
+                      <ChangeRow key={`-${change.name}`} change={change} />
+                    ))}
+                  </ul>
+                </div>
+              ))}
+            </div>
+          )}
+        </li>
+      ))}
+    </ol>
+  );
+}
+
+function ChangeRow({ change }: { change: CardChange }) {
+  const delta = change.after - change.before;
+  return (
+    <li className="flex items-center justify-between gap-3">
+      <span className={delta > 0 ? "text-emerald-200" : "text-rose-200"}>
+        {delta > 0 ? "+" : "−"}
+        {Math.abs(delta)} {change.name}
+      </span>
+      <span className="text-xs text-slate-400">
+        {change.before} → {change.after}
+      </span>
+    </li>
+  );
+}
+
+function formatDate(value: string): string {
+  return value.slice(0, 10);
+}
@@ -0,0 +1,99 @@
+import { useMemo } from "react";
+import type { DeckExport } from "@shared/lib/deckParser";
+import { computeDeckStats, type CurvePoint } from "@shared/lib/deckStats";
+
+export function DeckStatsPanel({ deck }: { deck: DeckExport }) {
+  const stats = useMemo(() => computeDeckStats(deck), [deck]);
+
+  return (
+    <div className="grid gap-3 sm:grid-cols-2">
+      <div className="rounded-2xl border border-white/10 bg-white/5 px-4 py-3">
+        <StatLabel label="Energy curve" detail={stats.averageEnergy == null ? undefined : `avg ${stats.averageEnergy.toFixed(2)}`} />
+        <Histogram curve={stats.energyCurve} />
+      </div>
+
+      <div className="rounded-2xl border border-white/10 bg-white/5 px-4 py-3">
+        <StatLabel
+          label="Unit power"
+          detail={stats.units.averagePower == null ? "no power data" : `avg ${stats.units.averagePower.toFixed(2)} · ${stats.units.withPower}/${stats.units.copies} units`}
+        />
+        {stats.units.withPower ? <Histogram curve={stats.units.powerCurve} /> : null}
+      </div>
+
+      <div className="rounded-2xl border border-white/10 bg-white/5 px-4 py-3">
+        <StatLabel label="Card types" detail={`${stats.mainCopies} cards`} />
+        <ul className="mt-2 flex flex-col gap-2 text-sm text-white/80">
+          {stats.types.map((entry) => (
+            <ShareBar key={entry.type} label={entry.type} detail={`${entry.copies}`} share={entry.share} />
+          ))}
+        </ul>
+      </div>
+
+      <div className="rounded-2xl border border-white/10 bg-white/5 px-4 py-3">
+        <StatLabel label="Domains" detail="cards vs runes" />
+        <ul className="mt-2 flex flex-col gap-2 text-sm text-white/80">
+          {stats.domains.map((entry) => (
+            <li key={entry.domain}>
+              <div className="flex items-center justify-between text-xs text-slate-400">
+                <span className="text-white/80">{entry.domain}</span>
+                <span>
+                  {entry.cards} cards · {entry.runes} runes
+                </span>
+              </div>
+              <div className="mt-1 h-1.5 overflow-hidden rounded-full bg-white/10">
+                <div className="h-full rounded-full bg-accent" style={{ width: `${Math.min(100, entry.cardShare * 100)}%` }} />
+              </div>
+              <div className="mt-0.5 h-1.5 overflow-hidden rounded-full bg-white/10">
+                <div className="h-full rounded-full bg-sky-400/70" style={{ width: `${Math.min(100, entry.runeShare * 100)}%` }} />
+              </div>
+            </li>
+          ))}
+        </ul>
+      </div>
+
+      {stats.unknownCards.length ? (
+        <p className="text-xs text-slate-500 sm:col-span-2">Not in the card data, so left out: {stats.unknownCards.join(", ")}</p>
+      ) : null}
+    </div>
+  );
+}
+
+function StatLabel({ label, detail }: { label: string; detail?: string }) {
+  return (
+    <div className="flex items-center justify-between gap-2">
+      <p className="text-xs uppercase tracking-[0.3em] text-slate-400">{label}</p>
+      {detail ? <p className="text-xs text-slate-400">{detail}</p> : null}
+    </div>
+  );
+}
+
+function Histogram({ curve }: { curve: CurvePoint[] }) {
+  const peak = Math.max(1, ...curve.map((point) => point.copies));
+  return (
+    <div className="mt-3 flex h-28 items-end gap-1.5">
+      {curve.map((point) => (
+        <div key={point.label} className="flex flex-1 flex-col items-center gap-1" title={`${point.copies} at ${point.label}`}>
+          <span className="text-[10px] text-slate-400">{point.copies || ""}</span>
+          <div className="w-full rounded-t-md bg-accent/70" style={{ height: `${(point.copies / peak) * 4.5}rem` }} />
+          <span className="text-[10px] text-slate-500">{point.label}</span>
+        </div>
+      ))}
+    </div>
+  );
+}
+
+function ShareBar({ label, detail, share }: { label: string; detail: string; share: number }) {
+  return (
+    <li>
+      <div className="flex items-center justify-between text-xs text-slate-400">
+        <span className="text-white/80">{label}</span>
+        <span>
+          {detail} · {Math.round(share * 100)}%
+        </span>
+      </div>
+      <div className="mt-1 h-1.5 overflow-hidden rounded-full bg-white/10">
+        <div className="h-full rounded-full bg-accent" style={{ width: `${Math.min(100, share * 100)}%` }} />
+      </div>
+    </li>
+  );
+}
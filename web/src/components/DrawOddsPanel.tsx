@@ -0,0 +1,150 @@
+import { useMemo, useState } from "react";
+import clsx from "clsx";
+import type { DeckExport } from "@shared/lib/deckParser";
+import { DEFAULT_KEEP_MAX_ENERGY, MULLIGAN_LIMIT, drawOdds, parseDrawQuery, sampleHand, type SampleHand } from "@shared/lib/drawOdds";
+
+const TURNS = 5;
+const TRIALS = 5000;
+const atLeastOptions = [1, 2, 3];
+const presets = ["champion", "type:unit energy<=2", "type:spell", "energy>=5"];
+
+export function DrawOddsPanel({ deck }: { deck: DeckExport }) {
+  const [queryText, setQueryText] = useState(deck.champion?.length ? "champion" : "type:unit energy<=2");
+  const [atLeast, setAtLeast] = useState(1);
+  const [hand, setHand] = useState<SampleHand | null>(null);
+
+  const result = useMemo(() => {
+    if (!queryText.trim()) {
+      return { data: null, error: null };
+    }
+    try {
+      return { data: drawOdds(deck, parseDrawQuery(queryText, deck), { atLeast, turns: TURNS, trials: TRIALS }), error: null };
+    } catch (error) {
+      return { data: null, error: error instanceof Error ? error.message : String(error) };
+    }
+  }, [deck, queryText, atLeast]);
+  const odds = result.data;
+
+  function drawSampleHand() {
+    try {
+      const query = queryText.trim() ? parseDrawQuery(queryText, deck) : undefined;
+      setHand(sampleHand(deck, { turns: 3, query }));
+    } catch {
+      setHand(sampleHand(deck, { turns: 3 }));
+    }
+  }
+
+  return (
+    <div className="grid gap-3 md:grid-cols-[minmax(0,1.4fr)_minmax(0,1fr)]">
+      <div className="rounded-2xl border border-white/10 bg-white/5 px-4 py-3">
+        <p className="text-xs uppercase tracking-[0.3em] text-slate-400">Draw odds</p>
+        <div className="mt-2 flex flex-wrap items-center gap-2">
+          <input
+            type="text"
+            value={queryText}
+            onChange={(event) => setQueryText(event.target.value)}
+            placeholder="champion, Cleave, type:unit energy<=2"
+            className="min-w-[12rem] flex-1 rounded-full border border-white/10 bg-slate-950/40 px-3 py-1.5 text-sm text-white outline-none placeholder:text-white/40 focus:border-accent/50"
+          />
+          <select
+            value={atLeast}
+            onChange={(event) => setAtLeast(Number(event.target.value))}
+            className="rounded-full border border-white/10 bg-slate-950/60 px-3 py-1.5 text-xs text-white/80 focus:outline-none"
+          >
+            {atLeastOptions.map((option) => (
+              <option key={option} value={option} className="bg-slate-900 text-white">
+                at least {option}
+              </option>
+            ))}
+          </select>
+        </div>
+        <div className="mt-2 flex flex-wrap gap-2">
+          {presets.map((preset) => (
+            <button
+              key={preset}
+              type="button"
+              className={clsx(
+                "rounded-full border px-3 py-1 text-[11px] font-semibold tracking-wide",
+                queryText === preset ? "border-accent/60 bg-accent/10 text-accent" : "border-white/10 text-white/70 hover:border-white/30"
+              )}
+              onClick={() => setQueryText(preset)}
+            >
+              {preset}
+            </button>
+          ))}
+        </div>
+
+        {result.error ? <p className="mt-3 text-xs text-rose-300">{result.error}</p> : null}
+        {odds ? (
+          <>
+            <p className="mt-3 text-xs text-slate-400">
+              {odds.hits} matching of {odds.librarySize} cards · exact odds without a mulligan, and simulated over {odds.trials} games when
+              up to {MULLIGAN_LIMIT} other cards are set aside
+            </p>
+            {odds.note ? <p className="mt-1 text-xs text-slate-400">{odds.note}</p> : null}
+            <ul className="mt-2 flex flex-col gap-2 text-sm text-white/80">
+              {odds.rows.map((row) => (
+                <li key={row.turn}>
+                  <div className="flex items-center justify-between text-xs text-slate-400">
+                    <span className="text-white/80">{row.turn === 0 ? "Opening hand" : `By turn ${row.turn}`}</span>
+                    <span>
+                      {formatPercent(row.probability)} · {formatPercent(row.withMulligan)} with mulligan
+                    </span>
+                  </div>
+                  <div className="relative mt-1 h-1.5 overflow-hidden rounded-full bg-white/10">
+                    <div className="absolute inset-y-0 left-0 rounded-full bg-sky-400/50" style={{ width: `${row.withMulligan * 100}%` }} />
+                    <div className="absolute inset-y-0 left-0 rounded-full bg-accent" style={{ width: `${row.probability * 100}%` }} />
+                  </div>
+                </li>
+              ))}
+            </ul>
+          </>
+        ) : null}
+      </div>
+
+      <div className="rounded-2xl border border-white/10 bg-white/5 px-4 py-3 text-sm text-white/80">
+        <div className="flex items-center justify-between gap-2">
+          <p className="text-xs uppercase tracking-[0.3em] text-slate-400">Sample hand</p>
+          <button
+            type="button"
+            className="rounded-full border border-white/20 px-3 py-1 text-xs font-semibold uppercase tracking-wide text-white/80 transition hover:border-white/40"
+            onClick={drawSampleHand}
+          >
+            {hand ? "Draw again" : "Draw"}
+          </button>
+        </div>
+        {hand ? (
+          <div className="mt-2 flex flex-col gap-2">
+            <HandLine label="Opening" cards={hand.opening} />
+            {hand.setAside.length ? (
+              <>
+                <HandLine label="Set aside" cards={hand.setAside} muted />
+                <HandLine label="Kept" cards={hand.hand} />
+              </>
+            ) : null}
+            {hand.draws.map((card, index) => (
+              <HandLine key={index} label={`Turn ${index + 1}`} cards={[card]} />
+            ))}
+          </div>
+        ) : (
+          <p className="mt-2 text-slate-400">
+            Shuffles the deck and mulligans towards the target above, or away from cards costing {DEFAULT_KEEP_MAX_ENERGY + 1}+.
+          </p>
+        )}
+      </div>
+    </div>
+  );
+}
+
+function HandLine({ label, cards, muted }: { label: string; cards: string[]; muted?: boolean }) {
+  return (
+    <div>
+      <p className="text-[11px] uppercase tracking-[0.3em] text-slate-500">{label}</p>
+      <p className={muted ? "text-slate-500 line-through" : "text-white/80"}>{cards.join(" · ")}</p>
+    </div>
+  );
+}
+
+function formatPercent(value: number): string {
+  return `${(value * 100).toFixed(1)}%`;
+}
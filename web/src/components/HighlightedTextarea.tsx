@@ -0,0 +1,77 @@
+import { useRef } from "react";
+import clsx from "clsx";
+import { formatParseIssue, type ParseIssue } from "@shared/lib/deckParser";
+
+export type HighlightedTextareaProps = {
+  value: string;
+  onChange: (value: string) => void;
+  issues: ParseIssue[];
+  placeholder?: string;
+  autoFocus?: boolean;
+  className?: string;
+};
+
+/**
+ * A textarea that tints lines with parse issues: errors in rose, warnings in amber. The tints
+ * live in a backdrop that mirrors the text and follows the textarea's scroll position.
+ */
+export function HighlightedTextarea({ value, onChange, issues, placeholder, autoFocus, className }: HighlightedTextareaProps) {
+  const backdropRef = useRef<HTMLDivElement>(null);
+  const severityByLine = new Map<number, ParseIssue["severity"]>();
+  issues.forEach((issue) => {
+    if (issue.line != null && severityByLine.get(issue.line) !== "error") {
+      severityByLine.set(issue.line, issue.severity);
+    }
+  });
+
+  const shared = "whitespace-pre-wrap break-words p-4 font-mono text-sm leading-6";
+
+  return (
+    <div className={clsx("relative overflow-hidden rounded-xl border border-white/10 bg-slate-950/60 focus-within:border-accent/50", className)}>
+      <div ref={backdropRef} aria-hidden className={clsx(shared, "pointer-events-none absolute inset-0 overflow-hidden text-transparent")}>
+        {value.split("\n").map((line, index) => {
+          const severity = severityByLine.get(index + 1);
+          return (
+            <div
+              key={index}
+              className={clsx(severity === "error" && "rounded bg-rose-500/25", severity === "warning" && "rounded bg-amber-400/20")}
+            >
+              {line || " "}
+            </div>
+          );
+        })}
+      </div>
+      <textarea
+        className={clsx(shared, "relative h-full w-full resize-none bg-transparent text-slate-200 outline-none")}
+        placeholder={placeholder}
+        value={value}
+        spellCheck={false}
+        autoFocus={autoFocus}
+        onChange={(event) => onChange(event.target.value)}
+        onScroll={(event) => {
+          if (backdropRef.current) {
+            backdropRef.current.scrollTop = event.currentTarget.scrollTop;
+          }
+        }}
+      />
+    </div>
+  );
+}
+
+/** The issue list shown under a highlighted textarea, most severe first. */
+export function ParseIssueList({ issues }: { issues: ParseIssue[] }) {
+  if (issues.length === 0) {
+    return null;
+  }
+
+  const sorted = [...issues].sort((a, b) => (a.severity === b.severity ? 0 : a.severity === "error" ? -1 : 1));
+  return (
+    <ul className="mt-2 flex max-h-32 flex-col gap-1 overflow-y-auto text-xs">
+      {sorted.map((issue, index) => (
+        <li key={index} className={issue.severity === "error" ? "text-rose-300" : "text-amber-200"}>
+          {formatParseIssue(issue)}
+        </li>
+      ))}
+    </ul>
+  );
+}
@@ -0,0 +1,184 @@
+import { useMemo, useState } from "react";
+import type { StatusThresholds } from "@shared/lib/comparison";
+import { diffInventories, type InventoryCountChange } from "@shared/lib/inventoryDiff";
+import { formatUsd, type PriceMap } from "@shared/lib/prices";
+import type { PersistedDeck } from "@shared/lib/types";
+import { StatusBadge } from "@app/components/StatusBadge";
+
+type ScrapeSlot = { label: string; data: unknown };
+
+export type InventoryDiffPanelProps = {
+  decks: PersistedDeck[];
+  thresholds: StatusThresholds;
+  /** Prices from the loaded price file; they override the new scrape's `priceUsd` for deck statuses. */
+  prices: PriceMap;
+  onError: (message: string) => void;
+};
+
+export function InventoryDiffPanel({ decks, thresholds, prices, onError }: InventoryDiffPanelProps) {
+  const [previous, setPrevious] = useState<ScrapeSlot | null>(null);
+  const [latest, setLatest] = useState<ScrapeSlot | null>(null);
+
+  const result = useMemo(() => {
+    if (!previous || !latest) {
+      return { data: null, error: null };
+    }
+    try {
+      const data = diffInventories(previous.data, latest.data, { decks: decks.length ? decks : undefined, thresholds, prices });
+      return { data, error: null };
+    } catch (error) {
+      return { data: null, error: error instanceof Error ? error.message : String(error) };
+    }
+  }, [previous, latest, decks, thresholds, prices]);
+  const diff = result.data;
+
+  function handleFile(setSlot: (slot: ScrapeSlot) => void) {
+    return (event: React.ChangeEvent<HTMLInputElement>) => {
+      const file = event.target.files?.[0];
+      event.target.value = "";
+      if (!file) {
+        return;
+      }
+      file
+        .text()
+        .then((text) => setSlot({ label: file.name, data: JSON.parse(text) }))
+        .catch((error) => onError(error instanceof Error ? error.message : String(error)));
+    };
+  }
+
+  async function loadSampleScrapes() {
+    try {
+      const [before, after] = await Promise.all(
+        ["/sample-scrape-previous.json", "/sample-scrape-latest.json"].map(async (url) => {
+          const response = await fetch(url);
+          if (!response.ok) {
+            throw new Error("Unable to load sample scrapes");
+          }
+          return response.json();
+        })
+      );
+      setPrevious({ label: "Sample scrape (previous)", data: before });
+      setLatest({ label: "Sample scrape (latest)", data: after });
+    } catch (error) {
+      onError(error instanceof Error ? error.message : String(error));
+    }
+  }
+
+  return (
+    <section className="rounded-3xl border border-white/5 bg-slate-950/60 p-6 shadow-2xl">
+      <div className="flex flex-wrap items-center justify-between gap-3">
+        <div>
+          <p className="text-sm uppercase tracking-[0.3em] text-slate-400">Inventory diff</p>
+          <h3 className="text-2xl font-semibold text-white">
+            {diff ? `${diff.copiesBefore} → ${diff.copiesAfter} copies` : "Compare two inventory scrapes"}
+          </h3>
+          <p className="text-sm text-slate-400">
+            {previous?.label ?? "No old scrape"} → {latest?.label ?? "no new scrape"}
+          </p>
+        </div>
+        <div className="flex flex-wrap gap-2">
+          <label className="inline-flex cursor-pointer items-center gap-2 rounded-full border border-white/20 px-4 py-1.5 text-xs font-semibold uppercase tracking-wide text-white/80 transition hover:border-white/40">
+            Old scrape
+            <input type="file" accept="application/json" className="hidden" onChange={handleFile(setPrevious)} />
+          </label>
+          <label className="inline-flex cursor-pointer items-center gap-2 rounded-full border border-white/20 px-4 py-1.5 text-xs font-semibold uppercase tracking-wide text-white/80 transition hover:border-white/40">
+            New scrape
+            <input type="file" accept="application/json" className="hidden" onChange={handleFile(setLatest)} />
+          </label>
+          <button
+            type="button"
+            className="rounded-full border border-white/20 px-4 py-1.5 text-xs font-semibold uppercase tracking-wide text-white/80 transition hover:border-white/40"
+            onClick={loadSampleScrapes}
+          >
+            Sample scrapes
+          </button>
+        </div>
+      </div>
+
+      {result.error ? (
+        <p className="mt-4 rounded-2xl border border-rose-500/40 bg-rose-500/10 px-4 py-3 text-sm text-rose-100">{result.error}</p>
+      ) : !diff ? (
+        <p className="mt-4 text-center text-slate-400">
+          Upload two <code>npm run inventory</code> results to check that trades and pack openings were recorded.
+        </p>
+      ) : (
+        <>
+          <div className="mt-4 grid gap-4 md:grid-cols-3">
+            <Stat label="Copies" value={formatSigned(diff.copiesAfter - diff.copiesBefore)} />
+            <Stat label="Value" value={`${formatUsd(diff.valueBeforeUsd)} → ${formatUsd(diff.valueAfterUsd)}`} />
+            <Stat label="Value change" value={formatSignedUsd(diff.valueChangeUsd)} />
+          </div>
+
+          <div className="mt-6 grid gap-6 lg:grid-cols-3">
+            <ChangeList title="Gained" changes={diff.gained} />
+            <ChangeList title="Lost" changes={diff.lost} />
+            <ChangeList title="Count changes" changes={diff.changed} />
+          </div>
+
+          <div className="mt-6 rounded-2xl border border-white/10 bg-slate-900/50 p-4 text-sm text-white/80">
+            <p className="text-[11px] uppercase tracking-[0.3em] text-slate-500">Deck status changes</p>
+            {decks.length === 0 ? (
+              <p className="mt-2 text-slate-400">Load a deck snapshot to see which decks changed status.</p>
+            ) : diff.deckChanges.length === 0 ? (
+              <p className="mt-2 text-slate-400">No deck changed status across {decks.length} decks.</p>
+            ) : (
+              <ul className="mt-2 flex flex-col gap-2">
+                {diff.deckChanges.map((change) => (
+                  <li key={change.slug} className="flex flex-wrap items-center justify-between gap-3">
+                    <span>{change.label}</span>
+                    <span className="flex items-center gap-2 text-xs text-slate-400">
+                      <StatusBadge status={change.before} />→<StatusBadge status={change.after} />
+                      missing {change.missingBefore} → {change.missingAfter}
+                    </span>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </div>
+        </>
+      )}
+    </section>
+  );
+}
+
+function Stat({ label, value }: { label: string; value: string }) {
+  return (
+    <div className="rounded-2xl border border-white/10 bg-slate-900/50 p-4">
+      <p className="text-[11px] uppercase tracking-[0.3em] text-slate-500">{label}</p>
+      <p className="mt-1 text-xl font-semibold text-white">{value}</p>
+    </div>
+  );
+}
+
+function ChangeList({ title, changes }: { title: string; changes: InventoryCountChange[] }) {
+  return (
+    <div className="rounded-2xl border border-white/10 bg-slate-900/50 p-4 text-sm text-white/80">
+      <p className="text-[11px] uppercase tracking-[0.3em] text-slate-500">
+        {title} ({changes.length})
+      </p>
+      {changes.length === 0 ? (
+        <p className="mt-2 text-slate-400">None.</p>
+      ) : (
+        <ul className="mt-2 flex max-h-[20rem] flex-col gap-1 overflow-y-auto pr-1">
+          {changes.map((entry) => (
+            <li key={entry.name} className="flex items-center justify-between gap-3">
+              <span>{entry.name}</span>
+              <span className="shrink-0 text-xs text-slate-400">
+                {entry.before} → {entry.after}
+                {entry.valueChangeUsd != null ? ` · ${formatSignedUsd(entry.valueChangeUsd)}` : ""}
+              </span>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
+
+function formatSigned(value: number): string {
+  return `${value > 0 ? "+" : ""}${value}`;
+}
+
+function formatSignedUsd(value: number): string {
+  return `${value < 0 ? "-" : "+"}${formatUsd(Math.abs(value))}`;
+}
@@ -0,0 +1,20 @@
+import type { DeckValidation } from "@shared/lib/validateDeck";
+import clsx from "clsx";
+
+export function LegalityBadge({ validation }: { validation: DeckValidation }) {
+  const label = validation.legal ? "legal" : `${validation.violations.length} rule issue${validation.violations.length === 1 ? "" : "s"}`;
+
+  return (
+    <span
+      className={clsx(
+        "inline-flex items-center gap-1 rounded-full border px-3 py-1 text-xs font-semibold uppercase tracking-wide",
+        validation.legal
+          ? "border-sky-400/60 bg-sky-400/10 text-sky-200"
+          : "border-rose-400/60 bg-rose-400/10 text-rose-200"
+      )}
+      title={validation.violations.map((violation) => violation.message).join("\n") || undefined}
+    >
+      {label}
+    </span>
+  );
+}
@@ -0,0 +1,132 @@
+import { useMemo, useState } from "react";
+import { buildMetaReport, type MetaEntry } from "@shared/lib/meta";
+import type { PersistedDeck } from "@shared/lib/types";
+
+export type MetaPanelProps = {
+  decks: PersistedDeck[];
+  decksLabel: string;
+};
+
+const topOptions = [10, 25, 50];
+
+export function MetaPanel({ decks, decksLabel }: MetaPanelProps) {
+  const [top, setTop] = useState(10);
+  const report = useMemo(() => {
+    try {
+      return { data: buildMetaReport(decks), error: null };
+    } catch (error) {
+      return { data: null, error: error instanceof Error ? error.message : String(error) };
+    }
+  }, [decks]);
+
+  if (decks.length === 0) {
+    return (
+      <section className="rounded-3xl border border-white/5 bg-slate-950/60 p-6 text-center text-slate-400 shadow-2xl">
+        Load a deck snapshot to see which cards, legends and domains the scraped decks favour.
+      </section>
+    );
+  }
+
+  if (!report.data) {
+    return (
+      <section className="rounded-3xl border border-rose-500/40 bg-rose-500/10 p-6 text-sm text-rose-100 shadow-2xl">
+        {report.error}
+      </section>
+    );
+  }
+
+  const meta = report.data;
+
+  return (
+    <section className="rounded-3xl border border-white/5 bg-slate-950/60 p-6 shadow-2xl">
+      <div className="flex flex-wrap items-center justify-between gap-3">
+        <div>
+          <p className="text-sm uppercase tracking-[0.3em] text-slate-400">Meta snapshot</p>
+          <h3 className="text-2xl font-semibold text-white">{meta.deckCount} decks</h3>
+          <p className="text-sm text-slate-400">{decksLabel}</p>
+        </div>
+        <label className="flex items-center gap-2 rounded-full border border-white/10 bg-slate-950/40 px-3 py-2 text-sm text-white/70">
+          <span>Show top</span>
+          <select
+            value={top}
+            onChange={(e) => setTop(Number(e.target.value))}
+            className="bg-transparent text-white focus:outline-none"
+          >
+            {topOptions.map((option) => (
+              <option key={option} value={option} className="bg-slate-900 text-white">
+                {option}
+              </option>
+            ))}
+          </select>
+        </label>
+      </div>
+
+      <div className="mt-6 grid gap-6 lg:grid-cols-[minmax(0,1.4fr)_minmax(0,1fr)]">
+        <div className="max-h-[40rem] overflow-y-auto rounded-2xl border border-white/10 bg-slate-900/50">
+          <table className="w-full text-left text-sm text-white/80">
+            <thead className="sticky top-0 bg-slate-900 text-[11px] uppercase tracking-[0.2em] text-slate-500">
+              <tr>
+                <th className="px-4 py-2">Most played cards</th>
+                <th className="px-2 py-2 text-right">Decks</th>
+                <th className="px-2 py-2 text-right">Share</th>
+                <th className="px-4 py-2 text-right">Avg copies</th>
+              </tr>
+            </thead>
+            <tbody>
+              {meta.cards.slice(0, top).map((card) => (
+                <tr key={card.name} className="border-t border-white/5">
+                  <td className="px-4 py-2">{card.name}</td>
+                  <td className="px-2 py-2 text-right">{card.decks}</td>
+                  <td className="px-2 py-2 text-right text-slate-400">{formatShare(card.share)}</td>
+                  <td className="px-4 py-2 text-right">{card.averageCopies.toFixed(2)}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+
+        <div className="flex flex-col gap-4">
+          <ShareList title="Legends" entries={meta.legends.slice(0, top)} />
+          <ShareList title="Chosen champions" entries={meta.champions.slice(0, top)} />
+          <ShareList title="Domain pairs" entries={meta.domainPairs.slice(0, top)} />
+        </div>
+      </div>
+
+      <div className="mt-6 grid gap-6 md:grid-cols-2">
+        <ShareList title="Battlefields" entries={meta.battlefields.slice(0, top)} />
+        <ShareList title="Rune splits" entries={meta.runeSplits.slice(0, top)} />
+      </div>
+    </section>
+  );
+}
+
+function ShareList({ title, entries }: { title: string; entries: MetaEntry[] }) {
+  return (
+    <div className="rounded-2xl border border-white/10 bg-slate-900/50 p-4 text-sm text-white/80">
+      <p className="text-[11px] uppercase tracking-[0.3em] text-slate-500">{title}</p>
+      {entries.length === 0 ? (
+        <p className="mt-2 text-slate-400">None detected.</p>
+      ) : (
+        <ul className="mt-2 flex flex-col gap-2">
+          {entries.map((entry) => (
+            <li key={entry.name}>
+              <div className="flex items-center justify-between gap-3">
+                <span>{entry.name}</span>
+                <span className="text-xs text-slate-400">
+                  {entry.decks} · {formatShare(entry.share)}
+                </span>
+              </div>
+              <div className="mt-1 h-1.5 rounded-full bg-white/5">
+                <div className="h-full rounded-full bg-accent/60" style={{ width: `${entry.share * 100}%` }} />
+              </div>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
+
+function formatShare(share: number): string {
+  return `${(share * 100).toFixed(1)}%`;
+}
@@ -0,0 +1,132 @@
+import { useMemo, useState } from "react";
+import clsx from "clsx";
+import type { DeckComparison, Inventory, StatusThresholds } from "@shared/lib/comparison";
+import { formatUsd, type PriceMap } from "@shared/lib/prices";
+import { planPurchases, recommendPurchases, type PurchaseRecommendation } from "@shared/lib/recommendations";
+
+type RecommendationMode = "plan" | "ranked";
+
+const modes: Array<{ label: string; value: RecommendationMode }> = [
+  { label: "Best buys", value: "plan" },
+  { label: "Ranked", value: "ranked" }
+];
+
+const budgetOptions = [3, 5, 10, 20];
+
+export type RecommendationsPanelProps = {
+  comparisons: DeckComparison[];
+  inventory: Inventory;
+  thresholds: StatusThresholds;
+  /** Only passed when prices are loaded, matching the comparison. */
+  prices?: PriceMap;
+};
+
+export function RecommendationsPanel({ comparisons, inventory, thresholds, prices }: RecommendationsPanelProps) {
+  const [mode, setMode] = useState<RecommendationMode>("plan");
+  const [budget, setBudget] = useState(5);
+
+  const decks = useMemo(() => comparisons.map((entry) => entry.deck), [comparisons]);
+  const labels = useMemo(() => new Map(comparisons.map((entry) => [entry.deck.slug, entry.deck.label])), [comparisons]);
+  const ranked = useMemo(
+    () => (mode === "ranked" ? recommendPurchases(decks, inventory, { thresholds, prices }).slice(0, 10) : []),
+    [mode, decks, inventory, thresholds, prices]
+  );
+  const plan = useMemo(
+    () => (mode === "plan" ? planPurchases(decks, inventory, budget, { thresholds, prices }) : null),
+    [mode, decks, inventory, budget, thresholds, prices]
+  );
+  const entries = plan ? plan.steps : ranked;
+
+  return (
+    <div className="rounded-2xl border border-white/10 bg-slate-900/60 p-4">
+      <div className="flex items-center justify-between text-xs uppercase tracking-[0.3em] text-slate-400">
+        <span>What to buy next</span>
+        {plan ? <span>{plan.unlocked.length} unlocked</span> : null}
+      </div>
+      <div className="mt-3 flex flex-wrap items-center gap-2">
+        {modes.map((option) => (
+          <button
+            key={option.value}
+            type="button"
+            className={clsx(
+              "rounded-full border px-3 py-1 text-xs font-semibold uppercase tracking-wide",
+              mode === option.value
+                ? "border-accent/60 bg-accent/10 text-accent"
+                : "border-white/10 text-white/70 hover:border-white/30"
+            )}
+            onClick={() => setMode(option.value)}
+          >
+            {option.label}
+          </button>
+        ))}
+        {mode === "plan" ? (
+          <label className="flex items-center gap-2 rounded-full border border-white/10 bg-slate-950/40 px-3 py-1 text-xs text-white/70">
+            <span>Copies</span>
+            <select
+              value={budget}
+              onChange={(e) => setBudget(Number(e.target.value))}
+              className="bg-transparent text-white focus:outline-none"
+            >
+              {budgetOptions.map((option) => (
+                <option key={option} value={option} className="bg-slate-900 text-white">
+                  {option}
+                </option>
+              ))}
+            </select>
+          </label>
+        ) : null}
+      </div>
+
+      {entries.length === 0 ? (
+        <p className="mt-3 text-sm text-slate-400">
+          {mode === "plan" ? `No purchase of up to ${budget} copies unlocks or promotes a deck.` : "Every deck is buildable."}
+        </p>
+      ) : (
+        <ol className="mt-3 flex max-h-[20rem] flex-col gap-2 overflow-y-auto pr-1 text-sm">
+          {entries.map((entry, index) => (
+            <RecommendationItem key={index} index={index} entry={entry} labels={labels} />
+          ))}
+        </ol>
+      )}
+
+      {plan && plan.steps.length > 0 ? (
+        <p className="mt-3 text-xs text-slate-400">
+          {plan.copies} copies · {formatUsd(plan.costUsd)}
+          {plan.unpricedCopies ? ` + ${plan.unpricedCopies} unpriced` : ""}
+        </p>
+      ) : null}
+    </div>
+  );
+}
+
+function RecommendationItem({
+  index,
+  entry,
+  labels
+}: {
+  index: number;
+  entry: PurchaseRecommendation;
+  labels: Map<string, string>;
+}) {
+  return (
+    <li className="rounded-xl border border-white/10 bg-slate-950/40 px-3 py-2">
+      <div className="flex items-start justify-between gap-3">
+        <span className="text-white">
+          <span className="mr-2 text-xs text-slate-500">{index + 1}.</span>
+          {entry.cards.map((card) => `${card.quantity}× ${card.name}`).join(", ")}
+        </span>
+        <span className="shrink-0 text-xs text-slate-400">
+          {formatUsd(entry.costUsd)}
+          {entry.unpricedCopies ? "+" : ""}
+        </span>
+      </div>
+      <p className="mt-1 text-xs text-slate-400">
+        {entry.unlocked.length ? (
+          <span className="text-emerald-200">Unlocks {entry.unlocked.map((slug) => labels.get(slug) ?? slug).join(", ")} · </span>
+        ) : null}
+        {entry.promoted.length ? <span className="text-amber-200">{entry.promoted.length} within reach · </span> : null}
+        helps {entry.helped} deck(s)
+      </p>
+    </li>
+  );
+}
@@ -0,0 +1,155 @@
+import { useMemo, useState } from "react";
+import clsx from "clsx";
+import type { DeckComparison } from "@shared/lib/comparison";
+import { formatUsd, type PriceMap } from "@shared/lib/prices";
+import { buildShoppingList, formatShoppingList, type ShoppingListFormat } from "@shared/lib/shoppingList";
+
+const formats: Array<{ label: string; value: ShoppingListFormat }> = [
+  { label: "Text", value: "text" },
+  { label: "CSV", value: "csv" },
+  { label: "JSON", value: "json" }
+];
+
+const formatMimeTypes: Record<ShoppingListFormat, string> = {
+  text: "text/plain",
+  csv: "text/csv",
+  json: "application/json"
+};
+
+export type ShoppingListPanelProps = {
+  /** Decks whose missing cards are merged; the planner selection, or every incomplete deck. */
+  comparisons: DeckComparison[];
+  prices: PriceMap;
+  pricesLabel: string;
+  onPriceFileChange: (event: React.ChangeEvent<HTMLInputElement>) => void;
+  onSamplePrices: () => void;
+};
+
+export function ShoppingListPanel({ comparisons, prices, pricesLabel, onPriceFileChange, onSamplePrices }: ShoppingListPanelProps) {
+  const [format, setFormat] = useState<ShoppingListFormat>("text");
+  const [copied, setCopied] = useState(false);
+
+  const incomplete = useMemo(() => comparisons.filter((entry) => entry.totalMissing > 0), [comparisons]);
+  const list = useMemo(() => buildShoppingList(incomplete, prices), [incomplete, prices]);
+  const exportText = useMemo(() => formatShoppingList(list, format), [list, format]);
+
+  async function handleCopy() {
+    try {
+      await navigator.clipboard.writeText(exportText);
+      setCopied(true);
+      setTimeout(() => setCopied(false), 1500);
+    } catch (error) {
+      setCopied(false);
+    }
+  }
+
+  function handleDownload() {
+    const url = URL.createObjectURL(new Blob([exportText], { type: formatMimeTypes[format] }));
+    const link = document.createElement("a");
+    link.href = url;
+    link.download = `shopping-list.${format === "text" ? "txt" : format}`;
+    link.click();
+    URL.revokeObjectURL(url);
+  }
+
+  return (
+    <section className="rounded-3xl border border-white/5 bg-slate-950/60 p-6 shadow-2xl">
+      <div className="flex flex-wrap items-center justify-between gap-3">
+        <div>
+          <p className="text-sm uppercase tracking-[0.3em] text-slate-400">Shopping list</p>
+          <h3 className="text-2xl font-semibold text-white">
+            {list.totalCopies} copies · {formatUsd(list.totalUsd)}
+          </h3>
+          <p className="text-sm text-slate-400">
+            {incomplete.length} deck(s) with gaps · {pricesLabel}
+            {list.unpricedCards ? ` · ${list.unpricedCards} card(s) without a price` : ""}
+          </p>
+        </div>
+        <div className="flex flex-wrap gap-2">
+          <label className="inline-flex cursor-pointer items-center gap-2 rounded-full border border-white/20 px-4 py-1.5 text-xs font-semibold uppercase tracking-wide text-white/80 transition hover:border-white/40">
+            Price file
+            <input type="file" accept="application/json" className="hidden" onChange={onPriceFileChange} />
+          </label>
+          <button
+            type="button"
+            className="rounded-full border border-white/20 px-4 py-1.5 text-xs font-semibold uppercase tracking-wide text-white/80 transition hover:border-white/40"
+            onClick={onSamplePrices}
+          >
+            Sample prices
+          </button>
+        </div>
+      </div>
+
+      {list.entries.length === 0 ? (
+        <p className="mt-4 rounded-2xl border border-emerald-500/40 bg-emerald-500/10 px-4 py-3 text-sm text-emerald-100">
+          Nothing to buy for the selected decks.
+        </p>
+      ) : (
+        <div className="mt-4 grid gap-6 lg:grid-cols-[minmax(0,1.4fr)_minmax(0,1fr)]">
+          <div className="max-h-[28rem] overflow-y-auto rounded-2xl border border-white/10 bg-slate-900/50">
+            <table className="w-full text-left text-sm text-white/80">
+              <thead className="sticky top-0 bg-slate-900 text-[11px] uppercase tracking-[0.2em] text-slate-500">
+                <tr>
+                  <th className="px-4 py-2">Card</th>
+                  <th className="px-2 py-2 text-right">Qty</th>
+                  <th className="px-2 py-2 text-right">Each</th>
+                  <th className="px-2 py-2 text-right">Total</th>
+                  <th className="px-4 py-2 text-right">Decks</th>
+                </tr>
+              </thead>
+              <tbody>
+                {list.entries.map((entry) => (
+                  <tr key={entry.name} className="border-t border-white/5">
+                    <td className="px-4 py-2">{entry.name}</td>
+                    <td className="px-2 py-2 text-right">{entry.quantity}</td>
+                    <td className="px-2 py-2 text-right text-slate-400">{formatUsd(entry.unitPriceUsd)}</td>
+                    <td className="px-2 py-2 text-right">{formatUsd(entry.totalUsd)}</td>
+                    <td className="px-4 py-2 text-right text-slate-400">{entry.decks.length}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+          <div className="flex flex-col gap-3">
+            <div className="flex gap-2">
+              {formats.map((option) => (
+                <button
+                  key={option.value}
+                  type="button"
+                  className={clsx(
+                    "rounded-full border px-4 py-1.5 text-xs font-semibold uppercase tracking-wide",
+                    format === option.value
+                      ? "border-accent/60 bg-accent/10 text-accent"
+                      : "border-white/10 text-white/70 hover:border-white/30"
+                  )}
+                  onClick={() => setFormat(option.value)}
+                >
+                  {option.label}
+                </button>
+              ))}
+            </div>
+            <pre className="max-h-[20rem] overflow-auto whitespace-pre-wrap rounded-2xl border border-white/10 bg-slate-950/60 p-4 text-xs text-slate-100">
+              {exportText}
+            </pre>
+            <div className="flex justify-end gap-2">
+              <button
+                type="button"
+                className="rounded-full border border-white/20 px-5 py-2 text-sm font-semibold text-white/80 transition hover:border-white/40"
+                onClick={handleDownload}
+              >
+                Download
+              </button>
+              <button
+                type="button"
+                className={clsx("rounded-full px-5 py-2 text-sm font-semibold text-slate-900", copied ? "bg-emerald-400" : "bg-accent")}
+                onClick={handleCopy}
+              >
+                {copied ? "Copied" : "Copy to clipboard"}
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+    </section>
+  );
+}
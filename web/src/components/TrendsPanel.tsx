@@ -0,0 +1,267 @@
+import { useMemo, useState } from "react";
+import clsx from "clsx";
+import {
+  buildMetaTrends,
+  readSnapshots,
+  selectSnapshotSource,
+  DEFAULT_TREND_THRESHOLD,
+  type MetaSnapshot,
+  type TrendSeries
+} from "@shared/lib/metaTrends";
+import type { DeckSource } from "@shared/lib/types";
+
+type ChartGroup = "legends" | "movers";
+
+const chartGroups: Array<{ label: string; value: ChartGroup }> = [
+  { label: "Legend shares", value: "legends" },
+  { label: "Rising & falling cards", value: "movers" }
+];
+
+const windowOptions = [2, 4, 8, 12];
+const seriesColors = ["#38bdf8", "#f472b6", "#facc15", "#34d399", "#a78bfa", "#fb923c", "#f87171", "#2dd4bf"];
+
+export type TrendsPanelProps = {
+  onError: (message: string) => void;
+};
+
+export function TrendsPanel({ onError }: TrendsPanelProps) {
+  const [snapshots, setSnapshots] = useState<MetaSnapshot[]>([]);
+  const [snapshotsLabel, setSnapshotsLabel] = useState("No snapshots loaded yet");
+  const [windowSize, setWindowSize] = useState(4);
+  const [threshold, setThreshold] = useState(DEFAULT_TREND_THRESHOLD * 100);
+  const [group, setGroup] = useState<ChartGroup>("legends");
+  // Unset means the newest snapshot's source, as in the trends CLI.
+  const [source, setSource] = useState<DeckSource | undefined>(undefined);
+
+  const sources = useMemo(
+    () => Array.from(new Set(snapshots.flatMap((snapshot) => (snapshot.source ? [snapshot.source] : [])))).sort(),
+    [snapshots]
+  );
+  const selection = useMemo(() => selectSnapshotSource(snapshots, source), [snapshots, source]);
+  const recent = useMemo(() => selection.snapshots.slice(-windowSize), [selection, windowSize]);
+  const trends = useMemo(() => (recent.length ? buildMetaTrends(recent, threshold / 100) : null), [recent, threshold]);
+  const chartSeries = useMemo(() => {
+    if (!trends) {
+      return [];
+    }
+    const series = group === "legends" ? trends.legends : [...trends.rising.slice(0, 4), ...trends.falling.slice(0, 4)];
+    return series.slice(0, seriesColors.length);
+  }, [trends, group]);
+
+  async function handleFiles(event: React.ChangeEvent<HTMLInputElement>) {
+    const files = Array.from(event.target.files ?? []);
+    event.target.value = "";
+    if (files.length === 0) {
+      return;
+    }
+    try {
+      const loaded = await Promise.all(files.map(async (file) => readSnapshots(JSON.parse(await file.text()), file.name)));
+      setSnapshots(loaded.flat());
+      setSource(undefined);
+      setSnapshotsLabel(files.length === 1 ? files[0].name : `${files.length} files`);
+    } catch (error) {
+      onError(error instanceof Error ? error.message : String(error));
+    }
+  }
+
+  async function loadSampleSnapshots() {
+    try {
+      const response = await fetch("/sample-snapshots.json");
+      if (!response.ok) {
+        throw new Error("Unable to load sample snapshots");
+      }
+      setSnapshots(readSnapshots(await response.json(), "Sample snapshots"));
+      setSource(undefined);
+      setSnapshotsLabel("Sample snapshots");
+    } catch (error) {
+      onError(error instanceof Error ? error.message : String(error));
+    }
+  }
+
+  return (
+    <section className="rounded-3xl border border-white/5 bg-slate-950/60 p-6 shadow-2xl">
+      <div className="flex flex-wrap items-center justify-between gap-3">
+        <div>
+          <p className="text-sm uppercase tracking-[0.3em] text-slate-400">Meta trends</p>
+          <h3 className="text-2xl font-semibold text-white">
+            {trends ? `${trends.snapshots.length} of ${selection.snapshots.length} snapshots` : "Week-over-week play rates"}
+          </h3>
+          <p className="text-sm text-slate-400">{snapshotsLabel}</p>
+        </div>
+        <div className="flex flex-wrap gap-2">
+          <label className="inline-flex cursor-pointer items-center gap-2 rounded-full border border-white/20 px-4 py-1.5 text-xs font-semibold uppercase tracking-wide text-white/80 transition hover:border-white/40">
+            Snapshot files
+            <input type="file" accept="application/json" multiple className="hidden" onChange={handleFiles} />
+          </label>
+          <button
+            type="button"
+            className="rounded-full border border-white/20 px-4 py-1.5 text-xs font-semibold uppercase tracking-wide text-white/80 transition hover:border-white/40"
+            onClick={loadSampleSnapshots}
+          >
+            Sample snapshots
+          </button>
+        </div>
+      </div>
+
+      {!trends ? (
+        <p className="mt-4 text-center text-slate-400">
+          Upload the files from <code>data/snapshots/</code>; every live scrape writes one.
+        </p>
+      ) : (
+        <>
+          <div className="mt-4 flex flex-wrap items-center gap-3">
+            {chartGroups.map((option) => (
+              <button
+                key={option.value}
+                type="button"
+                className={clsx(
+                  "rounded-full border px-4 py-1.5 text-xs font-semibold uppercase tracking-wide",
+                  group === option.value
+                    ? "border-accent/60 bg-accent/10 text-accent"
+                    : "border-white/10 text-white/70 hover:border-white/30"
+                )}
+                onClick={() => setGroup(option.value)}
+              >
+                {option.label}
+              </button>
+            ))}
+            {sources.length > 0 && (
+              <label className="flex items-center gap-2 rounded-full border border-white/10 bg-slate-950/40 px-3 py-1.5 text-sm text-white/70">
+                <span>Source</span>
+                <select
+                  value={selection.source ?? ""}
+                  onChange={(e) => setSource(e.target.value as DeckSource)}
+                  className="bg-transparent text-white focus:outline-none"
+                >
+                  {!selection.source && (
+                    <option value="" className="bg-slate-900 text-white">
+                      unrecorded
+                    </option>
+                  )}
+                  {sources.map((option) => (
+                    <option key={option} value={option} className="bg-slate-900 text-white">
+                      {option}
+                    </option>
+                  ))}
+                </select>
+              </label>
+            )}
+            <label className="flex items-center gap-2 rounded-full border border-white/10 bg-slate-950/40 px-3 py-1.5 text-sm text-white/70">
+              <span>Last</span>
+              <select
+                value={windowSize}
+                onChange={(e) => setWindowSize(Number(e.target.value))}
+                className="bg-transparent text-white focus:outline-none"
+              >
+                {windowOptions.map((option) => (
+                  <option key={option} value={option} className="bg-slate-900 text-white">
+                    {option}
+                  </option>
+                ))}
+              </select>
+            </label>
+            <label className="flex items-center gap-2 rounded-full border border-white/10 bg-slate-950/40 px-3 py-1.5 text-sm text-white/70">
+              <span>Flag moves ≥ {threshold} pts</span>
+              <input type="range" min={1} max={50} value={threshold} onChange={(e) => setThreshold(Number(e.target.value))} />
+            </label>
+          </div>
+
+          <div className="mt-4 grid gap-6 lg:grid-cols-[minmax(0,1.6fr)_minmax(0,1fr)]">
+            <div className="rounded-2xl border border-white/10 bg-slate-900/50 p-4">
+              <TrendChart labels={trends.snapshots.map((entry) => entry.takenAt.slice(0, 10))} series={chartSeries} />
+            </div>
+            <div className="flex flex-col gap-4 text-sm text-white/80">
+              <MoverList title="Rising" series={trends.rising} tone="text-emerald-200" />
+              <MoverList title="Falling" series={trends.falling} tone="text-rose-200" />
+              <div className="rounded-2xl border border-white/10 bg-slate-900/50 p-4">
+                <p className="text-[11px] uppercase tracking-[0.3em] text-slate-500">New legends</p>
+                <p className="mt-2">{trends.newLegends.length ? trends.newLegends.join(" · ") : "None in the latest snapshot."}</p>
+              </div>
+            </div>
+          </div>
+        </>
+      )}
+    </section>
+  );
+}
+
+function MoverList({ title, series, tone }: { title: string; series: TrendSeries[]; tone: string }) {
+  return (
+    <div className="rounded-2xl border border-white/10 bg-slate-900/50 p-4">
+      <p className="text-[11px] uppercase tracking-[0.3em] text-slate-500">{title}</p>
+      {series.length === 0 ? (
+        <p className="mt-2 text-slate-400">Nothing past the threshold.</p>
+      ) : (
+        <ul className="mt-2 flex max-h-[12rem] flex-col gap-1 overflow-y-auto pr-1">
+          {series.map((entry) => (
+            <li key={entry.name} className="flex items-center justify-between gap-3">
+              <span>{entry.name}</span>
+              <span className={clsx("text-xs", tone)}>
+                {entry.change > 0 ? "+" : ""}
+                {(entry.change * 100).toFixed(1)} pts
+              </span>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
+
+/** Minimal SVG line chart of deck share (0–100%) per snapshot. */
+function TrendChart({ labels, series }: { labels: string[]; series: TrendSeries[] }) {
+  const width = 640;
+  const height = 260;
+  const padding = { top: 12, right: 16, bottom: 28, left: 40 };
+  const plotWidth = width - padding.left - padding.right;
+  const plotHeight = height - padding.top - padding.bottom;
+  const x = (index: number) => padding.left + (labels.length > 1 ? (index / (labels.length - 1)) * plotWidth : plotWidth / 2);
+  const y = (share: number) => padding.top + (1 - share) * plotHeight;
+
+  if (series.length === 0) {
+    return <p className="py-16 text-center text-slate-400">No series to plot for this selection.</p>;
+  }
+
+  return (
+    <div>
+      <svg viewBox={`0 0 ${width} ${height}`} className="w-full" role="img" aria-label="Deck share per snapshot">
+        {[0, 0.25, 0.5, 0.75, 1].map((tick) => (
+          <g key={tick}>
+            <line x1={padding.left} x2={width - padding.right} y1={y(tick)} y2={y(tick)} stroke="rgba(255,255,255,0.08)" />
+            <text x={padding.left - 6} y={y(tick) + 4} textAnchor="end" fontSize="10" fill="#64748b">
+              {tick * 100}%
+            </text>
+          </g>
+        ))}
+        {labels.map((label, index) => (
+          <text key={label + index} x={x(index)} y={height - 8} textAnchor="middle" fontSize="10" fill="#64748b">
+            {label}
+          </text>
+        ))}
+        {series.map((entry, seriesIndex) => (
+          <g key={entry.name}>
+            <polyline
+              fill="none"
+              stroke={seriesColors[seriesIndex]}
+              strokeWidth={2}
+              points={entry.shares.map((share, index) => `${x(index)},${y(share)}`).join(" ")}
+            />
+            {entry.shares.map((share, index) => (
+              <circle key={index} cx={x(index)} cy={y(share)} r={3} fill={seriesColors[seriesIndex]}>
+                <title>{`${entry.name}: ${(share * 100).toFixed(1)}%`}</title>
+              </circle>
+            ))}
+          </g>
+        ))}
+      </svg>
+      <ul className="mt-3 flex flex-wrap gap-x-4 gap-y-1 text-xs text-white/70">
+        {series.map((entry, index) => (
+          <li key={entry.name} className="flex items-center gap-2">
+            <span className="h-2 w-2 rounded-full" style={{ backgroundColor: seriesColors[index] }} />
+            {entry.name}
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+}
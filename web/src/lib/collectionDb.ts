@@ -0,0 +1,54 @@
+import type { CollectionTransaction } from "@shared/lib/collection";
+
+const DB_NAME = "riftbuilder";
+const DB_VERSION = 1;
+const STORE = "transactions";
+
+function openDb(): Promise<IDBDatabase> {
+  return new Promise((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    request.onupgradeneeded = () => {
+      if (!request.result.objectStoreNames.contains(STORE)) {
+        request.result.createObjectStore(STORE, { keyPath: "id" });
+      }
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+function runTransaction<T>(mode: IDBTransactionMode, run: (store: IDBObjectStore) => IDBRequest<T> | void): Promise<T | undefined> {
+  return openDb().then(
+    (db) =>
+      new Promise((resolve, reject) => {
+        const transaction = db.transaction(STORE, mode);
+        const request = run(transaction.objectStore(STORE));
+        transaction.oncomplete = () => {
+          db.close();
+          resolve(request ? request.result : undefined);
+        };
+        transaction.onerror = () => {
+          db.close();
+          reject(transaction.error);
+        };
+      })
+  );
+}
+
+/** Every stored transaction, oldest first. */
+export async function loadCollectionTransactions(): Promise<CollectionTransaction[]> {
+  const rows = (await runTransaction<CollectionTransaction[]>("readonly", (store) => store.getAll())) ?? [];
+  return rows.sort((a, b) => a.at.localeCompare(b.at));
+}
+
+export async function saveCollectionTransaction(transaction: CollectionTransaction): Promise<void> {
+  await runTransaction("readwrite", (store) => {
+    store.put(transaction);
+  });
+}
+
+export async function clearCollectionTransactions(): Promise<void> {
+  await runTransaction("readwrite", (store) => {
+    store.clear();
+  });
+}
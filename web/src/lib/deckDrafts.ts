@@ -0,0 +1,35 @@
+import type { DeckExport } from "@shared/lib/deckParser";
+
+export type DeckDraft = {
+  id: string;
+  name: string;
+  parsed: DeckExport;
+  /** ISO timestamp of the last save. */
+  updatedAt: string;
+};
+
+const STORAGE_KEY = "riftbuilder.deckDrafts";
+
+/** Saved deck builder drafts, most recently saved first. Unreadable storage counts as empty. */
+export function loadDeckDrafts(): DeckDraft[] {
+  try {
+    const stored = JSON.parse(localStorage.getItem(STORAGE_KEY) ?? "[]");
+    return Array.isArray(stored) ? (stored as DeckDraft[]).sort((a, b) => b.updatedAt.localeCompare(a.updatedAt)) : [];
+  } catch {
+    return [];
+  }
+}
+
+/** Inserts or replaces the draft with the same id and returns the updated list. */
+export function saveDeckDraft(draft: DeckDraft): DeckDraft[] {
+  return writeDeckDrafts([draft, ...loadDeckDrafts().filter((entry) => entry.id !== draft.id)]);
+}
+
+export function deleteDeckDraft(id: string): DeckDraft[] {
+  return writeDeckDrafts(loadDeckDrafts().filter((entry) => entry.id !== id));
+}
+
+function writeDeckDrafts(drafts: DeckDraft[]): DeckDraft[] {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(drafts));
+  return drafts;
+}